@@ -0,0 +1,811 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import {
+  ShaderCanvas,
+  ShaderControlsPanel,
+  ShaderEditor,
+  ShaderFallback,
+  TransportControls,
+  ExportDialog,
+  PixelInspectorPanel,
+  TimelineEditor,
+  createPlaybackTransport,
+  createPixelInspector,
+  createUniformBindings,
+  useInspectorState,
+  decodeUniformQuery,
+  getShaderIdFromPath,
+  getShaderUrl,
+  getStartupUniforms,
+  getStartupAnimation,
+  getShaderById,
+  getDefaultUniforms,
+  useShaders,
+  useShaderEdits,
+  saveShaderEdit,
+  revertShaderEdit,
+  useChannelFiles,
+  setChannelFile,
+  clearChannelFile,
+  usePostChains,
+  savePostChain,
+  normalizePostChain,
+  useRenderSettings,
+  updateRenderSettings,
+  describeMigrationIssues,
+  hasMigrationIssues,
+  createAnimation,
+  evaluateAnimation,
+  isAnimated,
+} from "@/components";
+import type {
+  MigrationReport,
+  MigrationResult,
+  PostChain,
+  ShaderDefinition,
+  TextureSource,
+  UniformAnimation,
+  UniformValue,
+  UniformValues,
+} from "@/components";
+import {
+  formatDiagnosticLocation,
+  type ShaderDiagnostic,
+} from "@/lib/shader-diagnostics";
+import { simulateContextLoss } from "@/lib/webgl-utils";
+
+// Quiet period before uniform changes are written to the URL
+const URL_UPDATE_DELAY_MS = 250;
+
+/**
+ * Props for the ShadersPage component
+ */
+export interface ShadersPageProps {
+  /** Shader shown on load, from the route */
+  shaderId: string;
+}
+
+/**
+ * Shader error reported by the canvas
+ */
+interface ShaderError {
+  message: string;
+  diagnostics: ShaderDiagnostic[];
+}
+
+/**
+ * Report from loading stored uniform values that had issues
+ */
+interface MigrationNotice {
+  shader: ShaderDefinition;
+  report: MigrationReport;
+}
+
+/**
+ * Shaders Page Header
+ *
+ * Stacked "SHADERS" header with multiple colored layers
+ * Matches the sandbox page styling pattern
+ */
+function ShadersHeader() {
+  return (
+    <section className="mt-8 mb-8 relative overflow-hidden">
+      <div className="flex flex-col">
+        {/* Stacked text layers - scale up on larger screens */}
+        <span className="text-3xl md:text-5xl lg:text-6xl stack-text text-accent-teal opacity-30 select-none">
+          SHADERS
+        </span>
+        <span className="text-3xl md:text-5xl lg:text-6xl stack-text text-accent-pink opacity-50 select-none -mt-3 md:-mt-5 lg:-mt-6">
+          SHADERS
+        </span>
+        <h1 className="text-4xl md:text-6xl lg:text-7xl stack-text text-foreground -mt-3 md:-mt-5 lg:-mt-6 relative z-10">
+          SHADERS
+        </h1>
+        <span className="text-3xl md:text-5xl lg:text-6xl stack-text text-accent-blue opacity-50 select-none -mt-3 md:-mt-5 lg:-mt-6">
+          SHADERS
+        </span>
+        <span className="text-3xl md:text-5xl lg:text-6xl stack-text text-surface opacity-30 select-none -mt-3 md:-mt-5 lg:-mt-6">
+          SHADERS
+        </span>
+      </div>
+      <p className="mt-6 text-sm md:text-base text-muted font-medium tracking-tight max-w-[300px] md:max-w-md">
+        WebGL fragment shaders exploring raymarching, SDFs, and procedural
+        textures.
+      </p>
+    </section>
+  );
+}
+
+/**
+ * Context Restoring Overlay
+ *
+ * Shown while the browser restores a lost WebGL context
+ */
+function ContextRestoringOverlay() {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <p className="text-sm text-muted font-medium animate-pulse">
+        Restoring graphics context…
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Shader Error Overlay
+ *
+ * Lists compiler/linker diagnostics with the offending source lines
+ */
+function ShaderErrorOverlay({ error }: { error: ShaderError }) {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto p-4 bg-red-950/50 border border-red-500/50 rounded-lg">
+        <p className="text-sm text-red-400 font-medium mb-1">Shader Error</p>
+        <p className="text-xs text-red-300/80 font-mono">{error.message}</p>
+
+        {error.diagnostics.length > 0 && (
+          <ul className="mt-3 space-y-3">
+            {error.diagnostics.map((diagnostic, index) => (
+              <li key={index} className="text-xs font-mono">
+                <p
+                  className={
+                    diagnostic.severity === "error"
+                      ? "text-red-300"
+                      : "text-yellow-300"
+                  }
+                >
+                  <span className="text-muted">
+                    {formatDiagnosticLocation(diagnostic)}
+                  </span>{" "}
+                  {diagnostic.severity}: {diagnostic.message}
+                </p>
+
+                {diagnostic.context && diagnostic.context.length > 0 && (
+                  <pre className="mt-1 py-1 bg-black/60 border border-border rounded overflow-x-auto">
+                    {diagnostic.context.map((sourceLine) => (
+                      <div
+                        key={sourceLine.line}
+                        className={`px-2 ${
+                          sourceLine.highlight
+                            ? "bg-red-500/20 text-red-200"
+                            : "text-muted"
+                        }`}
+                      >
+                        <span className="inline-block w-8 pr-2 text-right select-none opacity-60">
+                          {sourceLine.line}
+                        </span>
+                        {sourceLine.text}
+                        {sourceLine.highlight &&
+                          diagnostic.column !== undefined && (
+                            <div className="text-red-400">
+                              <span className="inline-block w-8 pr-2" />
+                              {" ".repeat(Math.max(0, diagnostic.column - 1))}^
+                            </div>
+                          )}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Migration Notice
+ *
+ * Lists stored uniform values that couldn't be loaded as saved
+ */
+function MigrationNoticeBanner({
+  notice,
+  onDismiss,
+}: {
+  notice: MigrationNotice;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="mt-4 flex items-start gap-3 p-3 bg-yellow-950/40 border border-yellow-500/40 rounded-lg text-xs">
+      <div className="flex-1">
+        <p className="text-yellow-300 font-medium mb-1">
+          Some saved values for {notice.shader.name} couldn&apos;t be restored
+        </p>
+        <ul className="space-y-0.5 text-yellow-200/80">
+          {describeMigrationIssues(notice.shader, notice.report).map((line) => (
+            <li key={line}>{line}</li>
+          ))}
+        </ul>
+      </div>
+      <button
+        onClick={onDismiss}
+        className="text-muted hover:text-foreground transition-colors"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Shaders Experiment Page
+ *
+ * Interactive WebGL shader gallery featuring raymarching,
+ * signed distance functions, and procedural textures
+ */
+export default function ShadersPage({
+  shaderId: initialShaderId,
+}: ShadersPageProps) {
+  // Registered shaders, in selector order
+  const shaders = useShaders();
+
+  // Shader selection state
+  const [shaderId, setShaderId] = useState(initialShaderId);
+
+  // Uniform values - initialize with defaults for the initial shader; any
+  // values in the URL are restored once mounted
+  const [uniforms, setUniforms] = useState<UniformValues>(() => {
+    const initialShader = getShaderById(initialShaderId);
+    return initialShader ? getDefaultUniforms(initialShader) : {};
+  });
+
+  // Keyframes animating uniforms over shader time
+  const [animation, setAnimation] = useState<UniformAnimation>(() =>
+    createAnimation()
+  );
+  const [showTimeline, setShowTimeline] = useState(false);
+
+  // Debug mode state
+  const [showDebug, setShowDebug] = useState(false);
+
+  // Error state for shader compilation failures
+  const [error, setError] = useState<ShaderError | null>(null);
+
+  // Warnings from the last successful compile
+  const [warnings, setWarnings] = useState<ShaderDiagnostic[]>([]);
+
+  // Issues from the last stored uniform values loaded (link or preset)
+  const [migrationNotice, setMigrationNotice] =
+    useState<MigrationNotice | null>(null);
+
+  // Playback clock shared by the canvas and the transport controls
+  const [transport] = useState(() => createPlaybackTransport());
+
+  // Expressions driving uniforms, evaluated by the canvas every frame
+  const [bindings] = useState(() => createUniformBindings());
+
+  // Pixel inspector reading the canvas output under the pointer
+  const [inspector] = useState(() => createPixelInspector());
+  const { enabled: inspecting } = useInspectorState(inspector);
+
+  // Still export dialog
+  const [showExport, setShowExport] = useState(false);
+
+  // Resolution preferences - persisted across visits
+  const renderSettings = useRenderSettings();
+
+  // Set while the WebGL context is lost and being restored
+  const [contextLost, setContextLost] = useState(false);
+
+  // Set once ShaderCanvas finds no WebGL2; ShaderFallback takes over
+  const [webgl2Unsupported, setWebgl2Unsupported] = useState(false);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+
+  // Live editor state - edits are persisted per shader
+  const [showEditor, setShowEditor] = useState(false);
+  const edits = useShaderEdits();
+  const currentShader = getShaderById(shaderId);
+  const editedSource = edits[shaderId];
+
+  // Files dropped onto the current shader's texture channels
+  const channelFiles = useChannelFiles()[shaderId];
+  const channelSources = useMemo(() => {
+    const sources: Record<string, TextureSource> = {};
+    for (const [channel, file] of Object.entries(channelFiles ?? {})) {
+      sources[channel] = file.source;
+    }
+    return sources;
+  }, [channelFiles]);
+
+  // Post-processing chain - saved per shader
+  const savedPostChain = usePostChains()[shaderId];
+  const postChain = useMemo(
+    () => normalizePostChain(savedPostChain),
+    [savedPostChain]
+  );
+  const handlePostChainChange = useCallback(
+    (chain: PostChain) => savePostChain(shaderId, chain),
+    [shaderId]
+  );
+
+  /**
+   * Record a shader error with its compiler diagnostics
+   */
+  const handleError = useCallback(
+    (message: string, diagnostics: ShaderDiagnostic[] = []) => {
+      setError({ message, diagnostics });
+    },
+    []
+  );
+
+  /**
+   * Clear errors once a shader compiles, keeping any warnings
+   */
+  const handleCompile = useCallback((diagnostics: ShaderDiagnostic[]) => {
+    setError(null);
+    setWarnings(diagnostics);
+  }, []);
+
+  /**
+   * Save editor changes, dropping the edit if it matches the original
+   */
+  const handleSourceChange = useCallback(
+    (source: string) => {
+      if (source === getShaderById(shaderId)?.fragmentSource) {
+        revertShaderEdit(shaderId);
+      } else {
+        saveShaderEdit(shaderId, source);
+      }
+    },
+    [shaderId]
+  );
+
+  /**
+   * Apply migrated uniform values, noting anything that didn't carry over
+   */
+  const loadUniforms = useCallback(
+    (shader: ShaderDefinition, { values, report }: MigrationResult) => {
+      setUniforms(values);
+      setMigrationNotice(
+        hasMigrationIssues(report) ? { shader, report } : null
+      );
+    },
+    []
+  );
+
+  /**
+   * Show a shader with the given uniform values and animation
+   */
+  const showShader = useCallback(
+    (
+      shader: ShaderDefinition,
+      result: MigrationResult,
+      shaderAnimation: UniformAnimation | null
+    ) => {
+      setShaderId(shader.id);
+      loadUniforms(shader, result);
+      setAnimation(shaderAnimation ?? createAnimation());
+      transport.seek(0); // Start the new shader from the beginning
+      setError(null); // Clear any previous errors
+    },
+    [transport, loadUniforms]
+  );
+
+  /**
+   * Handle shader selection - updates shaderId and resets uniforms to new shader's defaults
+   */
+  const handleShaderSelect = useCallback((id: string) => {
+    const shader = getShaderById(id);
+    if (shader) {
+      const startup = getStartupUniforms(shader);
+      showShader(shader, startup, getStartupAnimation(shader));
+
+      // Each shader gets its own history entry, so back/forward move
+      // between shaders
+      const url = getShaderUrl(shader, startup.values);
+      if (getShaderIdFromPath(window.location.pathname) === id) {
+        window.history.replaceState(null, "", url);
+      } else {
+        window.history.pushState(null, "", url);
+      }
+    }
+  }, [showShader]);
+
+  /**
+   * Restore the shader and uniforms from the URL on load and on back/forward
+   * Without uniforms in the URL, the shader opens with its startup preset
+   * (links don't carry animations).
+   */
+  useEffect(() => {
+    const restore = () => {
+      const shader = getShaderById(
+        getShaderIdFromPath(window.location.pathname) ?? initialShaderId
+      );
+      if (!shader) return;
+      const { search } = window.location;
+      if (search) {
+        showShader(shader, decodeUniformQuery(shader, search), null);
+      } else {
+        showShader(
+          shader,
+          getStartupUniforms(shader),
+          getStartupAnimation(shader)
+        );
+      }
+    };
+
+    restore();
+    window.addEventListener("popstate", restore);
+    return () => window.removeEventListener("popstate", restore);
+  }, [initialShaderId, showShader]);
+
+  /**
+   * Mirror uniform changes into the URL (replacing the history entry, and
+   * debounced so slider drags don't flood the history API)
+   */
+  useEffect(() => {
+    const shader = getShaderById(shaderId);
+    if (!shader) return;
+
+    const timeout = setTimeout(() => {
+      const url = getShaderUrl(shader, uniforms);
+      if (url !== window.location.pathname + window.location.search) {
+        window.history.replaceState(null, "", url);
+      }
+    }, URL_UPDATE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [shaderId, uniforms]);
+
+  /**
+   * Expressions are written against one shader's uniforms, so drop them
+   * when switching (and stop any microphone input on unmount)
+   */
+  useEffect(() => () => bindings.clear(), [shaderId, bindings]);
+
+  /**
+   * Uniform values at a shader time while any are keyframed
+   */
+  const uniformsAt = useMemo(() => {
+    if (!currentShader || !isAnimated(animation)) return undefined;
+    return (time: number) =>
+      evaluateAnimation(currentShader, animation, uniforms, time);
+  }, [currentShader, animation, uniforms]);
+
+  /**
+   * Handle individual uniform value change
+   */
+  const handleUniformChange = useCallback(
+    (name: string, value: UniformValue) => {
+      setUniforms((prev) => ({
+        ...prev,
+        [name]: value,
+      }));
+    },
+    []
+  );
+
+  /**
+   * Reset uniforms to current shader's defaults
+   */
+  const handleResetDefaults = useCallback(() => {
+    const shader = getShaderById(shaderId);
+    if (shader) {
+      setUniforms(getDefaultUniforms(shader));
+      setMigrationNotice(null);
+    }
+  }, [shaderId]);
+
+  /**
+   * Cycle through shaders in the gallery
+   * @param direction -1 for previous, +1 for next
+   */
+  const cycleShader = useCallback(
+    (direction: -1 | 1) => {
+      if (shaders.length === 0) return;
+      const currentIndex = shaders.findIndex((s) => s.id === shaderId);
+      const nextIndex =
+        (currentIndex + direction + shaders.length) % shaders.length;
+      const nextShader = shaders[nextIndex];
+      handleShaderSelect(nextShader.id);
+    },
+    [shaders, shaderId, handleShaderSelect]
+  );
+
+  /**
+   * Fall back to the first shader if the selected one is unregistered
+   */
+  useEffect(() => {
+    if (shaders.length > 0 && !shaders.some((s) => s.id === shaderId)) {
+      handleShaderSelect(shaders[0].id);
+    }
+  }, [shaders, shaderId, handleShaderSelect]);
+
+  /**
+   * Handle keyboard shortcuts
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave browser and OS shortcuts (Ctrl+R, Cmd+1...) alone
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      // Ignore if user is typing in or choosing from a form field
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement ||
+        (e.target instanceof HTMLElement && e.target.isContentEditable)
+      ) {
+        return;
+      }
+
+      // The export dialog handles its own keys
+      if (showExport) return;
+
+      // Digit keys select shaders by position in the registry
+      const digit = /^Digit([1-9])$/.exec(e.code);
+      if (digit) {
+        const shader = shaders[Number(digit[1]) - 1];
+        if (shader) handleShaderSelect(shader.id);
+        return;
+      }
+
+      switch (e.code) {
+        case "ArrowLeft":
+          e.preventDefault();
+          cycleShader(-1);
+          break;
+        case "ArrowRight":
+          e.preventDefault();
+          cycleShader(1);
+          break;
+        case "KeyR":
+          handleResetDefaults();
+          break;
+        case "KeyD":
+          setShowDebug((prev) => !prev);
+          break;
+        case "KeyE":
+          setShowEditor((prev) => !prev);
+          break;
+        case "KeyI":
+          inspector.toggle();
+          break;
+        case "KeyT":
+          setShowTimeline((prev) => !prev);
+          break;
+        case "Space":
+          e.preventDefault();
+          transport.toggle();
+          break;
+        case "Comma":
+          transport.step(-1);
+          break;
+        case "Period":
+          transport.step(1);
+          break;
+        case "KeyL": {
+          // Debug only: drop the WebGL context to test restoring
+          if (!showDebug) break;
+          const canvas = canvasContainerRef.current?.querySelector("canvas");
+          const gl = canvas?.getContext("webgl2");
+          if (!gl || !simulateContextLoss(gl)) {
+            console.warn("WEBGL_lose_context is not available");
+          }
+          break;
+        }
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [
+    shaders,
+    showDebug,
+    showExport,
+    transport,
+    inspector,
+    cycleShader,
+    handleResetDefaults,
+    handleShaderSelect,
+  ]);
+
+  return (
+    <div className="max-w-md md:max-w-3xl lg:max-w-6xl mx-auto px-6 pb-24">
+      {/* Stacked header */}
+      <ShadersHeader />
+
+      {/* Canvas container */}
+      <section className="relative">
+        <div className={showEditor ? "grid gap-4 lg:grid-cols-2" : undefined}>
+          <div
+            id="canvas-container"
+            ref={canvasContainerRef}
+            className={`w-full aspect-[4/3] md:aspect-[16/9] bg-black rounded-lg border border-border overflow-hidden relative ${
+              inspecting ? "cursor-crosshair" : ""
+            }`}
+          >
+            {/* WebGL Shader Canvas, or a fallback without WebGL2 */}
+            {webgl2Unsupported ? (
+              <ShaderFallback
+                shaderId={shaderId}
+                uniforms={uniforms}
+                fragmentSource={editedSource}
+              />
+            ) : (
+              <ShaderCanvas
+                shaderId={shaderId}
+                uniforms={uniforms}
+                uniformsAt={uniformsAt}
+                fragmentSource={editedSource}
+                channelSources={channelSources}
+                postChain={postChain}
+                transport={transport}
+                maxPixelRatio={renderSettings.maxPixelRatio}
+                adaptiveResolution={renderSettings.adaptiveResolution}
+                targetFPS={renderSettings.targetFPS}
+                onError={handleError}
+                onCompile={handleCompile}
+                onContextLost={() => setContextLost(true)}
+                onContextRestored={() => setContextLost(false)}
+                onUnsupported={() => setWebgl2Unsupported(true)}
+                inspector={inspector}
+                bindings={bindings}
+                showDebug={showDebug}
+              />
+            )}
+
+            {!webgl2Unsupported && <PixelInspectorPanel inspector={inspector} />}
+
+            {contextLost && <ContextRestoringOverlay />}
+
+            {/* Error overlay - the editor shows errors inline instead, so
+                the last working program stays visible while editing */}
+            {error && !showEditor && <ShaderErrorOverlay error={error} />}
+          </div>
+
+          {/* Live GLSL editor */}
+          {showEditor && currentShader && (
+            <ShaderEditor
+              key={currentShader.id}
+              fileName={`${currentShader.id}.frag`}
+              originalSource={currentShader.fragmentSource}
+              source={editedSource ?? currentShader.fragmentSource}
+              onSourceChange={handleSourceChange}
+              onRevert={() => revertShaderEdit(shaderId)}
+              diagnostics={
+                error
+                  ? error.diagnostics.length > 0
+                    ? error.diagnostics
+                    : [{ stage: "fragment", severity: "error", message: error.message }]
+                  : warnings
+              }
+            />
+          )}
+        </div>
+
+        {/* Playback transport - the fallbacks keep their own clock */}
+        {!webgl2Unsupported && <TransportControls transport={transport} />}
+
+        {/* Keyframe timeline */}
+        {showTimeline && !webgl2Unsupported && currentShader && (
+          <TimelineEditor
+            key={currentShader.id}
+            shader={currentShader}
+            uniforms={uniforms}
+            animation={animation}
+            onChange={setAnimation}
+            transport={transport}
+          />
+        )}
+
+        {/* Controls panel - positioned over canvas */}
+        <ShaderControlsPanel
+          selectedShaderId={shaderId}
+          onShaderSelect={handleShaderSelect}
+          uniforms={uniforms}
+          onUniformChange={handleUniformChange}
+          onResetDefaults={handleResetDefaults}
+          channelFiles={channelFiles}
+          onChannelFile={(channel, file) => setChannelFile(shaderId, channel, file)}
+          onChannelReset={(channel) => clearChannelFile(shaderId, channel)}
+          postChain={postChain}
+          onPostChainChange={handlePostChainChange}
+          renderSettings={renderSettings}
+          onRenderSettingsChange={updateRenderSettings}
+          onExport={webgl2Unsupported ? undefined : () => setShowExport(true)}
+          animation={animation}
+          bindings={bindings}
+          onPresetLoad={(result, presetAnimation) => {
+            if (!currentShader) return;
+            loadUniforms(currentShader, result);
+            setAnimation(presetAnimation ?? createAnimation());
+          }}
+        />
+
+        {migrationNotice && (
+          <MigrationNoticeBanner
+            notice={migrationNotice}
+            onDismiss={() => setMigrationNotice(null)}
+          />
+        )}
+
+        {showExport && (
+          <ExportDialog
+            shaderId={shaderId}
+            uniforms={uniforms}
+            uniformsAt={uniformsAt}
+            fragmentSource={editedSource}
+            channelSources={channelSources}
+            postChain={postChain}
+            initialTime={transport.getState().time}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+
+        {/* Keyboard shortcuts hint */}
+        <div className="mt-4 flex flex-wrap gap-4 text-xs text-muted">
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              Left/Right
+            </kbd>{" "}
+            Cycle shaders
+          </span>
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              R
+            </kbd>{" "}
+            Reset
+          </span>
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              D
+            </kbd>{" "}
+            HUD
+          </span>
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              E
+            </kbd>{" "}
+            Editor
+          </span>
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              I
+            </kbd>{" "}
+            Inspect
+          </span>
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              T
+            </kbd>{" "}
+            Timeline
+          </span>
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              Space
+            </kbd>{" "}
+            Play/pause
+          </span>
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              ,/.
+            </kbd>{" "}
+            Step frame
+          </span>
+          <span>
+            <kbd className="px-1.5 py-0.5 bg-surface border border-border rounded text-foreground font-mono">
+              1-{Math.min(shaders.length, 9)}
+            </kbd>{" "}
+            Select shader
+          </span>
+        </div>
+      </section>
+
+      {/* Description section */}
+      <section className="mt-12 pt-8 border-t border-border">
+        <p className="text-xs text-muted font-medium uppercase tracking-widest mb-2">
+          About This Experiment
+        </p>
+        <p className="text-sm text-muted font-medium max-w-prose">
+          Fragment shaders run on the GPU, computing color values for every
+          pixel in parallel. This gallery showcases various techniques including
+          raymarching through signed distance functions, procedural noise
+          patterns, and real-time mathematical visualizations.
+        </p>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import type { Metadata } from "next";
+import { BUILTIN_SHADERS } from "@/components/shader-gallery";
+import ShadersPage from "../../shaders-page";
+
+interface ShaderRouteProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Pre-render a page for every built-in shader
+ * Shaders registered at runtime are rendered on demand instead.
+ */
+export function generateStaticParams() {
+  return BUILTIN_SHADERS.map((shader) => ({ id: shader.id }));
+}
+
+/**
+ * Title, description and Open Graph tags for the shader
+ * Unknown IDs keep the site-wide metadata from the root layout.
+ */
+export async function generateMetadata({
+  params,
+}: ShaderRouteProps): Promise<Metadata> {
+  const { id } = await params;
+  const shader = BUILTIN_SHADERS.find((s) => s.id === id);
+  if (!shader) return {};
+
+  const title = `${shader.name} — Shader Gallery`;
+  const poster = shader.fallbacks?.poster;
+  return {
+    title,
+    description: shader.description,
+    openGraph: {
+      title,
+      description: shader.description,
+      type: "website",
+      ...(poster && { images: [poster] }),
+    },
+  };
+}
+
+/**
+ * Shader Route
+ *
+ * The gallery opened on one shader; uniform values come from the query
+ * string once the page loads.
+ */
+export default async function ShaderRoute({ params }: ShaderRouteProps) {
+  const { id } = await params;
+  return <ShadersPage shaderId={id} />;
+}
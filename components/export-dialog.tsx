@@ -0,0 +1,571 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { TextureSource } from "@/lib/textures";
+import type { PostChain } from "./post-effects";
+import {
+  exportStill,
+  getStillExportBlocker,
+  getStillPostChainNotice,
+  MAX_EXPORT_PIXELS,
+  type StillFormat,
+} from "./shader-export";
+import {
+  getRecordingBlocker,
+  MAX_GIF_FPS,
+  RECORDING_FILE_EXTENSIONS,
+  recordShader,
+  type RecordingFormat,
+} from "./shader-recording";
+import { getShaderById } from "./shader-registry";
+import type { UniformValues } from "./shader-gallery";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Props for the ExportDialog component
+ */
+export interface ExportDialogProps {
+  /** ID of the shader to export */
+  shaderId: string;
+  /** Uniform values to render with */
+  uniforms: UniformValues;
+  /** Uniform values at a shader time, when they're animated */
+  uniformsAt?: (time: number) => UniformValues;
+  /** Override the definition's fragment source (live editing) */
+  fragmentSource?: string;
+  /** Sources replacing declared channels, by sampler name */
+  channelSources?: Record<string, TextureSource>;
+  /** Post-processing chain, applied to recordings */
+  postChain?: PostChain;
+  /** Starting time value, in seconds */
+  initialTime: number;
+  onClose: () => void;
+}
+
+type ExportMode = "still" | "animation";
+
+interface SizePreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * A running export: renders, then returns the file to download
+ */
+type ExportJob = (
+  signal: AbortSignal,
+  onProgress: (done: number, total: number) => void
+) => Promise<{ blob: Blob; fileName: string }>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STILL_PRESETS: SizePreset[] = [
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "4K", width: 3840, height: 2160 },
+  { label: "8K", width: 7680, height: 4320 },
+  // A3 landscape at 300 dpi
+  { label: "A3 print", width: 4961, height: 3508 },
+];
+
+const ANIMATION_PRESETS: SizePreset[] = [
+  { label: "480p", width: 854, height: 480 },
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "Square", width: 1080, height: 1080 },
+];
+
+const STILL_FORMATS: StillFormat[] = ["png", "webp"];
+
+const RECORDING_FORMATS: RecordingFormat[] = ["webm", "gif", "apng"];
+
+const FPS_OPTIONS = [24, 30, 50, 60];
+
+// Largest side a browser canvas accepts
+const MAX_SIDE = 16384;
+
+const inputClass = `w-full px-2 py-1 text-xs font-mono rounded-md
+  bg-surface/50 border border-border text-foreground
+  focus:outline-none focus:ring-2 focus:ring-accent-teal`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Save a blob through a temporary download link
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the download a moment to start before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ============================================================================
+// Fields
+// ============================================================================
+
+/**
+ * Labeled row of radio buttons
+ */
+function OptionButtons<T extends string | number>({
+  label,
+  value,
+  options,
+  onChange,
+  disabled,
+  format = String,
+}: {
+  label: string;
+  value: T;
+  options: T[];
+  onChange: (value: T) => void;
+  disabled: boolean;
+  format?: (value: T) => string;
+}) {
+  return (
+    <div>
+      <span className="text-xs text-foreground/80 block mb-2">{label}</span>
+      <div className="flex gap-1" role="radiogroup" aria-label={label}>
+        {options.map((option) => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={value === option}
+            onClick={() => onChange(option)}
+            disabled={disabled}
+            className={`flex-1 px-1 py-1 text-xs rounded-md transition-all
+              focus:outline-none focus:ring-2 focus:ring-accent-teal
+              ${
+                value === option
+                  ? "bg-accent-teal text-white font-medium"
+                  : "bg-surface/50 text-muted hover:bg-surface hover:text-foreground"
+              }`}
+          >
+            {format(option)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Width and height inputs with preset sizes
+ */
+function SizeFields({
+  width,
+  height,
+  presets,
+  onChange,
+  disabled,
+}: {
+  width: number;
+  height: number;
+  presets: SizePreset[];
+  onChange: (width: number, height: number) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div>
+      <span className="text-xs text-foreground/80 block mb-2">Size</span>
+      <div className="grid grid-cols-4 gap-1 mb-2">
+        {presets.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => onChange(preset.width, preset.height)}
+            disabled={disabled}
+            className={`px-1 py-1 text-xs rounded-md transition-all
+              focus:outline-none focus:ring-2 focus:ring-accent-teal
+              ${
+                width === preset.width && height === preset.height
+                  ? "bg-accent-teal text-white font-medium"
+                  : "bg-surface/50 text-muted hover:bg-surface hover:text-foreground"
+              }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={1}
+          max={MAX_SIDE}
+          value={width}
+          onChange={(e) => onChange(Math.round(Number(e.target.value)), height)}
+          disabled={disabled}
+          aria-label="Width"
+          className={inputClass}
+        />
+        <span className="text-xs text-muted">×</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_SIDE}
+          value={height}
+          onChange={(e) => onChange(width, Math.round(Number(e.target.value)))}
+          disabled={disabled}
+          aria-label="Height"
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Labeled number input
+ */
+function NumberField({
+  label,
+  value,
+  onChange,
+  disabled,
+  min = 0,
+  step = 0.01,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  disabled: boolean;
+  min?: number;
+  step?: number;
+}) {
+  return (
+    <label className="block">
+      <span className="text-xs text-foreground/80 block mb-2">{label}</span>
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Math.max(min, Number(e.target.value)))}
+        disabled={disabled}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * ExportDialog Component
+ *
+ * Exports the current shader offscreen: stills at any size (rendered in
+ * tiles beyond the GPU's limits) as PNG or WebP, or frame-accurate
+ * recordings as WebM, GIF or APNG.
+ */
+export function ExportDialog({
+  shaderId,
+  uniforms,
+  uniformsAt,
+  fragmentSource,
+  channelSources,
+  postChain,
+  initialTime,
+  onClose,
+}: ExportDialogProps) {
+  const [mode, setMode] = useState<ExportMode>("still");
+  const [time, setTime] = useState(() => Number(initialTime.toFixed(2)));
+
+  // Still settings
+  const [stillSize, setStillSize] = useState({ width: 3840, height: 2160 });
+  const [stillFormat, setStillFormat] = useState<StillFormat>("png");
+
+  // Animation settings
+  const [animationSize, setAnimationSize] = useState({
+    width: 1280,
+    height: 720,
+  });
+  const [duration, setDuration] = useState(5);
+  const [fps, setFps] = useState(30);
+  const [loop, setLoop] = useState(true);
+  const [recordingFormat, setRecordingFormat] =
+    useState<RecordingFormat>("webm");
+
+  const [progress, setProgress] = useState<{ done: number; total: number }>();
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const shader = getShaderById(shaderId);
+  const exporting = progress !== undefined;
+  const { width, height } = mode === "still" ? stillSize : animationSize;
+
+  // Reasons the export can't run as set up
+  const blocker =
+    mode === "still"
+      ? getStillExportBlocker(shader, width, height)
+      : shader
+        ? getRecordingBlocker(recordingFormat)
+        : "Shader not found";
+  // Still exports that will leave out the canvas's post effects
+  const postChainNotice =
+    mode === "still" ? getStillPostChainNotice(postChain, width, height) : null;
+  const invalid =
+    width < 1 ||
+    height < 1 ||
+    width > MAX_SIDE ||
+    height > MAX_SIDE ||
+    width * height > MAX_EXPORT_PIXELS
+      ? `Sides must be 1-${MAX_SIDE} pixels, up to ${MAX_EXPORT_PIXELS / 1e6} megapixels in total`
+      : mode === "animation" && recordingFormat === "gif" && fps > MAX_GIF_FPS
+        ? `GIFs play at most ${MAX_GIF_FPS} fps`
+        : mode === "animation" && duration <= 0
+          ? "Duration must be more than 0 seconds"
+          : null;
+
+  // Stop an export in progress when the dialog goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Escape closes the dialog (or cancels a running export)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      if (abortRef.current) {
+        abortRef.current.abort();
+      } else {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const runExport = async (job: ExportJob) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: 1 });
+
+    try {
+      const { blob, fileName } = await job(controller.signal, (done, total) =>
+        setProgress({ done, total })
+      );
+      downloadBlob(blob, fileName);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(undefined);
+    }
+  };
+
+  const handleExport = () => {
+    const baseName = `${shaderId}-${width}x${height}`;
+    if (mode === "still") {
+      runExport(async (signal, onProgress) => ({
+        blob: await exportStill({
+          shaderId,
+          width,
+          height,
+          time,
+          format: stillFormat,
+          uniforms: uniformsAt ?? uniforms,
+          fragmentSource,
+          channelSources,
+          postChain,
+          onProgress,
+          signal,
+        }),
+        fileName: `${baseName}.${stillFormat}`,
+      }));
+    } else {
+      runExport(async (signal, onProgress) => ({
+        blob: await recordShader({
+          shaderId,
+          width,
+          height,
+          duration,
+          fps,
+          loop,
+          format: recordingFormat,
+          startTime: time,
+          uniforms: uniformsAt ?? uniforms,
+          fragmentSource,
+          channelSources,
+          postChain,
+          onProgress,
+          signal,
+        }),
+        fileName: `${baseName}.${RECORDING_FILE_EXTENSIONS[recordingFormat]}`,
+      }));
+    }
+  };
+
+  const unit = mode === "still" ? "Tile" : "Frame";
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="export-dialog-title"
+    >
+      <div className="w-full max-w-sm max-h-full overflow-y-auto p-4 bg-black/60 backdrop-blur-xl border border-border rounded-xl shadow-2xl">
+        <h3
+          id="export-dialog-title"
+          className="text-sm font-medium text-foreground mb-4"
+        >
+          Export
+        </h3>
+
+        <div className="space-y-4">
+          <OptionButtons
+            label="Type"
+            value={mode}
+            options={["still", "animation"] as ExportMode[]}
+            onChange={setMode}
+            disabled={exporting}
+            format={(option) => (option === "still" ? "Still" : "Animation")}
+          />
+
+          <SizeFields
+            width={width}
+            height={height}
+            presets={mode === "still" ? STILL_PRESETS : ANIMATION_PRESETS}
+            onChange={(width, height) =>
+              (mode === "still" ? setStillSize : setAnimationSize)({
+                width,
+                height,
+              })
+            }
+            disabled={exporting}
+          />
+
+          <NumberField
+            label={mode === "still" ? "Time (seconds)" : "Start time (seconds)"}
+            value={time}
+            onChange={setTime}
+            disabled={exporting}
+          />
+
+          {mode === "still" ? (
+            <>
+              <OptionButtons
+                label="Format"
+                value={stillFormat}
+                options={STILL_FORMATS}
+                onChange={setStillFormat}
+                disabled={exporting}
+                format={(option) => option.toUpperCase()}
+              />
+              <p className="text-xs text-muted">
+                The mouse position isn&apos;t included.
+              </p>
+              {postChainNotice && (
+                <p className="text-xs text-yellow-300">{postChainNotice}</p>
+              )}
+            </>
+          ) : (
+            <>
+              <NumberField
+                label="Duration (seconds)"
+                value={duration}
+                onChange={setDuration}
+                disabled={exporting}
+                step={0.5}
+              />
+              <OptionButtons
+                label="Frame rate"
+                value={fps}
+                options={FPS_OPTIONS}
+                onChange={setFps}
+                disabled={exporting}
+              />
+              <OptionButtons
+                label="Format"
+                value={recordingFormat}
+                options={RECORDING_FORMATS}
+                onChange={setRecordingFormat}
+                disabled={exporting}
+                format={(option) => option.toUpperCase()}
+              />
+              <label className="flex items-center justify-between text-xs">
+                <span className="text-foreground/80">
+                  Loop{recordingFormat === "webm" && " (GIF and APNG only)"}
+                </span>
+                <input
+                  type="checkbox"
+                  checked={loop}
+                  onChange={(e) => setLoop(e.target.checked)}
+                  disabled={exporting || recordingFormat === "webm"}
+                  className="accent-accent-teal"
+                />
+              </label>
+              <p className="text-xs text-muted">
+                Frames render at a fixed timestep, so the recording plays
+                smoothly however fast the live canvas runs. The mouse position
+                isn&apos;t included.
+              </p>
+            </>
+          )}
+
+          {(blocker ?? invalid) && (
+            <p className="text-xs text-red-400">{blocker ?? invalid}</p>
+          )}
+
+          {progress && (
+            <div>
+              <div className="h-1.5 bg-border rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-accent-teal transition-all"
+                  style={{
+                    width: `${(progress.done / progress.total) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-muted font-mono">
+                {progress.done === 0
+                  ? "Preparing…"
+                  : progress.done === progress.total
+                    ? "Encoding…"
+                    : `${unit} ${progress.done} of ${progress.total}`}
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        {/* Actions */}
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            onClick={() => (exporting ? abortRef.current?.abort() : onClose())}
+            className="px-3 py-1.5 text-xs rounded-md bg-surface/50 text-muted
+              hover:bg-surface hover:text-foreground transition-colors
+              focus:outline-none focus:ring-2 focus:ring-accent-teal"
+          >
+            {exporting ? "Cancel" : "Close"}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || blocker !== null || invalid !== null}
+            className="px-3 py-1.5 text-xs rounded-md bg-accent-teal text-white font-medium
+              transition-opacity disabled:opacity-50
+              focus:outline-none focus:ring-2 focus:ring-accent-teal"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExportDialog;
@@ -1,8 +1,252 @@
 export { ShaderCanvas } from "./shader-canvas";
 export type { ShaderCanvasProps } from "./shader-canvas";
 
+export { ShaderFallback } from "./shader-fallback";
+export type { ShaderFallbackProps } from "./shader-fallback";
+
+export { ShaderEditor } from "./shader-editor";
+export type { ShaderEditorProps } from "./shader-editor";
+
+export { TransportControls } from "./transport-controls";
+export type { TransportControlsProps } from "./transport-controls";
+
+export { ExportDialog } from "./export-dialog";
+export type { ExportDialogProps } from "./export-dialog";
+
+export { PixelInspectorPanel } from "./pixel-inspector-panel";
+export type { PixelInspectorPanelProps } from "./pixel-inspector-panel";
+
 export { ShaderControlsPanel } from "./shader-controls-panel";
 export type { ShaderControlsPanelProps } from "./shader-controls-panel";
 
-export { SHADERS, getShaderById, getDefaultUniforms } from "./shader-gallery";
-export type { ShaderDefinition, ShaderUniform } from "./shader-gallery";
+export {
+  BUILTIN_SHADERS,
+  getDefaultUniforms,
+  getUniformGLType,
+  getShaderVersion,
+  resolveUniformValue,
+} from "./shader-gallery";
+export type {
+  ShaderDefinition,
+  ShaderPass,
+  ShaderFormat,
+  ShaderFallbacks,
+  ShaderPreset,
+  UniformMigration,
+  UniformRescale,
+  CpuPreview,
+  TextureChannel,
+  TextureSource,
+  TextureFilter,
+  TextureWrap,
+  ShaderUniform,
+  ScalarUniform,
+  Vec2Uniform,
+  ColorUniform,
+  BoolUniform,
+  EnumUniform,
+  UniformValue,
+  UniformValues,
+} from "./shader-gallery";
+
+export {
+  loadShaderSource,
+  ShaderAnnotationError,
+  ENGINE_UNIFORMS,
+  CHANNEL_RESOLUTION_SUFFIX,
+} from "./shader-loader";
+
+export { registerGlslChunk, getGlslChunk } from "./shader-chunks";
+
+export {
+  registerShader,
+  registerShaders,
+  unregisterShader,
+  listShaders,
+  subscribeToShaders,
+  getShaderById,
+  useShaders,
+} from "./shader-registry";
+
+export {
+  getShaderEdit,
+  saveShaderEdit,
+  revertShaderEdit,
+  subscribeToShaderEdits,
+  useShaderEdits,
+} from "./shader-edits";
+
+export {
+  setShaderCompileStatus,
+  clearShaderCompileStatuses,
+  subscribeToShaderCompileStatuses,
+  useShaderCompileStatuses,
+} from "./shader-compile-status";
+export type { ShaderCompileStatus } from "./shader-compile-status";
+
+export {
+  setChannelFile,
+  clearChannelFile,
+  subscribeToChannelFiles,
+  useChannelFiles,
+} from "./shader-channel-files";
+export type { ChannelFile, ChannelFiles } from "./shader-channel-files";
+
+export {
+  POST_EFFECTS,
+  getPostEffectById,
+  createDefaultPostChain,
+  normalizePostChain,
+} from "./post-effects";
+export type { PostChain, PostEffectState } from "./post-effects";
+
+export {
+  getPostChain,
+  savePostChain,
+  resetPostChain,
+  subscribeToPostChains,
+  usePostChains,
+} from "./post-chains";
+
+export {
+  DEFAULT_RENDER_SETTINGS,
+  getRenderSettings,
+  updateRenderSettings,
+  subscribeToRenderSettings,
+  useRenderSettings,
+} from "./render-settings";
+export type { RenderSettings } from "./render-settings";
+
+export {
+  FRAME_STEP_SECONDS,
+  createPlaybackTransport,
+  useTransportState,
+} from "./playback-transport";
+export type { PlaybackTransport, TransportState } from "./playback-transport";
+
+export {
+  MAX_EXPORT_PIXELS,
+  MAX_PASS_EXPORT_PIXELS,
+  exportStill,
+  getStillExportBlocker,
+  getStillPostChainNotice,
+} from "./shader-export";
+export type { StillExportOptions, StillFormat } from "./shader-export";
+
+export { createOfflineRenderer } from "./offline-renderer";
+export type {
+  OfflineFrame,
+  OfflineRenderer,
+  OfflineRendererOptions,
+} from "./offline-renderer";
+
+export {
+  MAX_GIF_FPS,
+  RECORDING_FILE_EXTENSIONS,
+  getRecordingBlocker,
+  recordShader,
+} from "./shader-recording";
+export type { RecordingFormat, RecordingOptions } from "./shader-recording";
+
+export {
+  createFrameTimeHistory,
+  drawPerformanceHud,
+  recordFrameTime,
+  summarizeFrameTimes,
+} from "./performance-hud";
+export type {
+  FrameTimeHistory,
+  FrameTimeSummary,
+  HudInfo,
+} from "./performance-hud";
+
+export {
+  LOUPE_SIZE,
+  createPixelInspector,
+  useInspectorState,
+} from "./pixel-inspector";
+export type {
+  InspectorPoint,
+  InspectorState,
+  PixelInspector,
+  PixelSample,
+} from "./pixel-inspector";
+
+export {
+  DEFAULT_SHADER_ID,
+  decodeUniformQuery,
+  encodeUniformQuery,
+  getShaderIdFromPath,
+  getShaderPath,
+  getShaderUrl,
+} from "./shader-url-state";
+
+export {
+  PRESET_FILE_FORMAT,
+  PRESET_FILE_VERSION,
+  PresetFileError,
+  deletePreset,
+  exportPresetFile,
+  getPresetAnimation,
+  getPresetUniforms,
+  getSavedPresets,
+  getStartupAnimation,
+  getStartupUniforms,
+  importPresetFile,
+  listPresets,
+  parsePresetFile,
+  savePreset,
+  setStartupPreset,
+  subscribeToPresets,
+  usePresets,
+} from "./shader-presets";
+export type {
+  PresetFile,
+  PresetListing,
+  SavedPresets,
+} from "./shader-presets";
+
+export {
+  describeMigrationIssues,
+  hasMigrationIssues,
+  isNewerVersion,
+  migrateUniformValues,
+} from "./uniform-migrations";
+export type { MigrationReport, MigrationResult } from "./uniform-migrations";
+
+export { TimelineEditor } from "./timeline-editor";
+export type { TimelineEditorProps } from "./timeline-editor";
+
+export {
+  ANIMATION_MODES,
+  DEFAULT_BEZIER,
+  EASINGS,
+  MIN_ANIMATION_DURATION,
+  createAnimation,
+  evaluateAnimation,
+  getAnimationTime,
+  isAnimated,
+  normalizeAnimation,
+  removeKeyframe,
+  setKeyframe,
+  updateKeyframe,
+} from "./uniform-animation";
+export type {
+  AnimationMode,
+  BezierPoints,
+  Easing,
+  Keyframe,
+  UniformAnimation,
+} from "./uniform-animation";
+
+export {
+  createUniformBindings,
+  getExpressionVariables,
+  isBindable,
+  useBindingState,
+} from "./uniform-expressions";
+export type {
+  BindingContext,
+  BindingState,
+  UniformBindings,
+} from "./uniform-expressions";
@@ -0,0 +1,239 @@
+// Offline Renderer - Draws shader frames on demand into memory
+//
+// The offscreen counterpart of ShaderCanvas's render loop for exports:
+// callers drive frames themselves with explicit times instead of
+// requestAnimationFrame, and read each one back as RGBA pixels. It uses its
+// own WebGL2 context so it never disturbs the live canvas.
+
+import { createWebGLContext, createFullscreenQuad } from '@/lib/webgl-utils';
+import { createProgramCache, deleteProgramCache } from '@/lib/program-cache';
+import {
+  createRenderTarget,
+  deleteRenderTarget,
+  type RenderTarget,
+} from '@/lib/render-targets';
+import { getShadertoyDate } from '@/lib/shadertoy';
+import type { SourceTexture, TextureSource } from '@/lib/textures';
+import type { Tile } from '@/lib/tiling';
+import {
+  createPostProcessor,
+  deletePostProcessor,
+  renderWithPostChain,
+} from './post-processing';
+import type { PostChain } from './post-effects';
+import {
+  buildShaderPipeline,
+  deleteChannelTextures,
+  deleteShaderPipeline,
+  renderShaderPasses,
+  syncChannelTextures,
+  type PipelineFrameInputs,
+} from './shader-pipeline';
+import type { ShaderDefinition, UniformValues } from './shader-gallery';
+
+export interface OfflineRendererOptions {
+  shader: ShaderDefinition;
+  /** Override the definition's fragment source (live editing) */
+  fragmentSource?: string;
+  /** Sources replacing declared channels, by sampler name */
+  channelSources?: Record<string, TextureSource>;
+  /** Effects to apply after the shader; tiled renderers skip them for tiles */
+  postChain?: PostChain;
+  /** Build the image program for tiled rendering (see buildShaderPipeline) */
+  tiled?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * One frame to draw
+ */
+export interface OfflineFrame {
+  time: number;
+  /** Seconds since the previous frame */
+  timeDelta: number;
+  /** Full frame size */
+  width: number;
+  height: number;
+  uniforms: UniformValues;
+  /** Part of the frame to draw, for tiled renderers; defaults to all of it */
+  tile?: Tile;
+}
+
+export interface OfflineRenderer {
+  /** Largest width or height the GPU can draw in one piece */
+  maxTileSize: number;
+  /**
+   * Draw a frame (or tile) and read it back into `pixels` as opaque RGBA,
+   * top row first
+   * Post effects need the whole frame, so they aren't applied to tiles.
+   */
+  renderFrame(frame: OfflineFrame, pixels: Uint8ClampedArray): void;
+  /**
+   * Advance the shader's buffer passes one frame at the full frame size,
+   * without drawing the image; tiled renderers call this for every frame up
+   * to the one they draw
+   */
+  renderPasses(frame: OfflineFrame): void;
+  /** Delete every GL resource and release the context */
+  dispose(): void;
+}
+
+// How long to wait for image and video channels before rendering anyway
+const CHANNEL_LOAD_TIMEOUT_MS = 10000;
+
+/**
+ * Wait a frame so the page stays responsive during long renders
+ */
+export function nextFrame(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => resolve()));
+}
+
+/**
+ * Wait until every image/video channel texture has loaded, or time out
+ */
+async function waitForChannels(
+  textures: Map<string, SourceTexture>,
+  signal?: AbortSignal
+): Promise<void> {
+  const start = performance.now();
+  const pending = () =>
+    [...textures.values()].some(
+      (texture) => texture.source.type !== 'file' && texture.width === 0
+    );
+
+  while (pending() && performance.now() - start < CHANNEL_LOAD_TIMEOUT_MS) {
+    signal?.throwIfAborted();
+    await nextFrame();
+  }
+}
+
+/**
+ * Create an offline renderer for a shader, once its channel textures have
+ * loaded
+ * Throws if WebGL2 is unavailable or the shader fails to build.
+ */
+export async function createOfflineRenderer({
+  shader,
+  fragmentSource,
+  channelSources = {},
+  postChain = [],
+  tiled = false,
+  signal,
+}: OfflineRendererOptions): Promise<OfflineRenderer> {
+  const gl = createWebGLContext(document.createElement('canvas'));
+  if (!gl) throw new Error('WebGL2 is not supported in this browser');
+
+  const cache = createProgramCache(gl);
+  const post = createPostProcessor(gl, cache);
+  const vao = createFullscreenQuad(gl);
+  const textures = new Map<string, SourceTexture>();
+  const built = buildShaderPipeline(gl, cache, shader, fragmentSource, {
+    tiled,
+  });
+  const pipeline = built.pipeline;
+  let target: RenderTarget | null = null;
+  let readback = new Uint8Array(0);
+
+  const dispose = () => {
+    deleteChannelTextures(gl, textures);
+    if (pipeline) deleteShaderPipeline(gl, cache, pipeline);
+    deletePostProcessor(gl, post);
+    if (target) deleteRenderTarget(gl, target);
+    if (vao) gl.deleteVertexArray(vao);
+    deleteProgramCache(cache);
+    // Free the context now rather than when it's garbage collected
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  };
+
+  try {
+    if (!built.pipeline) throw new Error(built.error);
+    if (!vao) throw new Error('Failed to create fullscreen quad');
+
+    syncChannelTextures(gl, textures, shader.channels ?? [], channelSources);
+    await waitForChannels(textures, signal);
+  } catch (e) {
+    dispose();
+    throw e;
+  }
+
+  const viewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+  const maxTileSize = Math.min(
+    gl.getParameter(gl.MAX_TEXTURE_SIZE) as number,
+    gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number,
+    viewport[0],
+    viewport[1]
+  );
+
+  // Fixed for the whole export so every frame sees the same date
+  const date = getShadertoyDate();
+
+  const toInputs = (frame: OfflineFrame): PipelineFrameInputs => {
+    syncChannelTextures(gl, textures, shader.channels ?? [], channelSources);
+    return {
+      time: frame.time,
+      timeDelta: frame.timeDelta,
+      width: frame.width,
+      height: frame.height,
+      mouse: [0.5, 0.5],
+      clickMouse: [0, 0, 0, 0],
+      date,
+      uniforms: frame.uniforms,
+      channels: textures,
+      tile: frame.tile,
+      // Tiled renderers advance the passes with renderPasses alone
+      holdPasses: tiled,
+    };
+  };
+
+  const renderFrame = (frame: OfflineFrame, pixels: Uint8ClampedArray) => {
+    const width = frame.tile?.width ?? frame.width;
+    const height = frame.tile?.height ?? frame.height;
+
+    // Grow the output buffer when needed; smaller tiles reuse it
+    if (!target || target.width < width || target.height < height) {
+      const targetWidth = Math.max(width, target?.width ?? 0);
+      const targetHeight = Math.max(height, target?.height ?? 0);
+      if (target) deleteRenderTarget(gl, target);
+      target = createRenderTarget(gl, targetWidth, targetHeight, {
+        float: false,
+      });
+      if (!target) throw new Error('Failed to allocate export buffers');
+      readback = new Uint8Array(target.width * target.height * 4);
+    }
+
+    renderWithPostChain(
+      gl,
+      post,
+      pipeline!,
+      vao!,
+      toInputs(frame),
+      frame.tile ? [] : postChain,
+      target.framebuffer
+    );
+
+    // Read back (rows bottom-up) and flip into the caller's buffer
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, readback);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    const rowBytes = width * 4;
+    for (let row = 0; row < height; row++) {
+      const from = row * rowBytes;
+      pixels.set(
+        readback.subarray(from, from + rowBytes),
+        (height - 1 - row) * rowBytes
+      );
+    }
+    // The live canvas is opaque, so match it
+    for (let i = 3; i < width * height * 4; i += 4) {
+      pixels[i] = 255;
+    }
+  };
+
+  const renderPasses = (frame: OfflineFrame) => {
+    const inputs = toInputs({ ...frame, tile: undefined });
+    renderShaderPasses(gl, pipeline!, vao!, inputs);
+  };
+
+  return { maxTileSize, renderFrame, renderPasses, dispose };
+}
@@ -0,0 +1,249 @@
+// Performance HUD - Frame-time history and the canvas overlay drawing it
+//
+// The canvas records every frame's wall-clock time here and draws the HUD
+// onto a 2D overlay canvas on top of the WebGL one, so showing it costs no
+// React renders.
+
+import type { UniformValues } from './shader-gallery';
+
+// Frames kept for the graph and statistics
+const HISTORY_SIZE = 120;
+
+export interface FrameTimeHistory {
+  samples: Float32Array;    // Ring buffer of frame times in milliseconds
+  count: number;
+  next: number;             // Ring index the next sample goes to
+  lastTime: number | null;  // Timestamp of the previous frame, if any
+}
+
+export interface FrameTimeSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+export interface HudInfo {
+  frameTimes: FrameTimeHistory;
+  /** GPU milliseconds per frame; undefined when timer queries are unavailable */
+  gpuTime?: number | null;
+  render: { width: number; height: number; scale: number };
+  canvas: { width: number; height: number };
+  uniforms: UniformValues;
+  renderer: string;
+  vendor: string;
+}
+
+const HUD_WIDTH = 280;
+const GRAPH_HEIGHT = 60;
+const LINE_HEIGHT = 14;
+const PADDING = 10;
+const MARGIN = 10;
+
+// Graph scale and reference lines, in milliseconds
+const GRAPH_MAX_MS = 50;
+const REFERENCE_LINES_MS = [1000 / 60, 1000 / 30];
+
+const COLORS = {
+  background: 'rgba(0, 0, 0, 0.7)',
+  text: '#e5e7eb',
+  muted: '#9ca3af',
+  good: '#14b8a6',
+  warn: '#f59e0b',
+  bad: '#ef4444',
+  grid: 'rgba(255, 255, 255, 0.15)',
+};
+
+/**
+ * Create an empty frame-time history
+ */
+export function createFrameTimeHistory(): FrameTimeHistory {
+  return {
+    samples: new Float32Array(HISTORY_SIZE),
+    count: 0,
+    next: 0,
+    lastTime: null,
+  };
+}
+
+/**
+ * Record a frame at a timestamp (performance.now())
+ * The first frame after a pause (lastTime null) only sets the baseline.
+ */
+export function recordFrameTime(history: FrameTimeHistory, now: number): void {
+  if (history.lastTime !== null) {
+    history.samples[history.next] = now - history.lastTime;
+    history.next = (history.next + 1) % HISTORY_SIZE;
+    history.count = Math.min(HISTORY_SIZE, history.count + 1);
+  }
+  history.lastTime = now;
+}
+
+/**
+ * Recorded frame times, oldest first
+ */
+function orderedSamples(history: FrameTimeHistory): number[] {
+  const start = (history.next - history.count + HISTORY_SIZE) % HISTORY_SIZE;
+  return Array.from(
+    { length: history.count },
+    (_, i) => history.samples[(start + i) % HISTORY_SIZE]
+  );
+}
+
+/**
+ * Min, mean, max and 95th percentile of the recorded frame times
+ */
+export function summarizeFrameTimes(
+  history: FrameTimeHistory
+): FrameTimeSummary | null {
+  if (history.count === 0) return null;
+
+  const sorted = orderedSamples(history).sort((a, b) => a - b);
+  const sum = sorted.reduce((a, b) => a + b, 0);
+  return {
+    min: sorted[0],
+    avg: sum / sorted.length,
+    max: sorted[sorted.length - 1],
+    p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+  };
+}
+
+function frameTimeColor(ms: number): string {
+  if (ms > 1000 / 30) return COLORS.bad;
+  if (ms > 1000 / 55) return COLORS.warn;
+  return COLORS.good;
+}
+
+function formatUniform(value: UniformValues[string]): string {
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (Array.isArray(value)) {
+    return `(${value.map((v) => v.toFixed(2)).join(', ')})`;
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+/**
+ * Shorten text with an ellipsis to fit a width
+ */
+function fitText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  width: number
+): string {
+  if (ctx.measureText(text).width <= width) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > width) {
+    end--;
+  }
+  return `${text.slice(0, end)}…`;
+}
+
+/**
+ * Draw the HUD in the top left corner
+ * @param pixelRatio - Overlay canvas pixels per CSS pixel
+ */
+export function drawPerformanceHud(
+  ctx: CanvasRenderingContext2D,
+  info: HudInfo,
+  pixelRatio: number
+): void {
+  const summary = summarizeFrameTimes(info.frameTimes);
+  const uniforms = Object.entries(info.uniforms);
+  const textLines = 6 + (uniforms.length > 0 ? uniforms.length + 1 : 0);
+  const height =
+    PADDING * 2 +
+    20 +
+    GRAPH_HEIGHT +
+    6 +
+    textLines * LINE_HEIGHT +
+    (uniforms.length > 0 ? 4 : 0);
+  const innerWidth = HUD_WIDTH - PADDING * 2;
+
+  ctx.save();
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.translate(MARGIN, MARGIN);
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, HUD_WIDTH, height);
+
+  // Header: frames per second from the mean frame time
+  let y = PADDING + 14;
+  ctx.font = '14px monospace';
+  ctx.fillStyle = summary ? frameTimeColor(summary.avg) : COLORS.muted;
+  ctx.fillText(
+    summary ? `FPS: ${(1000 / summary.avg).toFixed(1)}` : 'FPS: –',
+    PADDING,
+    y
+  );
+
+  // Frame-time graph, newest on the right, one bar per frame
+  const graphTop = y + 6;
+  const barWidth = innerWidth / HISTORY_SIZE;
+  const toY = (ms: number) =>
+    graphTop + GRAPH_HEIGHT * (1 - Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+  ctx.fillRect(PADDING, graphTop, innerWidth, GRAPH_HEIGHT);
+  const samples = orderedSamples(info.frameTimes);
+  const offset = HISTORY_SIZE - samples.length;
+  samples.forEach((ms, i) => {
+    const top = toY(ms);
+    ctx.fillStyle = frameTimeColor(ms);
+    ctx.fillRect(
+      PADDING + (offset + i) * barWidth,
+      top,
+      Math.max(1, barWidth - 0.5),
+      graphTop + GRAPH_HEIGHT - top
+    );
+  });
+
+  ctx.font = '9px monospace';
+  REFERENCE_LINES_MS.forEach((ms) => {
+    const lineY = Math.round(toY(ms)) + 0.5;
+    ctx.strokeStyle = COLORS.grid;
+    ctx.beginPath();
+    ctx.moveTo(PADDING, lineY);
+    ctx.lineTo(PADDING + innerWidth, lineY);
+    ctx.stroke();
+    ctx.fillStyle = COLORS.muted;
+    ctx.fillText(`${Math.round(1000 / ms)}`, PADDING + 2, lineY - 2);
+  });
+
+  // Statistics
+  y = graphTop + GRAPH_HEIGHT + 6;
+  ctx.font = '11px monospace';
+  const line = (text: string, color = COLORS.text) => {
+    y += LINE_HEIGHT;
+    ctx.fillStyle = color;
+    ctx.fillText(fitText(ctx, text, innerWidth), PADDING, y);
+  };
+
+  line(
+    summary
+      ? `frame min ${summary.min.toFixed(1)}  avg ${summary.avg.toFixed(1)}  max ${summary.max.toFixed(1)}`
+      : 'frame –'
+  );
+  line(
+    summary ? `      p95 ${summary.p95.toFixed(1)} ms` : '',
+    summary ? frameTimeColor(summary.p95) : COLORS.text
+  );
+  line(
+    info.gpuTime === undefined
+      ? 'gpu   timer queries unavailable'
+      : `gpu   ${info.gpuTime === null ? '–' : `${info.gpuTime.toFixed(2)} ms`}`,
+    info.gpuTime === undefined ? COLORS.muted : COLORS.text
+  );
+  line(
+    `res   ${info.render.width}x${info.render.height} (${Math.round(info.render.scale * 100)}%) of ${info.canvas.width}x${info.canvas.height}`
+  );
+  line(info.renderer, COLORS.muted);
+  line(info.vendor, COLORS.muted);
+
+  if (uniforms.length > 0) {
+    y += 4;
+    line('uniforms', COLORS.muted);
+    uniforms.forEach(([name, value]) => line(`${name} ${formatUniform(value)}`));
+  }
+
+  ctx.restore();
+}
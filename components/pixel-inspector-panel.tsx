@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  LOUPE_SIZE,
+  useInspectorState,
+  type PixelInspector,
+  type PixelSample,
+} from "./pixel-inspector";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PixelInspectorPanelProps {
+  inspector: PixelInspector;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Screen pixels per inspected pixel in the loupe
+const LOUPE_ZOOM = 10;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toHex(rgba: PixelSample["rgba"]): string {
+  return `#${rgba.map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Magnified view of the sampled pixels, with the center one outlined
+ */
+function Loupe({ sample }: { sample: PixelSample }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    const image = new ImageData(
+      new Uint8ClampedArray(sample.loupe),
+      LOUPE_SIZE,
+      LOUPE_SIZE
+    );
+    ctx.putImageData(image, 0, 0);
+  }, [sample]);
+
+  const center = ((LOUPE_SIZE - 1) / 2) * LOUPE_ZOOM;
+  return (
+    <div
+      className="relative shrink-0"
+      style={{ width: LOUPE_SIZE * LOUPE_ZOOM, height: LOUPE_SIZE * LOUPE_ZOOM }}
+    >
+      <canvas
+        ref={canvasRef}
+        width={LOUPE_SIZE}
+        height={LOUPE_SIZE}
+        className="w-full h-full rounded border border-border bg-black"
+        style={{ imageRendering: "pixelated" }}
+      />
+      <div
+        className="absolute border border-white mix-blend-difference pointer-events-none"
+        style={{
+          left: center,
+          top: center,
+          width: LOUPE_ZOOM,
+          height: LOUPE_ZOOM,
+        }}
+      />
+    </div>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * PixelInspectorPanel Component
+ *
+ * Shows the inspector's latest sample: the pixel's color as 0-1 floats and
+ * hex, its gl_FragCoord and uv, and a magnified loupe of its neighbours.
+ * Renders nothing while the inspector is off.
+ */
+export function PixelInspectorPanel({ inspector }: PixelInspectorPanelProps) {
+  const { enabled, pinned, sample } = useInspectorState(inspector);
+  if (!enabled) return null;
+
+  return (
+    <div className="absolute bottom-3 right-3 p-3 bg-black/70 backdrop-blur-sm border border-border rounded-lg text-xs font-mono pointer-events-none">
+      {sample ? (
+        <div className="flex gap-3">
+          <Loupe sample={sample} />
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-foreground">
+            <dt className="text-muted">rgba</dt>
+            <dd>{sample.rgba.map((c) => (c / 255).toFixed(3)).join(" ")}</dd>
+            <dt className="text-muted">hex</dt>
+            <dd className="flex items-center gap-1.5">
+              <span
+                className="inline-block w-3 h-3 rounded-sm border border-border"
+                style={{ backgroundColor: toHex(sample.rgba) }}
+              />
+              {toHex(sample.rgba)}
+            </dd>
+            <dt className="text-muted">frag</dt>
+            <dd>
+              {sample.x.toFixed(1)}, {sample.y.toFixed(1)}
+            </dd>
+            <dt className="text-muted">uv</dt>
+            <dd>
+              {(sample.x / sample.width).toFixed(4)},{" "}
+              {(sample.y / sample.height).toFixed(4)}
+            </dd>
+            <dt className="text-muted">size</dt>
+            <dd>
+              {sample.width}x{sample.height}
+            </dd>
+          </dl>
+        </div>
+      ) : (
+        <p className="text-muted">Hover the canvas to inspect pixels</p>
+      )}
+      <p className="mt-2 text-muted">
+        {pinned ? "Pinned — click to release" : "Click to pin"}
+      </p>
+    </div>
+  );
+}
+
+export default PixelInspectorPanel;
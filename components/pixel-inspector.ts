@@ -0,0 +1,176 @@
+// Pixel Inspector - Reads the shader's output under the pointer
+//
+// The canvas reports pointer positions with hover() and pin(), and while the
+// inspector is enabled reads the pixels around the target right after
+// drawing each frame (the drawing buffer isn't preserved, so it can't be
+// read later). Samples are published a few times a second for the panel.
+
+import { createStore, useStore } from '@/lib/store';
+
+export interface PixelSample {
+  x: number;              // gl_FragCoord.x of the center pixel
+  y: number;              // gl_FragCoord.y of the center pixel
+  width: number;          // Render resolution the sample was read at
+  height: number;
+  rgba: [number, number, number, number];  // 0-255
+  /** LOUPE_SIZE x LOUPE_SIZE RGBA pixels around the center, top row first */
+  loupe: Uint8ClampedArray;
+}
+
+export interface InspectorState {
+  enabled: boolean;
+  /** The target stays put until the next click */
+  pinned: boolean;
+  sample: PixelSample | null;
+}
+
+/**
+ * Point on the canvas, normalized 0-1 with the origin at the bottom left
+ */
+export interface InspectorPoint {
+  x: number;
+  y: number;
+}
+
+export interface PixelInspector {
+  getSnapshot(): InspectorState;
+  setEnabled(enabled: boolean): void;
+  toggle(): void;
+  /** Follow the pointer (ignored while pinned); null when it leaves */
+  hover(point: InspectorPoint | null): void;
+  /** Pin the target at a point, or release it if already pinned */
+  pin(point: InspectorPoint): void;
+  /** Read the target's pixels from the framebuffer the frame was drawn to */
+  sample(
+    gl: WebGL2RenderingContext,
+    framebuffer: WebGLFramebuffer | null,
+    width: number,
+    height: number
+  ): void;
+  subscribe(listener: () => void): () => void;
+}
+
+// Pixels on a side of the magnified area (odd, so there is a center pixel)
+export const LOUPE_SIZE = 11;
+
+// How often samples are published to subscribers
+const PUBLISH_INTERVAL_MS = 50;
+
+/**
+ * Read a square of pixels centered on (cx, cy), top row first
+ * Pixels outside the framebuffer are left transparent.
+ */
+function readLoupe(
+  gl: WebGL2RenderingContext,
+  cx: number,
+  cy: number,
+  width: number,
+  height: number
+): Uint8ClampedArray {
+  const half = (LOUPE_SIZE - 1) / 2;
+  const loupe = new Uint8ClampedArray(LOUPE_SIZE * LOUPE_SIZE * 4);
+
+  const x0 = Math.max(0, cx - half);
+  const y0 = Math.max(0, cy - half);
+  const x1 = Math.min(width, cx + half + 1);
+  const y1 = Math.min(height, cy + half + 1);
+  if (x1 <= x0 || y1 <= y0) return loupe;
+
+  const readWidth = x1 - x0;
+  const pixels = new Uint8Array(readWidth * (y1 - y0) * 4);
+  gl.readPixels(x0, y0, readWidth, y1 - y0, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+  // GL rows run bottom up; the loupe runs top down
+  for (let y = y0; y < y1; y++) {
+    const row = (y - y0) * readWidth * 4;
+    const loupeRow = half - (y - cy);
+    const loupeColumn = x0 - (cx - half);
+    loupe.set(
+      pixels.subarray(row, row + readWidth * 4),
+      (loupeRow * LOUPE_SIZE + loupeColumn) * 4
+    );
+  }
+  return loupe;
+}
+
+/**
+ * Create a disabled inspector
+ */
+export function createPixelInspector(): PixelInspector {
+  const store = createStore<InspectorState>(() => ({
+    enabled: false,
+    pinned: false,
+    sample: null,
+  }));
+  let hovered: InspectorPoint | null = null;
+  let pinned: InspectorPoint | null = null;
+  let lastPublish = 0;
+
+  const update = (patch: Partial<InspectorState>) => {
+    lastPublish = performance.now();
+    store.set({ ...store.get(), ...patch });
+  };
+
+  const setEnabled = (enabled: boolean) => {
+    pinned = null;
+    update({ enabled, pinned: false, sample: null });
+  };
+
+  return {
+    getSnapshot: store.get,
+    setEnabled,
+    toggle: () => setEnabled(!store.get().enabled),
+    hover(point) {
+      hovered = point;
+      if (!point && !pinned && store.get().sample) update({ sample: null });
+    },
+    pin(point) {
+      pinned = pinned ? null : point;
+      hovered = point;
+      update({ pinned: pinned !== null });
+    },
+    sample(gl, framebuffer, width, height) {
+      const target = pinned ?? hovered;
+      if (!store.get().enabled || !target) return;
+      if (performance.now() - lastPublish < PUBLISH_INTERVAL_MS) return;
+
+      const cx = Math.min(width - 1, Math.max(0, Math.floor(target.x * width)));
+      const cy = Math.min(
+        height - 1,
+        Math.max(0, Math.floor(target.y * height))
+      );
+
+      gl.bindFramebuffer(gl.READ_FRAMEBUFFER, framebuffer);
+      const loupe = readLoupe(gl, cx, cy, width, height);
+      gl.bindFramebuffer(gl.READ_FRAMEBUFFER, null);
+
+      const center = ((LOUPE_SIZE * LOUPE_SIZE - 1) / 2) * 4;
+      update({
+        sample: {
+          x: cx + 0.5,
+          y: cy + 0.5,
+          width,
+          height,
+          rgba: [
+            loupe[center],
+            loupe[center + 1],
+            loupe[center + 2],
+            loupe[center + 3],
+          ],
+          loupe,
+        },
+      });
+    },
+    subscribe: store.subscribe,
+  };
+}
+
+/**
+ * React hook returning an inspector's published state
+ */
+export function useInspectorState(inspector: PixelInspector): InspectorState {
+  return useStore(
+    { get: inspector.getSnapshot, subscribe: inspector.subscribe },
+    inspector.getSnapshot()
+  );
+}
@@ -0,0 +1,112 @@
+// Playback Transport - Shader timeline clock with play/pause, speed, seek and
+// frame stepping
+//
+// The canvas advances the transport once per rendered frame with tick(); UI
+// controls drive it with the other methods. Listeners hear about every
+// control change, but running time is only published a few times a second
+// so subscribed components don't re-render every frame.
+
+import { createStore, useStore } from '@/lib/store';
+
+export interface TransportState {
+  time: number;       // Seconds on the shader timeline
+  playing: boolean;
+  speed: number;      // Timeline seconds per wall-clock second
+}
+
+export interface PlaybackTransport {
+  /** Live state, including time advanced since the last publish */
+  getState(): TransportState;
+  /** Last published state; stable between notifications */
+  getSnapshot(): TransportState;
+  play(): void;
+  pause(): void;
+  toggle(): void;
+  setSpeed(speed: number): void;
+  /** Jump to a time, in seconds (clamped at 0) */
+  seek(time: number): void;
+  /** Pause and move one fixed frame forward or back */
+  step(direction: -1 | 1): void;
+  /**
+   * Advance by the wall-clock time since the previous tick
+   * @param now - performance.now() timestamp
+   * @returns Timeline time for this frame
+   */
+  tick(now: number): number;
+  /** Stop counting wall-clock time until the next tick, so it doesn't jump */
+  suspend(): void;
+  subscribe(listener: () => void): () => void;
+}
+
+// Fixed delta for single-frame steps
+export const FRAME_STEP_SECONDS = 1 / 60;
+
+// How often running time is published to subscribers
+const PUBLISH_INTERVAL_MS = 100;
+
+/**
+ * Create a transport, playing from time 0 at normal speed unless given
+ * another starting state
+ */
+export function createPlaybackTransport(
+  initial: Partial<TransportState> = {}
+): PlaybackTransport {
+  let state: TransportState = {
+    time: 0,
+    playing: true,
+    speed: 1,
+    ...initial,
+  };
+  const initialState = state;
+  const published = createStore(() => initialState);
+  let lastTick: number | null = null;
+  let lastPublish = 0;
+
+  const publish = () => {
+    lastPublish = performance.now();
+    published.set(state);
+  };
+
+  const update = (patch: Partial<TransportState>) => {
+    state = { ...state, ...patch };
+    publish();
+  };
+
+  return {
+    getState: () => state,
+    getSnapshot: published.get,
+    play: () => update({ playing: true }),
+    pause: () => update({ playing: false }),
+    toggle: () => update({ playing: !state.playing }),
+    setSpeed: (speed) => update({ speed }),
+    seek: (time) => update({ time: Math.max(0, time) }),
+    step: (direction) =>
+      update({
+        playing: false,
+        time: Math.max(0, state.time + direction * FRAME_STEP_SECONDS),
+      }),
+    tick(now) {
+      const elapsed = lastTick === null ? 0 : (now - lastTick) / 1000;
+      lastTick = now;
+      if (state.playing && elapsed > 0) {
+        state = { ...state, time: state.time + elapsed * state.speed };
+        if (now - lastPublish >= PUBLISH_INTERVAL_MS) publish();
+      }
+      return state.time;
+    },
+    suspend() {
+      lastTick = null;
+    },
+    subscribe: published.subscribe,
+  };
+}
+
+/**
+ * React hook returning a transport's published state
+ */
+export function useTransportState(transport: PlaybackTransport): TransportState {
+  return useStore(
+    { get: transport.getSnapshot, subscribe: transport.subscribe },
+    transport.getSnapshot()
+  );
+}
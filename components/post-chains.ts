@@ -0,0 +1,48 @@
+// Post Chains - Per-shader post-processing chains persisted to localStorage
+
+import { createStorageStore, useStore } from '@/lib/store';
+import type { PostChain } from './post-effects';
+
+const STORAGE_KEY = 'shader-gallery:post-chains';
+
+const EMPTY_CHAINS: Record<string, PostChain> = {};
+
+const chains = createStorageStore<Record<string, PostChain>>(STORAGE_KEY, {});
+
+/**
+ * Get the saved post-processing chain for a shader, if any
+ * Saved chains may predate the current effects; see normalizePostChain.
+ */
+export function getPostChain(id: string): PostChain | undefined {
+  return chains.get()[id];
+}
+
+/**
+ * Save a shader's post-processing chain
+ */
+export function savePostChain(id: string, chain: PostChain): void {
+  chains.set({ ...chains.get(), [id]: chain });
+}
+
+/**
+ * Discard a shader's chain, returning it to the default (no effects)
+ */
+export function resetPostChain(id: string): void {
+  const { [id]: _removed, ...rest } = chains.get();
+  chains.set(rest);
+}
+
+/**
+ * Subscribe to chain changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToPostChains(listener: () => void): () => void {
+  return chains.subscribe(listener);
+}
+
+/**
+ * React hook returning all saved chains keyed by shader ID
+ */
+export function usePostChains(): Record<string, PostChain> {
+  return useStore(chains, EMPTY_CHAINS);
+}
@@ -0,0 +1,86 @@
+// Post Effects - Screen-space effects applied over the rendered shader
+//
+// Effects are annotated .frag files like gallery shaders (see
+// shader-loader.ts). Each samples the previous stage's output through
+// `uniform sampler2D u_input` and draws a full frame.
+
+import { loadShaderSource } from './shader-loader';
+import {
+  getDefaultUniforms,
+  resolveUniformValue,
+  type ShaderDefinition,
+  type UniformValues,
+} from './shader-gallery';
+import bloomSource from './shaders/post/bloom.frag';
+import vignetteSource from './shaders/post/vignette.frag';
+import chromaticAberrationSource from './shaders/post/chromatic-aberration.frag';
+import filmGrainSource from './shaders/post/film-grain.frag';
+import crtScanlinesSource from './shaders/post/crt-scanlines.frag';
+import pixelateSource from './shaders/post/pixelate.frag';
+import colorGradeSource from './shaders/post/color-grade.frag';
+
+// One effect's place in a chain
+export interface PostEffectState {
+  id: string;             // Effect definition ID (e.g., "bloom")
+  enabled: boolean;
+  uniforms: UniformValues;
+}
+
+// Effects in the order they run; every known effect appears exactly once
+export type PostChain = PostEffectState[];
+
+// Built-in effects, in their default chain order
+export const POST_EFFECTS: ShaderDefinition[] = [
+  loadShaderSource(bloomSource, 'bloom.frag'),
+  loadShaderSource(chromaticAberrationSource, 'chromatic-aberration.frag'),
+  loadShaderSource(colorGradeSource, 'color-grade.frag'),
+  loadShaderSource(pixelateSource, 'pixelate.frag'),
+  loadShaderSource(crtScanlinesSource, 'crt-scanlines.frag'),
+  loadShaderSource(vignetteSource, 'vignette.frag'),
+  loadShaderSource(filmGrainSource, 'film-grain.frag'),
+];
+
+// Helper function to look up a built-in effect
+export function getPostEffectById(id: string): ShaderDefinition | undefined {
+  return POST_EFFECTS.find((effect) => effect.id === id);
+}
+
+// Helper function to get the default chain: every effect, all disabled
+export function createDefaultPostChain(): PostChain {
+  return POST_EFFECTS.map((effect) => ({
+    id: effect.id,
+    enabled: false,
+    uniforms: getDefaultUniforms(effect),
+  }));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Helper function to repair a saved chain: drops malformed entries and
+// unknown effects, checks saved uniform values against the effect (clamping
+// them into range, or falling back to the default), and appends effects added
+// since it was saved
+export function normalizePostChain(chain: unknown): PostChain {
+  const result: PostChain = [];
+  for (const state of Array.isArray(chain) ? chain : []) {
+    if (!isRecord(state) || typeof state.id !== 'string') continue;
+    const id = state.id;
+    const effect = getPostEffectById(id);
+    if (!effect || result.some((s) => s.id === id)) continue;
+    const uniforms = getDefaultUniforms(effect);
+    const saved = isRecord(state.uniforms) ? state.uniforms : {};
+    for (const uniform of effect.uniforms) {
+      const resolved = resolveUniformValue(uniform, saved[uniform.name]);
+      if (resolved) uniforms[uniform.name] = resolved.value;
+    }
+    result.push({ id, enabled: state.enabled === true, uniforms });
+  }
+  for (const state of createDefaultPostChain()) {
+    if (!result.some((s) => s.id === state.id)) {
+      result.push(state);
+    }
+  }
+  return result;
+}
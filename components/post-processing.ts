@@ -0,0 +1,153 @@
+// Post Processing - Runs a post-effect chain over a rendered shader pipeline
+//
+// With effects enabled the shader renders into an offscreen target; each
+// effect then reads the previous stage and writes the next, the last one
+// drawing to the requested output framebuffer.
+
+import {
+  createPingPongTarget,
+  deletePingPongTarget,
+  enableFloatRenderTargets,
+  swapPingPong,
+  type PingPongTarget,
+} from '@/lib/render-targets';
+import type { ProgramCache } from '@/lib/program-cache';
+import { getPostEffectById, type PostChain } from './post-effects';
+import {
+  buildShaderPipeline,
+  deleteShaderPipeline,
+  renderShaderPipeline,
+  type PipelineFrameInputs,
+  type ShaderPipeline,
+} from './shader-pipeline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PostProcessor {
+  /** Programs are shared with the shader pipelines */
+  cache: ProgramCache;
+  /** Compiled effects by ID; null marks an effect that failed to build */
+  effects: Map<string, ShaderPipeline | null>;
+  /** Stage buffers, allocated at the render size on first use */
+  target: PingPongTarget | null;
+  floatTargets: boolean;
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+/**
+ * Create an empty post processor; effects compile on first use
+ */
+export function createPostProcessor(
+  gl: WebGL2RenderingContext,
+  cache: ProgramCache
+): PostProcessor {
+  return {
+    cache,
+    effects: new Map(),
+    target: null,
+    floatTargets: enableFloatRenderTargets(gl),
+  };
+}
+
+/**
+ * Release a post processor's effect programs and delete its stage buffers
+ */
+export function deletePostProcessor(
+  gl: WebGL2RenderingContext,
+  post: PostProcessor
+): void {
+  for (const effect of post.effects.values()) {
+    if (effect) deleteShaderPipeline(gl, post.cache, effect);
+  }
+  post.effects.clear();
+  if (post.target) deletePingPongTarget(gl, post.target);
+  post.target = null;
+}
+
+/**
+ * Get a compiled effect, building it on first use
+ */
+function getEffectPipeline(
+  gl: WebGL2RenderingContext,
+  post: PostProcessor,
+  id: string
+): ShaderPipeline | null {
+  const cached = post.effects.get(id);
+  if (cached !== undefined) return cached;
+
+  const definition = getPostEffectById(id);
+  const result = definition ? buildShaderPipeline(gl, post.cache, definition) : null;
+  if (result && !result.pipeline) {
+    console.error(`Failed to build post effect ${id}: ${result.error}`);
+  }
+  const pipeline = result?.pipeline ?? null;
+  post.effects.set(id, pipeline);
+  return pipeline;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a shader pipeline followed by the enabled effects of a chain
+ * Without enabled effects the shader draws straight to `output`.
+ */
+export function renderWithPostChain(
+  gl: WebGL2RenderingContext,
+  post: PostProcessor,
+  pipeline: ShaderPipeline,
+  vao: WebGLVertexArrayObject,
+  inputs: PipelineFrameInputs,
+  chain: PostChain,
+  output: WebGLFramebuffer | null = null
+): void {
+  const stages = chain
+    .filter((state) => state.enabled)
+    .map((state) => ({ state, effect: getEffectPipeline(gl, post, state.id) }))
+    .filter(({ effect }) => effect !== null);
+
+  if (stages.length === 0) {
+    renderShaderPipeline(gl, pipeline, vao, inputs, output);
+    return;
+  }
+
+  // (Re)allocate stage buffers at the render size
+  const { width, height } = inputs;
+  if (
+    !post.target ||
+    post.target.read.width !== width ||
+    post.target.read.height !== height
+  ) {
+    if (post.target) deletePingPongTarget(gl, post.target);
+    post.target = createPingPongTarget(gl, width, height, {
+      float: post.floatTargets,
+    });
+  }
+  const target = post.target;
+  if (!target) {
+    renderShaderPipeline(gl, pipeline, vao, inputs, output);
+    return;
+  }
+
+  // Shader into the first stage buffer
+  renderShaderPipeline(gl, pipeline, vao, inputs, target.write.framebuffer);
+  swapPingPong(target);
+
+  stages.forEach(({ state, effect }, index) => {
+    const isLast = index === stages.length - 1;
+    renderShaderPipeline(
+      gl,
+      effect!,
+      vao,
+      { ...inputs, uniforms: state.uniforms, input: target.read.texture },
+      isLast ? output : target.write.framebuffer
+    );
+    if (!isLast) swapPingPong(target);
+  });
+}
@@ -0,0 +1,74 @@
+// Render Settings - Canvas resolution preferences persisted to localStorage
+
+import { readStorage, writeStorage } from '@/lib/local-storage';
+import { createStore, useStore } from '@/lib/store';
+
+const STORAGE_KEY = 'shader-gallery:render-settings';
+
+export interface RenderSettings {
+  maxPixelRatio: number;        // Cap on devicePixelRatio for the backing store
+  adaptiveResolution: boolean;  // Lower the render scale to hold targetFPS
+  targetFPS: number;
+}
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  maxPixelRatio: 2,
+  adaptiveResolution: false,
+  targetFPS: 60,
+};
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Check saved settings field by field; defaults fill in anything unsaved or
+ * invalid
+ */
+function normalizeRenderSettings(saved: unknown): RenderSettings {
+  const result = { ...DEFAULT_RENDER_SETTINGS };
+  if (typeof saved !== 'object' || saved === null) return result;
+
+  const { maxPixelRatio, adaptiveResolution, targetFPS } =
+    saved as Record<string, unknown>;
+  if (isPositiveNumber(maxPixelRatio)) result.maxPixelRatio = maxPixelRatio;
+  if (typeof adaptiveResolution === 'boolean') {
+    result.adaptiveResolution = adaptiveResolution;
+  }
+  if (isPositiveNumber(targetFPS)) result.targetFPS = targetFPS;
+  return result;
+}
+
+const settings = createStore<RenderSettings>(
+  () => normalizeRenderSettings(readStorage<unknown>(STORAGE_KEY, {})),
+  (value) => writeStorage(STORAGE_KEY, value)
+);
+
+/**
+ * Get the current render settings
+ */
+export function getRenderSettings(): RenderSettings {
+  return settings.get();
+}
+
+/**
+ * Change some render settings, keeping the rest
+ */
+export function updateRenderSettings(patch: Partial<RenderSettings>): void {
+  settings.set({ ...settings.get(), ...patch });
+}
+
+/**
+ * Subscribe to settings changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToRenderSettings(listener: () => void): () => void {
+  return settings.subscribe(listener);
+}
+
+/**
+ * React hook returning the current render settings
+ */
+export function useRenderSettings(): RenderSettings {
+  return useStore(settings, DEFAULT_RENDER_SETTINGS);
+}
@@ -1,15 +1,63 @@
 "use client";
 
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useState } from "react";
 import {
   createWebGLContext,
-  compileShader,
-  createProgram,
   createFullscreenQuad,
-  setUniform,
-  VERTEX_SHADER_SOURCE,
+  getRendererInfo,
 } from "@/lib/webgl-utils";
-import { getShaderById } from "./shader-gallery";
+import { createGpuTimer, type GpuTimer } from "@/lib/gpu-timer";
+import type { ShaderDiagnostic } from "@/lib/shader-diagnostics";
+import type { SourceTexture } from "@/lib/textures";
+import { getShadertoyDate } from "@/lib/shadertoy";
+import {
+  createRenderTarget,
+  deleteRenderTarget,
+  type RenderTarget,
+} from "@/lib/render-targets";
+import {
+  createProgramCache,
+  deleteProgramCache,
+  type ProgramCache,
+  type ProgramStatus,
+} from "@/lib/program-cache";
+import { getShaderById, listShaders } from "./shader-registry";
+import { getShaderEdit } from "./shader-edits";
+import type {
+  ShaderDefinition,
+  TextureSource,
+  UniformValues,
+} from "./shader-gallery";
+import type { PostChain } from "./post-effects";
+import {
+  createPlaybackTransport,
+  type PlaybackTransport,
+} from "./playback-transport";
+import {
+  buildShaderPipeline,
+  deleteChannelTextures,
+  deleteShaderPipeline,
+  precompileShaderPipeline,
+  syncChannelTextures,
+  type ShaderPipeline,
+} from "./shader-pipeline";
+import {
+  clearShaderCompileStatuses,
+  setShaderCompileStatus,
+} from "./shader-compile-status";
+import {
+  createPostProcessor,
+  deletePostProcessor,
+  renderWithPostChain,
+  type PostProcessor,
+} from "./post-processing";
+import type { PixelInspector } from "./pixel-inspector";
+import type { UniformBindings } from "./uniform-expressions";
+import {
+  createFrameTimeHistory,
+  drawPerformanceHud,
+  recordFrameTime,
+} from "./performance-hud";
 
 /**
  * Props for the ShaderCanvas component
@@ -18,10 +66,40 @@ export interface ShaderCanvasProps {
   /** ID of the shader to render from the gallery */
   shaderId: string;
   /** Custom uniform values to pass to the shader */
-  uniforms: Record<string, number>;
-  /** Callback when shader compilation fails */
-  onError?: (error: string) => void;
-  /** Show FPS debug overlay */
+  uniforms: UniformValues;
+  /** Uniform values at a shader time, read each frame instead of uniforms when animated */
+  uniformsAt?: (time: number) => UniformValues;
+  /** Override the definition's fragment source (live editing) */
+  fragmentSource?: string;
+  /** Override texture channel sources, by sampler name */
+  channelSources?: Record<string, TextureSource>;
+  /** Post-processing effects applied over the shader */
+  postChain?: PostChain;
+  /** Clock driving u_time; defaults to a private transport that just plays */
+  transport?: PlaybackTransport;
+  /** Render at exactly this time in seconds (controlled mode; ignores transport) */
+  time?: number;
+  /** Cap on devicePixelRatio when sizing the drawing buffer */
+  maxPixelRatio?: number;
+  /** Lower the render scale when frames take too long, then upscale */
+  adaptiveResolution?: boolean;
+  /** Frame rate adaptive resolution aims for */
+  targetFPS?: number;
+  /** Callback when WebGL2 is unavailable; replaces the onError report */
+  onUnsupported?: () => void;
+  /** Callback when the browser drops the WebGL context */
+  onContextLost?: () => void;
+  /** Callback once a lost context is restored and the shader rebuilt */
+  onContextRestored?: () => void;
+  /** Callback when shader compilation fails, with parsed compiler diagnostics */
+  onError?: (error: string, diagnostics?: ShaderDiagnostic[]) => void;
+  /** Callback when a shader compiles and links, with any warnings */
+  onCompile?: (diagnostics: ShaderDiagnostic[]) => void;
+  /** Pixel inspector to sample the output under the pointer for */
+  inspector?: PixelInspector;
+  /** Expressions evaluated each frame for bound uniforms */
+  bindings?: UniformBindings;
+  /** Show the performance HUD (frame times, GPU time, resolution, uniforms) */
   showDebug?: boolean;
 }
 
@@ -36,6 +114,31 @@ interface FPSMonitor {
 
 const FPS_SAMPLE_SIZE = 30;
 
+/**
+ * Adaptive resolution state: the fraction of the canvas size rendered
+ */
+interface ResolutionScaler {
+  scale: number;
+  lastAdjustTime: number;
+}
+
+const MIN_RENDER_SCALE = 0.25;
+const RENDER_SCALE_STEP = 0.05;
+const SCALE_ADJUST_INTERVAL_MS = 500;
+
+/**
+ * Pointer press state for Shadertoy's iMouse, in canvas pixels
+ */
+interface ClickState {
+  down: boolean;
+  x: number;
+  y: number;
+  clickX: number;
+  clickY: number;
+  /** True only for the first frame rendered after a press */
+  clicked: boolean;
+}
+
 /**
  * Linear interpolation between two values
  */
@@ -80,118 +183,271 @@ function updateFPSMonitor(monitor: FPSMonitor): number {
   return monitor.currentFPS;
 }
 
+/**
+ * Create a resolution scaler rendering at full size
+ */
+function createResolutionScaler(): ResolutionScaler {
+  return { scale: 1, lastAdjustTime: performance.now() };
+}
+
+/**
+ * Move the render scale toward the target frame rate
+ * Waits for a full window of FPS samples at the current scale, and clears
+ * the monitor after each change so the next decision measures the new scale.
+ */
+function updateResolutionScaler(
+  scaler: ResolutionScaler,
+  monitor: FPSMonitor,
+  targetFPS: number
+): void {
+  const now = performance.now();
+  if (
+    now - scaler.lastAdjustTime < SCALE_ADJUST_INTERVAL_MS ||
+    monitor.samples.length < FPS_SAMPLE_SIZE
+  ) {
+    return;
+  }
+  scaler.lastAdjustTime = now;
+
+  const fps = monitor.currentFPS;
+  let scale = scaler.scale;
+  if (fps < targetFPS * 0.9) {
+    // Frame cost follows pixel count, i.e. the square of the scale
+    scale *= Math.max(0.7, Math.sqrt(fps / targetFPS));
+  } else if (fps > targetFPS * 0.97) {
+    scale *= 1.1;
+  }
+
+  // Quantize so pass buffers aren't reallocated for tiny changes
+  scale = Math.round(scale / RENDER_SCALE_STEP) * RENDER_SCALE_STEP;
+  scale = Math.min(1, Math.max(MIN_RENDER_SCALE, scale));
+  if (scale !== scaler.scale) {
+    scaler.scale = scale;
+    monitor.samples = [];
+  }
+}
+
 /**
  * ShaderCanvas Component
  *
  * Renders WebGL2 fragment shaders from the shader gallery.
  * Handles shader compilation, uniform updates, mouse tracking,
- * and ResizeObserver-based canvas sizing.
+ * and ResizeObserver-based canvas sizing at the device pixel ratio, with
+ * optional adaptive resolution. A lost WebGL context is rebuilt
+ * on restore, keeping the shader, uniforms and timeline position. Time comes
+ * from a playback transport (or the `time` prop), and rendering pauses while
+ * the canvas is offscreen or the tab is hidden.
  */
 export function ShaderCanvas({
   shaderId,
   uniforms,
+  uniformsAt,
+  fragmentSource,
+  channelSources,
+  postChain,
+  transport,
+  time,
   onError,
+  onCompile,
+  maxPixelRatio = 2,
+  adaptiveResolution = false,
+  targetFPS = 60,
+  onUnsupported,
+  onContextLost,
+  onContextRestored,
+  inspector,
+  bindings,
   showDebug = false,
 }: ShaderCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGL2RenderingContext | null>(null);
-  const programRef = useRef<WebGLProgram | null>(null);
+  const programCacheRef = useRef<ProgramCache | null>(null);
+  const pipelineRef = useRef<ShaderPipeline | null>(null);
+  const channelTexturesRef = useRef(new Map<string, SourceTexture>());
+  const postProcessorRef = useRef<PostProcessor | null>(null);
   const vaoRef = useRef<WebGLVertexArrayObject | null>(null);
   const animationFrameRef = useRef<number>(0);
-  const startTimeRef = useRef<number>(performance.now());
+  // Timeline time of the previous frame, for iTimeDelta
+  const lastTimeRef = useRef<number>(0);
+  // Pipeline whose buffer passes ran last; a rebuilt one runs them again
+  const passesPipelineRef = useRef<ShaderPipeline | null>(null);
   const fpsMonitorRef = useRef<FPSMonitor>(createFPSMonitor());
+  const frameTimesRef = useRef(createFrameTimeHistory());
+  // GPU timing for the HUD; null when timer queries are unsupported
+  const gpuTimerRef = useRef<GpuTimer | null>(null);
+  const gpuTimeRef = useRef<number | null>(null);
+  const rendererInfoRef = useRef({ renderer: "", vendor: "" });
+  const scalerRef = useRef<ResolutionScaler>(createResolutionScaler());
+  // Low-resolution render upscaled to the canvas while the scale is below 1
+  const scaledTargetRef = useRef<RenderTarget | null>(null);
   const hasErrorRef = useRef<boolean>(false);
+  // Shader and source of the last compile attempt
+  const compiledRef = useRef<{
+    shaderId: string;
+    fragmentSource: string | undefined;
+  } | null>(null);
 
   // Mouse tracking refs
   const targetMouseRef = useRef<{ x: number; y: number }>({ x: 0.5, y: 0.5 });
   const currentMouseRef = useRef<{ x: number; y: number }>({ x: 0.5, y: 0.5 });
+  const clickRef = useRef<ClickState>({
+    down: false,
+    x: 0,
+    y: 0,
+    clickX: 0,
+    clickY: 0,
+    clicked: false,
+  });
 
   // Store current props in refs to avoid stale closures
   const uniformsRef = useRef(uniforms);
+  const uniformsAtRef = useRef(uniformsAt);
   const showDebugRef = useRef(showDebug);
+  const shaderIdRef = useRef(shaderId);
+  const fragmentSourceRef = useRef(fragmentSource);
+  const channelSourcesRef = useRef(channelSources);
+  const postChainRef = useRef(postChain);
+  const [ownTransport] = useState(() => createPlaybackTransport());
+  const transportRef = useRef(transport ?? ownTransport);
+  const timeRef = useRef(time);
+  const maxPixelRatioRef = useRef(maxPixelRatio);
+  const adaptiveResolutionRef = useRef(adaptiveResolution);
+  const targetFPSRef = useRef(targetFPS);
+  const onErrorRef = useRef(onError);
+  const onCompileRef = useRef(onCompile);
+  const onUnsupportedRef = useRef(onUnsupported);
+  const onContextLostRef = useRef(onContextLost);
+  const onContextRestoredRef = useRef(onContextRestored);
+  const inspectorRef = useRef(inspector);
+  const bindingsRef = useRef(bindings);
 
   // Update refs when props change
   useEffect(() => {
     uniformsRef.current = uniforms;
-  }, [uniforms]);
+    uniformsAtRef.current = uniformsAt;
+  }, [uniforms, uniformsAt]);
 
   useEffect(() => {
     showDebugRef.current = showDebug;
   }, [showDebug]);
 
+  useEffect(() => {
+    shaderIdRef.current = shaderId;
+    fragmentSourceRef.current = fragmentSource;
+  }, [shaderId, fragmentSource]);
+
+  useEffect(() => {
+    channelSourcesRef.current = channelSources;
+  }, [channelSources]);
+
+  useEffect(() => {
+    postChainRef.current = postChain;
+  }, [postChain]);
+
+  useEffect(() => {
+    transportRef.current = transport ?? ownTransport;
+    timeRef.current = time;
+  }, [transport, ownTransport, time]);
+
+  useEffect(() => {
+    onErrorRef.current = onError;
+    onCompileRef.current = onCompile;
+  }, [onError, onCompile]);
+
+  useEffect(() => {
+    adaptiveResolutionRef.current = adaptiveResolution;
+    targetFPSRef.current = targetFPS;
+    if (!adaptiveResolution) {
+      scalerRef.current = createResolutionScaler();
+    }
+  }, [adaptiveResolution, targetFPS]);
+
+  useEffect(() => {
+    onUnsupportedRef.current = onUnsupported;
+  }, [onUnsupported]);
+
+  useEffect(() => {
+    onContextLostRef.current = onContextLost;
+    onContextRestoredRef.current = onContextRestored;
+  }, [onContextLost, onContextRestored]);
+
+  useEffect(() => {
+    inspectorRef.current = inspector;
+  }, [inspector]);
+
+  useEffect(() => {
+    bindingsRef.current = bindings;
+  }, [bindings]);
+
   /**
-   * Initialize or reinitialize the shader program
+   * Initialize or reinitialize the shader pipeline
+   * The new pipeline replaces the current one only once all of its programs
+   * compile and link. On failure the last working pipeline keeps rendering
+   * if it is for the same shader (a broken live edit); after switching
+   * shaders it is dropped and the canvas shows the error background.
    */
   const initShader = useCallback(() => {
     const canvas = canvasRef.current;
     const gl = glRef.current;
+    const cache = programCacheRef.current;
 
-    if (!canvas || !gl) return false;
+    if (!canvas || !gl || !cache) return false;
 
-    // Clean up existing program
-    if (programRef.current) {
-      gl.deleteProgram(programRef.current);
-      programRef.current = null;
-    }
+    const fail = (error: string, diagnostics?: ShaderDiagnostic[]) => {
+      console.error(error);
+      setShaderCompileStatus(shaderId, "failed");
+      onErrorRef.current?.(error, diagnostics);
+      const previous = pipelineRef.current;
+      if (previous && previous.shader.id !== shaderId) {
+        deleteShaderPipeline(gl, cache, previous);
+        pipelineRef.current = null;
+      }
+      // Only fall back to the error background if nothing is left to render
+      hasErrorRef.current = pipelineRef.current === null;
+      return false;
+    };
 
     // Get shader definition
+    const shaderId = shaderIdRef.current;
+    compiledRef.current = {
+      shaderId,
+      fragmentSource: fragmentSourceRef.current,
+    };
+
     const shaderDef = getShaderById(shaderId);
     if (!shaderDef) {
-      const error = `Shader not found: ${shaderId}`;
-      console.error(error);
-      onError?.(error);
-      hasErrorRef.current = true;
-      return false;
+      return fail(`Shader not found: ${shaderId}`);
     }
 
-    // Compile vertex shader
-    const vertexShader = compileShader(
+    const result = buildShaderPipeline(
       gl,
-      gl.VERTEX_SHADER,
-      VERTEX_SHADER_SOURCE
+      cache,
+      shaderDef,
+      fragmentSourceRef.current
     );
-    if (!vertexShader) {
-      const error = "Failed to compile vertex shader";
-      console.error(error);
-      onError?.(error);
-      hasErrorRef.current = true;
-      return false;
-    }
-
-    // Compile fragment shader
-    const fragmentShader = compileShader(
-      gl,
-      gl.FRAGMENT_SHADER,
-      shaderDef.fragmentSource
-    );
-    if (!fragmentShader) {
-      gl.deleteShader(vertexShader);
-      const error = `Failed to compile fragment shader: ${shaderDef.name}`;
-      console.error(error);
-      onError?.(error);
-      hasErrorRef.current = true;
-      return false;
+    if (!result.pipeline) {
+      return fail(result.error, result.diagnostics);
     }
 
-    // Link program
-    const program = createProgram(gl, vertexShader, fragmentShader);
-
-    // Clean up shaders (they're attached to the program now)
-    gl.deleteShader(vertexShader);
-    gl.deleteShader(fragmentShader);
-
-    if (!program) {
-      const error = `Failed to link shader program: ${shaderDef.name}`;
-      console.error(error);
-      onError?.(error);
-      hasErrorRef.current = true;
-      return false;
+    // Swap in the new pipeline, keeping pass buffers only for live edits of
+    // the same shader so feedback effects don't restart on every keystroke
+    const previous = pipelineRef.current;
+    if (previous) {
+      if (previous.shader === shaderDef) {
+        result.pipeline.passes.forEach((pass, index) => {
+          pass.target = previous.passes[index].target;
+          previous.passes[index].target = null;
+        });
+        result.pipeline.frame = previous.frame;
+      }
+      deleteShaderPipeline(gl, cache, previous);
     }
-
-    programRef.current = program;
+    pipelineRef.current = result.pipeline;
     hasErrorRef.current = false;
+    setShaderCompileStatus(shaderId, "ready");
+    onCompileRef.current?.(result.diagnostics);
     return true;
-  }, [shaderId, onError]);
+  }, []);
 
   /**
    * Handle canvas resize to fill container
@@ -205,69 +461,131 @@ export function ShaderCanvas({
 
     const { width, height } = parent.getBoundingClientRect();
 
-    // Set canvas dimensions to match container
-    canvas.width = width;
-    canvas.height = height;
+    // Size the drawing buffer in whole device pixels; the cap keeps very
+    // dense screens from multiplying the per-pixel cost
+    const pixelRatio = Math.min(
+      window.devicePixelRatio || 1,
+      maxPixelRatioRef.current
+    );
+    canvas.width = Math.max(1, Math.round(width * pixelRatio));
+    canvas.height = Math.max(1, Math.round(height * pixelRatio));
 
     // Update viewport if GL context exists
     const gl = glRef.current;
     if (gl) {
-      gl.viewport(0, 0, width, height);
+      gl.viewport(0, 0, canvas.width, canvas.height);
     }
   }, []);
 
+  useEffect(() => {
+    maxPixelRatioRef.current = maxPixelRatio;
+    handleResize();
+  }, [maxPixelRatio, handleResize]);
+
   /**
-   * Handle mouse movement
+   * Track a pointer position; while pressed it also drives iMouse.xy
    */
-  const handleMouseMove = useCallback((e: MouseEvent) => {
+  const updatePointer = useCallback((clientX: number, clientY: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     const rect = canvas.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / rect.width;
+    const x = (clientX - rect.left) / rect.width;
     // Flip Y for GL coordinates (0 at bottom, 1 at top)
-    const y = 1 - (e.clientY - rect.top) / rect.height;
+    const y = 1 - (clientY - rect.top) / rect.height;
 
     targetMouseRef.current = { x, y };
+
+    const inspector = inspectorRef.current;
+    if (inspector?.getSnapshot().enabled) {
+      inspector.hover({ x, y });
+    }
+
+    const click = clickRef.current;
+    if (click.down) {
+      click.x = x * canvas.width;
+      click.y = y * canvas.height;
+    }
   }, []);
 
   /**
-   * Handle touch events
+   * Start a press at a pointer position
    */
-  const handleTouchMove = useCallback((e: TouchEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas || e.touches.length === 0) return;
-
-    const touch = e.touches[0];
-    const rect = canvas.getBoundingClientRect();
-    const x = (touch.clientX - rect.left) / rect.width;
-    // Flip Y for GL coordinates
-    const y = 1 - (touch.clientY - rect.top) / rect.height;
+  const pressPointer = useCallback(
+    (clientX: number, clientY: number) => {
+      const click = clickRef.current;
+      click.down = true;
+      updatePointer(clientX, clientY);
+      click.clickX = click.x;
+      click.clickY = click.y;
+      click.clicked = true;
+    },
+    [updatePointer]
+  );
 
-    targetMouseRef.current = { x, y };
-  }, []);
+  /**
+   * Handle mouse movement
+   */
+  const handleMouseMove = useCallback(
+    (e: MouseEvent) => updatePointer(e.clientX, e.clientY),
+    [updatePointer]
+  );
 
   /**
-   * Draw FPS debug overlay
+   * Handle mouse press; while inspecting, clicks pin the inspector instead
    */
-  const drawDebugOverlay = useCallback(
-    (ctx: CanvasRenderingContext2D, fps: number) => {
-      ctx.save();
+  const handleMouseDown = useCallback(
+    (e: MouseEvent) => {
+      const inspector = inspectorRef.current;
+      if (inspector?.getSnapshot().enabled) {
+        updatePointer(e.clientX, e.clientY);
+        inspector.pin(targetMouseRef.current);
+        return;
+      }
+      pressPointer(e.clientX, e.clientY);
+    },
+    [updatePointer, pressPointer]
+  );
 
-      // Draw background
-      ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
-      ctx.fillRect(10, 10, 100, 30);
+  /**
+   * Stop inspecting once the pointer leaves the canvas
+   */
+  const handleMouseLeave = useCallback(() => {
+    inspectorRef.current?.hover(null);
+  }, []);
 
-      // Draw text
-      ctx.fillStyle = fps < 30 ? "#ef4444" : "#14b8a6";
-      ctx.font = "14px monospace";
-      ctx.fillText(`FPS: ${fps.toFixed(1)}`, 20, 30);
+  /**
+   * Handle touch events
+   */
+  const handleTouchMove = useCallback(
+    (e: TouchEvent) => {
+      if (e.touches.length === 0) return;
+      updatePointer(e.touches[0].clientX, e.touches[0].clientY);
+    },
+    [updatePointer]
+  );
 
-      ctx.restore();
+  const handleTouchStart = useCallback(
+    (e: TouchEvent) => {
+      if (e.touches.length === 0) return;
+      const { clientX, clientY } = e.touches[0];
+      // While inspecting, touches only move the inspected point
+      if (inspectorRef.current?.getSnapshot().enabled) {
+        updatePointer(clientX, clientY);
+      } else {
+        pressPointer(clientX, clientY);
+      }
     },
-    []
+    [updatePointer, pressPointer]
   );
 
+  /**
+   * Release a press (listened for on the window so drags can leave the canvas)
+   */
+  const handlePointerUp = useCallback(() => {
+    clickRef.current.down = false;
+  }, []);
+
   // Initialize WebGL context and start render loop
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -276,9 +594,13 @@ export function ShaderCanvas({
     // Get WebGL2 context
     const gl = createWebGLContext(canvas);
     if (!gl) {
+      if (onUnsupportedRef.current) {
+        onUnsupportedRef.current();
+        return;
+      }
       const error = "WebGL2 is not supported in this browser";
       console.error(error);
-      onError?.(error);
+      onErrorRef.current?.(error);
       hasErrorRef.current = true;
       return;
     }
@@ -288,47 +610,147 @@ export function ShaderCanvas({
     // Initial resize
     handleResize();
 
-    // Create fullscreen quad VAO
-    const vao = createFullscreenQuad(gl);
-    if (!vao) {
-      const error = "Failed to create fullscreen quad";
-      console.error(error);
-      onError?.(error);
-      hasErrorRef.current = true;
-      return;
-    }
+    // Background precompile progress for the rest of the gallery
+    let precompiled = new Map<
+      string,
+      {
+        shader: ShaderDefinition;
+        source: string | undefined;
+        status: ProgramStatus;
+      }
+    >();
 
-    vaoRef.current = vao;
+    /**
+     * Create the GL resources and build the current shader
+     * Runs on mount and again whenever a lost context is restored.
+     */
+    const createResources = (): boolean => {
+      // Create fullscreen quad VAO
+      const vao = createFullscreenQuad(gl);
+      if (!vao) {
+        const error = "Failed to create fullscreen quad";
+        console.error(error);
+        onErrorRef.current?.(error);
+        hasErrorRef.current = true;
+        return false;
+      }
 
-    // Initialize shader
-    if (!initShader()) {
-      return;
-    }
+      vaoRef.current = vao;
+      const cache = createProgramCache(gl);
+      programCacheRef.current = cache;
+      postProcessorRef.current = createPostProcessor(gl, cache);
+      gpuTimerRef.current = createGpuTimer(gl);
+      gpuTimeRef.current = null;
+      rendererInfoRef.current = getRendererInfo(gl);
+      precompiled = new Map();
+
+      // Initialize shader; on failure the loop draws the error background
+      // until a later recompile succeeds
+      compiledRef.current = null;
+      initShader();
+      return true;
+    };
+
+    /**
+     * Delete the GL resources
+     * Also used once the context is lost, where deletes are no-ops but
+     * video channels still need pausing.
+     */
+    const deleteResources = () => {
+      const cache = programCacheRef.current;
+      if (vaoRef.current) {
+        gl.deleteVertexArray(vaoRef.current);
+        vaoRef.current = null;
+      }
+      if (pipelineRef.current && cache) {
+        deleteShaderPipeline(gl, cache, pipelineRef.current);
+      }
+      pipelineRef.current = null;
+      deleteChannelTextures(gl, channelTexturesRef.current);
+      if (postProcessorRef.current) {
+        deletePostProcessor(gl, postProcessorRef.current);
+        postProcessorRef.current = null;
+      }
+      if (cache) {
+        deleteProgramCache(cache);
+        programCacheRef.current = null;
+      }
+      if (scaledTargetRef.current) {
+        deleteRenderTarget(gl, scaledTargetRef.current);
+        scaledTargetRef.current = null;
+      }
+      gpuTimerRef.current?.dispose();
+      gpuTimerRef.current = null;
+      clearShaderCompileStatuses();
+    };
 
-    // Reset timing
-    startTimeRef.current = performance.now();
-    fpsMonitorRef.current = createFPSMonitor();
+    if (!createResources()) return;
 
-    // Get 2D context for debug overlay
-    // We need a separate canvas for the debug overlay since we're using WebGL
+    // The HUD draws on a separate 2D canvas over the WebGL one, created
+    // while showDebug is on
     let debugCanvas: HTMLCanvasElement | null = null;
     let debugCtx: CanvasRenderingContext2D | null = null;
 
-    if (showDebugRef.current) {
-      debugCanvas = document.createElement("canvas");
-      debugCanvas.style.position = "absolute";
-      debugCanvas.style.top = "0";
-      debugCanvas.style.left = "0";
-      debugCanvas.style.pointerEvents = "none";
-      canvas.parentElement?.appendChild(debugCanvas);
-      debugCtx = debugCanvas.getContext("2d");
-    }
+    /**
+     * Add or remove the HUD canvas to match showDebug
+     */
+    const syncDebugCanvas = () => {
+      if (showDebugRef.current && !debugCanvas) {
+        debugCanvas = document.createElement("canvas");
+        debugCanvas.style.position = "absolute";
+        debugCanvas.style.top = "0";
+        debugCanvas.style.left = "0";
+        debugCanvas.style.width = "100%";
+        debugCanvas.style.height = "100%";
+        debugCanvas.style.pointerEvents = "none";
+        debugCanvas.width = canvas.width;
+        debugCanvas.height = canvas.height;
+        canvas.parentElement?.appendChild(debugCanvas);
+        debugCtx = debugCanvas.getContext("2d");
+      } else if (!showDebugRef.current && debugCanvas) {
+        debugCanvas.remove();
+        debugCanvas = null;
+        debugCtx = null;
+      }
+    };
+
+    /**
+     * Compile the gallery's other shaders ahead of selection
+     * With parallel compile every pending shader is polled each frame;
+     * without it each new compile blocks, so at most one starts per frame.
+     */
+    const precompileGallery = () => {
+      const cache = programCacheRef.current;
+      if (!cache) return;
+
+      let started = false;
+      for (const shader of listShaders()) {
+        // The selected shader's status comes from initShader
+        if (shader.id === shaderIdRef.current) continue;
+
+        const source = getShaderEdit(shader.id);
+        const known = precompiled.get(shader.id);
+        const isCurrent = known?.shader === shader && known.source === source;
+        if (isCurrent && known.status !== "compiling") continue;
+
+        if (!isCurrent && !cache.parallel) {
+          if (started) return;
+          started = true;
+        }
+
+        const status = precompileShaderPipeline(cache, shader, source);
+        precompiled.set(shader.id, { shader, source, status });
+        setShaderCompileStatus(shader.id, status);
+      }
+    };
 
     /**
      * Main render loop
      */
     const render = () => {
-      if (!gl || !programRef.current || !vaoRef.current || hasErrorRef.current) {
+      const pipeline = pipelineRef.current;
+      const post = postProcessorRef.current;
+      if (!gl || !pipeline || !post || !vaoRef.current || hasErrorRef.current) {
         // Draw fallback dark background if there's an error
         if (hasErrorRef.current) {
           gl?.clearColor(0.02, 0.02, 0.05, 1.0);
@@ -338,8 +760,11 @@ export function ShaderCanvas({
         return;
       }
 
-      // Update FPS monitor
-      const currentFPS = updateFPSMonitor(fpsMonitorRef.current);
+      // Update FPS monitor and frame-time history
+      updateFPSMonitor(fpsMonitorRef.current);
+      recordFrameTime(frameTimesRef.current, performance.now());
+      syncDebugCanvas();
+      const gpuTimer = debugCanvas ? gpuTimerRef.current : null;
 
       // Smooth mouse interpolation
       currentMouseRef.current.x = lerp(
@@ -353,69 +778,241 @@ export function ShaderCanvas({
         0.1
       );
 
-      // Calculate time in seconds
-      const time = (performance.now() - startTimeRef.current) / 1000;
+      // Controlled time wins; otherwise the transport advances with the clock
+      const time =
+        timeRef.current ?? transportRef.current.tick(performance.now());
+      const timeDelta = time - lastTimeRef.current;
+      lastTimeRef.current = time;
+
+      // While time stands still, buffer passes keep their last frame (so
+      // feedback doesn't carry on under a paused image); a step runs them once
+      const clockStopped =
+        timeRef.current !== undefined ||
+        !transportRef.current.getState().playing;
+      const holdPasses =
+        clockStopped &&
+        timeDelta === 0 &&
+        passesPipelineRef.current === pipeline;
+      passesPipelineRef.current = pipeline;
+
+      // Adaptive mode renders a fraction of the canvas size, then upscales
+      const scaler = scalerRef.current;
+      if (adaptiveResolutionRef.current) {
+        updateResolutionScaler(
+          scaler,
+          fpsMonitorRef.current,
+          targetFPSRef.current
+        );
+      }
+      const renderScale = scaler.scale;
+      const width = Math.max(1, Math.round(canvas.width * renderScale));
+      const height = Math.max(1, Math.round(canvas.height * renderScale));
+
+      let scaledTarget = scaledTargetRef.current;
+      if (
+        scaledTarget &&
+        (renderScale === 1 ||
+          scaledTarget.width !== width ||
+          scaledTarget.height !== height)
+      ) {
+        deleteRenderTarget(gl, scaledTarget);
+        scaledTarget = null;
+      }
+      if (!scaledTarget && renderScale < 1) {
+        scaledTarget = createRenderTarget(gl, width, height, { float: false });
+      }
+      scaledTargetRef.current = scaledTarget;
+
+      // Shadertoy iMouse: z is negated once released, w after the press frame
+      // (tracked in canvas pixels, so scaled down with the render)
+      const click = clickRef.current;
+      const clickMouse: [number, number, number, number] = [
+        click.x * renderScale,
+        click.y * renderScale,
+        (click.down ? click.clickX : -click.clickX) * renderScale,
+        (click.clicked ? click.clickY : -click.clickY) * renderScale,
+      ];
+      click.clicked = false;
+
+      // Keyframed values first, then expressions, which may read them
+      const animatedUniforms =
+        uniformsAtRef.current?.(time) ?? uniformsRef.current;
+      const frameUniforms =
+        bindingsRef.current?.evaluate(pipeline.shader, animatedUniforms, {
+          time,
+          timeDelta,
+          frame: pipeline.frame,
+          mouse: [currentMouseRef.current.x, currentMouseRef.current.y],
+          resolution: [width, height],
+        }) ?? animatedUniforms;
 
       // Clear canvas
       gl.clearColor(0.02, 0.02, 0.05, 1.0);
       gl.clear(gl.COLOR_BUFFER_BIT);
 
-      // Use program
-      gl.useProgram(programRef.current);
+      gpuTimer?.begin();
 
-      // Bind VAO
-      gl.bindVertexArray(vaoRef.current);
+      // Load textures for the shader's channels, upload video frames
+      syncChannelTextures(
+        gl,
+        channelTexturesRef.current,
+        pipeline.shader.channels ?? [],
+        channelSourcesRef.current
+      );
 
-      // Set standard uniforms
-      setUniform(gl, programRef.current, "u_time", "float", time);
-      setUniform(gl, programRef.current, "u_resolution", "vec2", [
-        canvas.width,
-        canvas.height,
-      ]);
-      setUniform(gl, programRef.current, "u_mouse", "vec2", [
-        currentMouseRef.current.x,
-        currentMouseRef.current.y,
-      ]);
-
-      // Set custom uniforms from props
-      const currentUniforms = uniformsRef.current;
-      for (const [name, value] of Object.entries(currentUniforms)) {
-        // Determine uniform type based on name convention
-        // Integers typically have names like u_octaves, u_segments
-        const isInt = name.includes("octave") || name.includes("segment");
-        setUniform(
-          gl,
-          programRef.current!,
-          name,
-          isInt ? "int" : "float",
-          value
+      // Render buffer passes, the image and any post effects to the canvas
+      renderWithPostChain(
+        gl,
+        post,
+        pipeline,
+        vaoRef.current,
+        {
+          time,
+          timeDelta,
+          width,
+          height,
+          mouse: [currentMouseRef.current.x, currentMouseRef.current.y],
+          clickMouse,
+          date: getShadertoyDate(),
+          uniforms: frameUniforms,
+          channels: channelTexturesRef.current,
+          holdPasses,
+        },
+        postChainRef.current ?? [],
+        scaledTarget?.framebuffer ?? null
+      );
+
+      // Upscale a reduced-resolution render to the canvas
+      if (scaledTarget) {
+        gl.bindFramebuffer(gl.READ_FRAMEBUFFER, scaledTarget.framebuffer);
+        gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null);
+        gl.blitFramebuffer(
+          0,
+          0,
+          width,
+          height,
+          0,
+          0,
+          canvas.width,
+          canvas.height,
+          gl.COLOR_BUFFER_BIT,
+          gl.LINEAR
         );
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
       }
 
-      // Draw fullscreen quad (6 vertices)
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
-
-      // Unbind VAO
-      gl.bindVertexArray(null);
+      // Sample for the inspector before the drawing buffer is discarded
+      inspectorRef.current?.sample(
+        gl,
+        scaledTarget?.framebuffer ?? null,
+        width,
+        height
+      );
 
-      // Draw debug overlay if enabled
-      if (showDebugRef.current && debugCanvas && debugCtx) {
-        debugCanvas.width = canvas.width;
-        debugCanvas.height = canvas.height;
+      // Draw the HUD if enabled; GPU time lags a few frames behind
+      if (gpuTimer) {
+        gpuTimer.end();
+        gpuTimeRef.current = gpuTimer.poll() ?? gpuTimeRef.current;
+      }
+      if (debugCanvas && debugCtx) {
         debugCtx.clearRect(0, 0, debugCanvas.width, debugCanvas.height);
-        drawDebugOverlay(debugCtx, currentFPS);
+        drawPerformanceHud(
+          debugCtx,
+          {
+            frameTimes: frameTimesRef.current,
+            gpuTime: gpuTimerRef.current ? gpuTimeRef.current : undefined,
+            render: { width, height, scale: renderScale },
+            canvas: { width: canvas.width, height: canvas.height },
+            uniforms: frameUniforms,
+            ...rendererInfoRef.current,
+          },
+          canvas.width / (canvas.clientWidth || canvas.width)
+        );
       }
 
+      precompileGallery();
+
       // Continue render loop
       animationFrameRef.current = requestAnimationFrame(render);
     };
 
+    // The loop only runs while the canvas is on screen, the tab is visible
+    // and the context is usable
+    let running = false;
+    let onscreen = true;
+    let contextLost = false;
+
+    /**
+     * Start or stop the render loop to match visibility
+     * The transport is suspended while stopped, so time resumes where it
+     * left off instead of jumping ahead.
+     */
+    const updateLoop = () => {
+      const shouldRun = onscreen && !document.hidden && !contextLost;
+      if (shouldRun === running) return;
+      running = shouldRun;
+
+      if (running) {
+        // Don't count the pause as one long frame
+        fpsMonitorRef.current = createFPSMonitor();
+        frameTimesRef.current.lastTime = null;
+        render();
+      } else {
+        cancelAnimationFrame(animationFrameRef.current);
+        transportRef.current.suspend();
+      }
+    };
+
     // Start render loop
-    render();
+    updateLoop();
+
+    const intersectionObserver = new IntersectionObserver(([entry]) => {
+      onscreen = entry.isIntersecting;
+      updateLoop();
+    });
+    intersectionObserver.observe(canvas);
+    document.addEventListener("visibilitychange", updateLoop);
+
+    // Frame counter when the context was lost, resumed on restore
+    let lostFrame = 0;
+
+    /**
+     * Stop rendering until the browser restores the context
+     */
+    const handleContextLost = (event: Event) => {
+      // Without preventDefault the context is never restored
+      event.preventDefault();
+      contextLost = true;
+      updateLoop();
+      lostFrame = pipelineRef.current?.frame ?? 0;
+      deleteResources();
+      onContextLostRef.current?.();
+    };
+
+    /**
+     * Rebuild everything on the new context and resume where we left off
+     */
+    const handleContextRestored = () => {
+      handleResize();
+      if (createResources() && pipelineRef.current) {
+        pipelineRef.current.frame = lostFrame;
+      }
+      onContextRestoredRef.current?.();
+      contextLost = false;
+      updateLoop();
+    };
+
+    canvas.addEventListener("webglcontextlost", handleContextLost);
+    canvas.addEventListener("webglcontextrestored", handleContextRestored);
 
     // Set up event listeners
     canvas.addEventListener("mousemove", handleMouseMove);
+    canvas.addEventListener("mousedown", handleMouseDown);
+    canvas.addEventListener("mouseleave", handleMouseLeave);
     canvas.addEventListener("touchmove", handleTouchMove, { passive: true });
+    canvas.addEventListener("touchstart", handleTouchStart, { passive: true });
+    window.addEventListener("mouseup", handlePointerUp);
+    window.addEventListener("touchend", handlePointerUp);
 
     // Set up resize observer
     const resizeObserver = new ResizeObserver(() => {
@@ -433,46 +1030,54 @@ export function ShaderCanvas({
     return () => {
       cancelAnimationFrame(animationFrameRef.current);
       resizeObserver.disconnect();
+      intersectionObserver.disconnect();
+      document.removeEventListener("visibilitychange", updateLoop);
 
       canvas.removeEventListener("mousemove", handleMouseMove);
+      canvas.removeEventListener("mousedown", handleMouseDown);
+      canvas.removeEventListener("mouseleave", handleMouseLeave);
       canvas.removeEventListener("touchmove", handleTouchMove);
+      canvas.removeEventListener("touchstart", handleTouchStart);
+      window.removeEventListener("mouseup", handlePointerUp);
+      window.removeEventListener("touchend", handlePointerUp);
+      canvas.removeEventListener("webglcontextlost", handleContextLost);
+      canvas.removeEventListener("webglcontextrestored", handleContextRestored);
 
       // Clean up debug canvas
-      if (debugCanvas && debugCanvas.parentElement) {
-        debugCanvas.parentElement.removeChild(debugCanvas);
-      }
+      debugCanvas?.remove();
 
       // Clean up WebGL resources
-      if (gl) {
-        if (vaoRef.current) {
-          gl.deleteVertexArray(vaoRef.current);
-          vaoRef.current = null;
-        }
-        if (programRef.current) {
-          gl.deleteProgram(programRef.current);
-          programRef.current = null;
-        }
-      }
+      deleteResources();
 
+      compiledRef.current = null;
       glRef.current = null;
     };
   }, [
     handleResize,
     initShader,
     handleMouseMove,
+    handleMouseDown,
+    handleMouseLeave,
     handleTouchMove,
-    drawDebugOverlay,
-    onError,
+    handleTouchStart,
+    handlePointerUp,
   ]);
 
-  // Reinitialize shader when shaderId changes
+  // Reinitialize shader when shaderId or the edited source changes
   useEffect(() => {
-    if (glRef.current && vaoRef.current) {
-      initShader();
-      // Reset timing for new shader
-      startTimeRef.current = performance.now();
+    if (!glRef.current || !vaoRef.current) return;
+
+    const compiled = compiledRef.current;
+    if (
+      compiled &&
+      compiled.shaderId === shaderId &&
+      compiled.fragmentSource === fragmentSource
+    ) {
+      return;
     }
-  }, [shaderId, initShader]);
+
+    initShader();
+  }, [shaderId, fragmentSource, initShader]);
 
   return (
     <canvas
@@ -0,0 +1,71 @@
+// Shader Channel Files - User-dropped files replacing texture channel sources
+//
+// Kept in memory only: dropped files are served from object URLs, which
+// don't outlive the page.
+
+import { createStore, useStore } from '@/lib/store';
+import type { TextureSource } from './shader-gallery';
+
+export interface ChannelFile {
+  fileName: string;
+  source: TextureSource;
+}
+
+// Shader ID -> channel sampler name -> file
+export type ChannelFiles = Record<string, Record<string, ChannelFile>>;
+
+const EMPTY_FILES: ChannelFiles = {};
+
+const files = createStore(() => EMPTY_FILES);
+
+function revoke(file: ChannelFile | undefined): void {
+  if (file && 'url' in file.source) {
+    URL.revokeObjectURL(file.source.url);
+  }
+}
+
+/**
+ * Use a dropped image or video file as a shader's texture channel
+ */
+export function setChannelFile(shaderId: string, channel: string, file: File): void {
+  const url = URL.createObjectURL(file);
+  const shaderFiles = files.get()[shaderId] ?? {};
+  revoke(shaderFiles[channel]);
+  files.set({
+    ...files.get(),
+    [shaderId]: {
+      ...shaderFiles,
+      [channel]: {
+        fileName: file.name,
+        source: file.type.startsWith('video/')
+          ? { type: 'video', url }
+          : { type: 'image', url },
+      },
+    },
+  });
+}
+
+/**
+ * Return a texture channel to its declared source
+ */
+export function clearChannelFile(shaderId: string, channel: string): void {
+  const { [channel]: removed, ...rest } = files.get()[shaderId] ?? {};
+  if (!removed) return;
+  revoke(removed);
+  files.set({ ...files.get(), [shaderId]: rest });
+}
+
+/**
+ * Subscribe to channel file changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToChannelFiles(listener: () => void): () => void {
+  return files.subscribe(listener);
+}
+
+/**
+ * React hook returning dropped channel files keyed by shader ID
+ */
+export function useChannelFiles(): ChannelFiles {
+  return useStore(files, EMPTY_FILES);
+}
@@ -0,0 +1,31 @@
+// Shader Chunks - Named GLSL snippets available to `#include "name"`
+
+import paletteChunk from './shaders/chunks/palette.glsl';
+import rot2dChunk from './shaders/chunks/rot2d.glsl';
+import simplexNoiseChunk from './shaders/chunks/simplex-noise.glsl';
+import sdfChunk from './shaders/chunks/sdf.glsl';
+import raymarchChunk from './shaders/chunks/raymarch.glsl';
+
+const chunks = new Map<string, string>([
+  ['palette', paletteChunk],             // SITE_TEAL, SITE_PINK, SITE_BLUE, SITE_DARK
+  ['rot2d', rot2dChunk],                 // rot2D(angle)
+  ['simplex-noise', simplexNoiseChunk],  // snoise(vec2)
+  ['sdf', sdfChunk],                     // sdSphere, sdBox, sdTorus, sdPlane, opSmoothUnion
+  ['raymarch', raymarchChunk],           // rayMarch, getNormal, softShadow (needs getDist)
+]);
+
+/**
+ * Register a named chunk so shaders can `#include` it
+ * @throws If a chunk with the same name is already registered
+ */
+export function registerGlslChunk(name: string, source: string): void {
+  if (chunks.has(name)) {
+    throw new Error(`GLSL chunk already registered: ${name}`);
+  }
+  chunks.set(name, source);
+}
+
+// Helper function to look up a chunk's source by name
+export function getGlslChunk(name: string): string | undefined {
+  return chunks.get(name);
+}
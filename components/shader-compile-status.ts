@@ -0,0 +1,50 @@
+// Shader Compile Status - Per-shader program status reported by the canvas
+//
+// The canvas compiles the selected shader immediately and precompiles the
+// rest of the gallery in the background; the selector shows the progress.
+
+import type { ProgramStatus } from '@/lib/program-cache';
+import { createStore, useStore } from '@/lib/store';
+
+export type ShaderCompileStatus = ProgramStatus;
+
+const EMPTY_STATUSES: Record<string, ShaderCompileStatus> = {};
+
+const statuses = createStore(() => EMPTY_STATUSES);
+
+/**
+ * Record a shader's compile status; unchanged statuses notify no one
+ */
+export function setShaderCompileStatus(
+  id: string,
+  status: ShaderCompileStatus
+): void {
+  if (statuses.get()[id] === status) return;
+  statuses.set({ ...statuses.get(), [id]: status });
+}
+
+/**
+ * Forget every status, e.g. when the canvas and its programs go away
+ */
+export function clearShaderCompileStatuses(): void {
+  if (statuses.get() === EMPTY_STATUSES) return;
+  statuses.set(EMPTY_STATUSES);
+}
+
+/**
+ * Subscribe to status changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToShaderCompileStatuses(
+  listener: () => void
+): () => void {
+  return statuses.subscribe(listener);
+}
+
+/**
+ * React hook returning compile statuses keyed by shader ID
+ * Shaders without an entry haven't been compiled yet.
+ */
+export function useShaderCompileStatuses(): Record<string, ShaderCompileStatus> {
+  return useStore(statuses, EMPTY_STATUSES);
+}
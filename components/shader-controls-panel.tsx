@@ -1,7 +1,47 @@
 "use client";
 
-import { useState } from "react";
-import { SHADERS, getShaderById } from "./shader-gallery";
+import { useRef, useState, type ReactNode } from "react";
+import { getShaderById, useShaders } from "./shader-registry";
+import type { ChannelFile } from "./shader-channel-files";
+import type { RenderSettings } from "./render-settings";
+import {
+  useShaderCompileStatuses,
+  type ShaderCompileStatus,
+} from "./shader-compile-status";
+import {
+  getPostEffectById,
+  type PostChain,
+  type PostEffectState,
+} from "./post-effects";
+import {
+  deletePreset,
+  exportPresetFile,
+  getPresetAnimation,
+  getPresetUniforms,
+  importPresetFile,
+  listPresets,
+  PresetFileError,
+  savePreset,
+  setStartupPreset,
+  usePresets,
+} from "./shader-presets";
+import type { MigrationResult } from "./uniform-migrations";
+import { isAnimated, type UniformAnimation } from "./uniform-animation";
+import {
+  isBindable,
+  useBindingState,
+  type UniformBindings,
+} from "./uniform-expressions";
+import {
+  getShaderVersion,
+  type ScalarUniform,
+  type ShaderDefinition,
+  type ShaderUniform,
+  type TextureChannel,
+  type TextureSource,
+  type UniformValue,
+  type UniformValues,
+} from "./shader-gallery";
 
 // ============================================================================
 // Types
@@ -10,23 +50,32 @@ import { SHADERS, getShaderById } from "./shader-gallery";
 export interface ShaderControlsPanelProps {
   selectedShaderId: string;
   onShaderSelect: (shaderId: string) => void;
-  uniforms: Record<string, number>;
-  onUniformChange: (name: string, value: number) => void;
+  uniforms: UniformValues;
+  onUniformChange: (name: string, value: UniformValue) => void;
   onResetDefaults: () => void;
+  /** Files dropped onto the current shader's texture channels, by sampler name */
+  channelFiles?: Record<string, ChannelFile>;
+  onChannelFile?: (channel: string, file: File) => void;
+  onChannelReset?: (channel: string) => void;
+  /** Post-processing chain for the current shader */
+  postChain?: PostChain;
+  onPostChainChange?: (chain: PostChain) => void;
+  /** Canvas resolution preferences */
+  renderSettings?: RenderSettings;
+  onRenderSettingsChange?: (patch: Partial<RenderSettings>) => void;
+  /** Open the still export dialog */
+  onExport?: () => void;
+  /** Keyframes saved along with new presets */
+  animation?: UniformAnimation;
+  /** Expression bindings; float and int sliders can be bound with it */
+  bindings?: UniformBindings;
+  /** Apply a preset's migrated values and animation; presets are hidden without it */
+  onPresetLoad?: (
+    result: MigrationResult,
+    animation: UniformAnimation | null
+  ) => void;
 }
 
-// ============================================================================
-// Constants
-// ============================================================================
-
-const SHADER_BUTTONS: { id: string; label: string }[] = [
-  { id: "plasma", label: "Plas" },
-  { id: "sphere", label: "Sphere" },
-  { id: "noise", label: "Noise" },
-  { id: "kaleidoscope", label: "Kaleid" },
-  { id: "aurora", label: "Rora" },
-];
-
 // ============================================================================
 // Icons
 // ============================================================================
@@ -75,6 +124,95 @@ function ResetIcon({ className }: { className?: string }) {
   );
 }
 
+/**
+ * Download icon for exporting
+ */
+function ExportIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <path d="m7 10 5 5 5-5" />
+      <path d="M12 15V3" />
+    </svg>
+  );
+}
+
+/**
+ * Star icon marking the startup preset; filled when active
+ */
+function StarIcon({
+  className,
+  filled,
+}: {
+  className?: string;
+  filled: boolean;
+}) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill={filled ? "currentColor" : "none"}
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="m12 2 3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01z" />
+    </svg>
+  );
+}
+
+/**
+ * Cross icon for deleting
+ */
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M18 6 6 18" />
+      <path d="m6 6 12 12" />
+    </svg>
+  );
+}
+
+/**
+ * Chevron icon for reorder buttons; rotated for "down"
+ */
+function ChevronUpIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="m18 15-6-6-6 6" />
+    </svg>
+  );
+}
+
 // ============================================================================
 // Slider Component
 // ============================================================================
@@ -89,6 +227,8 @@ function Slider({
   min,
   max,
   step,
+  disabled,
+  action,
 }: {
   label: string;
   value: number;
@@ -96,6 +236,9 @@ function Slider({
   min: number;
   max: number;
   step: number;
+  disabled?: boolean;
+  /** Extra control shown after the label */
+  action?: ReactNode;
 }) {
   // Determine decimal places based on step
   const getDecimalPlaces = (step: number): number => {
@@ -110,7 +253,10 @@ function Slider({
   return (
     <div className="flex flex-col gap-1">
       <div className="flex justify-between text-xs">
-        <span className="text-foreground/80">{label}</span>
+        <span className="flex items-center gap-1.5 text-foreground/80">
+          {label}
+          {action}
+        </span>
         <span className="text-muted font-mono">
           {value.toFixed(decimalPlaces)}
         </span>
@@ -122,7 +268,9 @@ function Slider({
         step={step}
         value={value}
         onChange={(e) => onChange(parseFloat(e.target.value))}
+        disabled={disabled}
         className="w-full h-1.5 bg-border rounded-full appearance-none cursor-pointer
+          disabled:cursor-default disabled:opacity-60
           [&::-webkit-slider-thumb]:appearance-none
           [&::-webkit-slider-thumb]:w-3
           [&::-webkit-slider-thumb]:h-3
@@ -142,6 +290,858 @@ function Slider({
   );
 }
 
+// ============================================================================
+// XY Pad Component
+// ============================================================================
+
+/**
+ * Two-axis pad for vec2 parameters; Y increases upwards like GL coordinates
+ */
+function XYPad({
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  step,
+}: {
+  label: string;
+  value: number[];
+  onChange: (value: number[]) => void;
+  min: number;
+  max: number;
+  step: number;
+}) {
+  const toUnit = (v: number) => (v - min) / (max - min || 1);
+  const fromUnit = (t: number) => {
+    const clamped = Math.min(1, Math.max(0, t));
+    const stepped = Math.round((clamped * (max - min)) / step) * step + min;
+    return Math.min(max, Math.max(min, stepped));
+  };
+
+  const updateFromPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onChange([
+      fromUnit((e.clientX - rect.left) / rect.width),
+      fromUnit(1 - (e.clientY - rect.top) / rect.height),
+    ]);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-foreground/80">{label}</span>
+        <span className="text-muted font-mono">
+          {value[0].toFixed(2)}, {value[1].toFixed(2)}
+        </span>
+      </div>
+      <div
+        role="slider"
+        aria-label={label}
+        aria-valuetext={`${value[0].toFixed(2)}, ${value[1].toFixed(2)}`}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          updateFromPointer(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            updateFromPointer(e);
+          }
+        }}
+        onDoubleClick={() => onChange([fromUnit(0.5), fromUnit(0.5)])}
+        className="relative w-full aspect-square bg-border/60 rounded-md cursor-crosshair touch-none"
+      >
+        {/* Center guides */}
+        <div className="absolute left-1/2 top-0 bottom-0 w-px bg-muted/30" />
+        <div className="absolute top-1/2 left-0 right-0 h-px bg-muted/30" />
+        {/* Handle */}
+        <div
+          className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-accent-teal pointer-events-none"
+          style={{
+            left: `${toUnit(value[0]) * 100}%`,
+            top: `${(1 - toUnit(value[1])) * 100}%`,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Color Picker Component
+// ============================================================================
+
+/**
+ * Convert 0-1 RGB components to a #rrggbb string
+ */
+function toHexColor(rgb: number[]): string {
+  return (
+    "#" +
+    rgb
+      .slice(0, 3)
+      .map((c) =>
+        Math.round(Math.min(1, Math.max(0, c)) * 255)
+          .toString(16)
+          .padStart(2, "0")
+      )
+      .join("")
+  );
+}
+
+/**
+ * Convert a #rrggbb string to 0-1 RGB components
+ */
+function fromHexColor(hex: string): number[] {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+}
+
+/**
+ * Color picker for vec3 (RGB) and vec4 (RGBA) parameters
+ */
+function ColorPicker({
+  label,
+  value,
+  onChange,
+  hasAlpha,
+}: {
+  label: string;
+  value: number[];
+  onChange: (value: number[]) => void;
+  hasAlpha: boolean;
+}) {
+  const hex = toHexColor(value);
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-foreground/80">{label}</span>
+        <label className="flex items-center gap-2 text-muted font-mono">
+          {hex}
+          <input
+            type="color"
+            value={hex}
+            onChange={(e) =>
+              onChange(
+                hasAlpha
+                  ? [...fromHexColor(e.target.value), value[3]]
+                  : fromHexColor(e.target.value)
+              )
+            }
+            className="w-6 h-6 p-0 bg-transparent border border-border rounded cursor-pointer"
+            aria-label={label}
+          />
+        </label>
+      </div>
+      {hasAlpha && (
+        <Slider
+          label="Alpha"
+          value={value[3]}
+          onChange={(alpha) => onChange([...value.slice(0, 3), alpha])}
+          min={0}
+          max={1}
+          step={0.01}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Toggle Component
+// ============================================================================
+
+/**
+ * Switch for bool parameters
+ */
+function Toggle({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between text-xs">
+      <span className="text-foreground/80">{label}</span>
+      <button
+        role="switch"
+        aria-checked={value}
+        aria-label={label}
+        onClick={() => onChange(!value)}
+        className={`relative w-8 h-4 rounded-full transition-colors
+          focus:outline-none focus:ring-2 focus:ring-accent-teal
+          ${value ? "bg-accent-teal" : "bg-border"}`}
+      >
+        <span
+          className={`absolute top-0.5 left-0.5 w-3 h-3 rounded-full bg-white transition-transform ${
+            value ? "translate-x-4" : ""
+          }`}
+        />
+      </button>
+    </div>
+  );
+}
+
+// ============================================================================
+// Segmented Selector Component
+// ============================================================================
+
+/**
+ * Segmented selector for enum parameters
+ */
+function SegmentedSelector({
+  label,
+  value,
+  onChange,
+  options,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  options: string[];
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-xs text-foreground/80">{label}</span>
+      <div className="flex gap-1" role="radiogroup" aria-label={label}>
+        {options.map((option, index) => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={value === index}
+            onClick={() => onChange(index)}
+            className={`
+              flex-1 px-1 py-1 text-xs rounded-md transition-all
+              focus:outline-none focus:ring-2 focus:ring-accent-teal
+              ${
+                value === index
+                  ? "bg-accent-teal text-white font-medium"
+                  : "bg-surface/50 text-muted hover:bg-surface hover:text-foreground"
+              }
+            `}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Channel Drop Zone Component
+// ============================================================================
+
+/**
+ * Short description of a channel's declared source
+ */
+function describeSource(source: TextureSource): string {
+  switch (source.type) {
+    case "image":
+    case "video":
+      return source.url.split("/").pop() || source.url;
+    case "noise":
+      return `Noise ${source.size}×${source.size}`;
+    case "file":
+      return "No file";
+  }
+}
+
+/**
+ * Drop target (or click to browse) replacing a texture channel with an
+ * image or video file
+ */
+function ChannelDropZone({
+  channel,
+  file,
+  onFile,
+  onReset,
+}: {
+  channel: TextureChannel;
+  file: ChannelFile | undefined;
+  onFile: (file: File) => void;
+  onReset: () => void;
+}) {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const acceptFiles = (files: FileList | null) => {
+    const dropped = files?.[0];
+    if (dropped && /^(image|video)\//.test(dropped.type)) {
+      onFile(dropped);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-foreground/80">{channel.label}</span>
+        {file && (
+          <button
+            onClick={onReset}
+            className="text-muted hover:text-accent-teal transition-colors
+              focus:outline-none focus:ring-2 focus:ring-accent-teal rounded"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+      <button
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          acceptFiles(e.dataTransfer.files);
+        }}
+        className={`flex flex-col items-center gap-0.5 px-2 py-2 text-xs rounded-md
+          border border-dashed transition-colors
+          focus:outline-none focus:ring-2 focus:ring-accent-teal
+          ${
+            isDragging
+              ? "border-accent-teal bg-accent-teal/10 text-foreground"
+              : "border-border bg-surface/50 text-muted hover:text-foreground"
+          }`}
+        aria-label={`Replace ${channel.label} texture`}
+      >
+        <span className="max-w-full truncate font-mono">
+          {file ? file.fileName : describeSource(channel.source)}
+        </span>
+        <span className="opacity-60">Drop image or video</span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*,video/*"
+        className="hidden"
+        onChange={(e) => {
+          acceptFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
+
+// ============================================================================
+// Uniform Control
+// ============================================================================
+
+/**
+ * Render the control matching a uniform's type
+ */
+function UniformControl({
+  uniform,
+  value,
+  onChange,
+}: {
+  uniform: ShaderUniform;
+  value: UniformValue | undefined;
+  onChange: (value: UniformValue) => void;
+}) {
+  switch (uniform.type) {
+    case "float":
+    case "int":
+      return (
+        <Slider
+          label={uniform.label}
+          value={(value as number | undefined) ?? uniform.defaultValue}
+          onChange={onChange}
+          min={uniform.min}
+          max={uniform.max}
+          step={uniform.step}
+        />
+      );
+    case "vec2":
+      return (
+        <XYPad
+          label={uniform.label}
+          value={(value as number[] | undefined) ?? uniform.defaultValue}
+          onChange={onChange}
+          min={uniform.min}
+          max={uniform.max}
+          step={uniform.step}
+        />
+      );
+    case "vec3":
+    case "vec4":
+      return (
+        <ColorPicker
+          label={uniform.label}
+          value={(value as number[] | undefined) ?? uniform.defaultValue}
+          onChange={onChange}
+          hasAlpha={uniform.type === "vec4"}
+        />
+      );
+    case "bool":
+      return (
+        <Toggle
+          label={uniform.label}
+          value={(value as boolean | undefined) ?? uniform.defaultValue}
+          onChange={onChange}
+        />
+      );
+    case "enum":
+      return (
+        <SegmentedSelector
+          label={uniform.label}
+          value={(value as number | undefined) ?? uniform.defaultValue}
+          onChange={onChange}
+          options={uniform.options}
+        />
+      );
+  }
+}
+
+/**
+ * Slider for a float or int uniform that can be bound to an expression
+ * While bound, the slider follows the expression's live value.
+ */
+function ExpressionSlider({
+  shader,
+  uniform,
+  value,
+  onChange,
+  bindings,
+}: {
+  shader: ShaderDefinition;
+  uniform: ScalarUniform;
+  value: number;
+  onChange: (value: number) => void;
+  bindings: UniformBindings;
+}) {
+  const { expressions, errors, values, audioError } = useBindingState(bindings);
+  const expression = expressions[uniform.name];
+  const bound = expression !== undefined;
+  const error = errors[uniform.name];
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Slider
+        label={uniform.label}
+        value={bound ? (values[uniform.name] ?? value) : value}
+        onChange={onChange}
+        min={uniform.min}
+        max={uniform.max}
+        step={uniform.step}
+        disabled={bound}
+        action={
+          <button
+            onClick={() =>
+              bindings.setExpression(
+                shader,
+                uniform.name,
+                bound ? null : String(value)
+              )
+            }
+            className={`px-1 rounded font-mono italic transition-colors
+              focus:outline-none focus:ring-2 focus:ring-accent-teal
+              ${bound ? "bg-accent-teal text-white" : "text-muted hover:text-accent-teal"}`}
+            aria-label={
+              bound
+                ? `Stop driving ${uniform.label} with an expression`
+                : `Drive ${uniform.label} with an expression`
+            }
+            aria-pressed={bound}
+            title={bound ? "Remove expression" : "Use an expression"}
+          >
+            f
+          </button>
+        }
+      />
+      {bound && (
+        <>
+          <input
+            type="text"
+            value={expression}
+            onChange={(e) =>
+              bindings.setExpression(shader, uniform.name, e.target.value)
+            }
+            placeholder="0.5 + 0.4*sin(t*2)"
+            aria-label={`${uniform.label} expression`}
+            aria-invalid={error !== undefined}
+            spellCheck={false}
+            title="Variables: t, dt, frame, mouse.x, mouse.y, resolution.x, resolution.y, audio and other uniforms by name without u_"
+            className={`w-full px-2 py-1 text-xs font-mono rounded-md bg-surface/50 border text-foreground
+              focus:outline-none focus:ring-2 focus:ring-accent-teal
+              ${error ? "border-red-500/60" : "border-border"}`}
+          />
+          {error && <p className="text-[10px] text-red-400">{error}</p>}
+          {audioError && /\baudio\b/.test(expression) && (
+            <p className="text-[10px] text-yellow-400">{audioError}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Post Chain Controls
+// ============================================================================
+
+/**
+ * Ordered list of post effects with toggles, reorder buttons and the
+ * parameters of enabled effects
+ */
+function PostChainControls({
+  chain,
+  onChange,
+}: {
+  chain: PostChain;
+  onChange: (chain: PostChain) => void;
+}) {
+  const updateEffect = (index: number, patch: Partial<PostEffectState>) => {
+    onChange(
+      chain.map((state, i) => (i === index ? { ...state, ...patch } : state))
+    );
+  };
+
+  const moveEffect = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= chain.length) return;
+    const next = [...chain];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const reorderButtonClass = `p-0.5 rounded text-muted transition-colors
+    hover:text-accent-teal disabled:opacity-30 disabled:pointer-events-none
+    focus:outline-none focus:ring-2 focus:ring-accent-teal`;
+
+  return (
+    <div className="space-y-2">
+      {chain.map((state, index) => {
+        const effect = getPostEffectById(state.id);
+        if (!effect) return null;
+
+        return (
+          <div key={state.id} className="p-2 rounded-md bg-surface/30 space-y-3">
+            <div className="flex items-center gap-1">
+              <div className="flex flex-col">
+                <button
+                  onClick={() => moveEffect(index, -1)}
+                  disabled={index === 0}
+                  className={reorderButtonClass}
+                  aria-label={`Move ${effect.name} earlier`}
+                >
+                  <ChevronUpIcon className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => moveEffect(index, 1)}
+                  disabled={index === chain.length - 1}
+                  className={reorderButtonClass}
+                  aria-label={`Move ${effect.name} later`}
+                >
+                  <ChevronUpIcon className="w-3 h-3 rotate-180" />
+                </button>
+              </div>
+              <div className="flex-1" title={effect.description}>
+                <Toggle
+                  label={effect.name}
+                  value={state.enabled}
+                  onChange={(enabled) => updateEffect(index, { enabled })}
+                />
+              </div>
+            </div>
+
+            {state.enabled &&
+              effect.uniforms.map((uniform) => (
+                <UniformControl
+                  key={uniform.name}
+                  uniform={uniform}
+                  value={state.uniforms[uniform.name]}
+                  onChange={(value) =>
+                    updateEffect(index, {
+                      uniforms: { ...state.uniforms, [uniform.name]: value },
+                    })
+                  }
+                />
+              ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================================================
+// Preset Controls
+// ============================================================================
+
+/**
+ * Save the current values (and any keyframes) as a named preset, and load,
+ * delete, star (as the startup preset), export or import presets
+ */
+function PresetControls({
+  shader,
+  uniforms,
+  animation,
+  onLoad,
+}: {
+  shader: ShaderDefinition;
+  uniforms: UniformValues;
+  animation?: UniformAnimation;
+  onLoad: (result: MigrationResult, animation: UniformAnimation | null) => void;
+}) {
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<{ text: string; error: boolean }>();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const entry = usePresets()[shader.id];
+  const listings = listPresets(shader, entry);
+  const trimmedName = name.trim();
+
+  const handleSave = () => {
+    if (!trimmedName) return;
+    savePreset(
+      shader.id,
+      trimmedName,
+      uniforms,
+      getShaderVersion(shader),
+      isAnimated(animation) ? animation : null
+    );
+    setName("");
+    setMessage(undefined);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresetFile([shader.id])], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${shader.id}-presets.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const count = importPresetFile(await file.text());
+      setMessage({
+        text: `Imported ${count} preset${count === 1 ? "" : "s"}`,
+        error: false,
+      });
+    } catch (e) {
+      setMessage({
+        text:
+          e instanceof PresetFileError
+            ? e.message
+            : `Couldn't import the file: ${e instanceof Error ? e.message : String(e)}`,
+        error: true,
+      });
+    }
+  };
+
+  const textButtonClass = `text-muted hover:text-accent-teal transition-colors
+    disabled:opacity-30 disabled:pointer-events-none
+    focus:outline-none focus:ring-2 focus:ring-accent-teal rounded`;
+
+  return (
+    <div className="space-y-2 text-xs">
+      {listings.length > 0 && (
+        <ul className="space-y-1">
+          {listings.map(({ preset, curated }) => {
+            const isStartup = entry?.startup === preset.name;
+            return (
+              <li key={preset.name} className="flex items-center gap-1">
+                <button
+                  onClick={() =>
+                    onLoad(
+                      getPresetUniforms(shader, preset),
+                      getPresetAnimation(shader, preset)
+                    )
+                  }
+                  className="flex-1 min-w-0 px-2 py-1 text-left rounded-md truncate
+                    bg-surface/50 text-foreground/80 hover:bg-surface hover:text-foreground
+                    transition-colors focus:outline-none focus:ring-2 focus:ring-accent-teal"
+                  title={curated ? `${preset.name} (curated)` : preset.name}
+                >
+                  {preset.name}
+                  {preset.animation !== undefined && (
+                    <span className="ml-1 text-[10px] text-accent-teal">animated</span>
+                  )}
+                  {curated && (
+                    <span className="ml-1 text-[10px] text-muted">curated</span>
+                  )}
+                </button>
+                <button
+                  onClick={() =>
+                    setStartupPreset(shader.id, isStartup ? null : preset.name)
+                  }
+                  className={`p-1 rounded transition-colors
+                    focus:outline-none focus:ring-2 focus:ring-accent-teal
+                    ${isStartup ? "text-amber-400" : "text-muted hover:text-amber-400"}`}
+                  aria-label={
+                    isStartup
+                      ? `Stop opening with ${preset.name}`
+                      : `Open with ${preset.name}`
+                  }
+                  aria-pressed={isStartup}
+                  title={isStartup ? "Startup preset" : "Use at startup"}
+                >
+                  <StarIcon className="w-3 h-3" filled={isStartup} />
+                </button>
+                {!curated && (
+                  <button
+                    onClick={() => deletePreset(shader.id, preset.name)}
+                    className="p-1 rounded text-muted hover:text-red-400 transition-colors
+                      focus:outline-none focus:ring-2 focus:ring-accent-teal"
+                    aria-label={`Delete ${preset.name}`}
+                    title="Delete"
+                  >
+                    <CloseIcon className="w-3 h-3" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form
+        className="flex gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          aria-label="Preset name"
+          className="flex-1 min-w-0 px-2 py-1 rounded-md bg-surface/50 border border-border
+            text-foreground placeholder:text-muted
+            focus:outline-none focus:ring-2 focus:ring-accent-teal"
+        />
+        <button
+          type="submit"
+          disabled={!trimmedName}
+          className="px-2 py-1 rounded-md bg-accent-teal text-white font-medium
+            transition-opacity disabled:opacity-50
+            focus:outline-none focus:ring-2 focus:ring-accent-teal"
+          title="Save the current values (replaces a preset with the same name)"
+        >
+          Save
+        </button>
+      </form>
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleExport}
+          disabled={!entry?.presets.length}
+          className={textButtonClass}
+        >
+          Export
+        </button>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className={textButtonClass}
+        >
+          Import
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            void handleImport(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {message && (
+        <p className={message.error ? "text-red-400" : "text-muted"}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Render Quality Controls
+// ============================================================================
+
+const PIXEL_RATIO_OPTIONS = [1, 1.5, 2, 3];
+const TARGET_FPS_OPTIONS = [30, 60];
+
+/**
+ * Pixel ratio cap and adaptive resolution settings
+ */
+function RenderQualityControls({
+  settings,
+  onChange,
+}: {
+  settings: RenderSettings;
+  onChange: (patch: Partial<RenderSettings>) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <SegmentedSelector
+        label="Max Pixel Ratio"
+        value={PIXEL_RATIO_OPTIONS.indexOf(settings.maxPixelRatio)}
+        onChange={(index) =>
+          onChange({ maxPixelRatio: PIXEL_RATIO_OPTIONS[index] })
+        }
+        options={PIXEL_RATIO_OPTIONS.map((ratio) => `${ratio}x`)}
+      />
+      <Toggle
+        label="Adaptive Resolution"
+        value={settings.adaptiveResolution}
+        onChange={(adaptiveResolution) => onChange({ adaptiveResolution })}
+      />
+      {settings.adaptiveResolution && (
+        <SegmentedSelector
+          label="Target FPS"
+          value={TARGET_FPS_OPTIONS.indexOf(settings.targetFPS)}
+          onChange={(index) =>
+            onChange({ targetFPS: TARGET_FPS_OPTIONS[index] })
+          }
+          options={TARGET_FPS_OPTIONS.map(String)}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Status text appended to a selector button's tooltip
+ */
+const COMPILE_STATUS_LABELS: Record<ShaderCompileStatus, string> = {
+  compiling: "compiling",
+  ready: "ready",
+  failed: "failed to compile",
+};
+
+/**
+ * Corner dot on a selector button while compiling or after a failure
+ */
+function CompileStatusDot({ status }: { status?: ShaderCompileStatus }) {
+  if (status !== "compiling" && status !== "failed") return null;
+  return (
+    <span
+      className={`absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full ${
+        status === "compiling" ? "bg-amber-400 animate-pulse" : "bg-red-500"
+      }`}
+      aria-hidden="true"
+    />
+  );
+}
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -159,9 +1159,22 @@ export function ShaderControlsPanel({
   uniforms,
   onUniformChange,
   onResetDefaults,
+  channelFiles = {},
+  onChannelFile,
+  onChannelReset,
+  postChain,
+  onPostChainChange,
+  renderSettings,
+  onRenderSettingsChange,
+  onExport,
+  animation,
+  bindings,
+  onPresetLoad,
 }: ShaderControlsPanelProps) {
   const [isExpanded, setIsExpanded] = useState(true);
 
+  const shaders = useShaders();
+  const compileStatuses = useShaderCompileStatuses();
   const currentShader = getShaderById(selectedShaderId);
 
   return (
@@ -191,20 +1204,38 @@ export function ShaderControlsPanel({
           ${isExpanded ? "w-64 opacity-100" : "w-0 h-0 opacity-0 border-0"}
         `}
       >
-        <div className={`p-4 ${isExpanded ? "" : "hidden"}`}>
+        <div
+          className={`p-4 max-h-[70vh] overflow-y-auto hide-scrollbar ${
+            isExpanded ? "" : "hidden"
+          }`}
+        >
           {/* Header */}
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-sm font-medium text-foreground">Controls</h3>
-            <button
-              onClick={onResetDefaults}
-              className="p-1.5 rounded-md bg-surface/50 hover:bg-surface
-                text-muted hover:text-accent-teal transition-colors
-                focus:outline-none focus:ring-2 focus:ring-accent-teal"
-              aria-label="Reset to defaults"
-              title="Reset to defaults"
-            >
-              <ResetIcon className="w-4 h-4" />
-            </button>
+            <div className="flex gap-1">
+              {onExport && (
+                <button
+                  onClick={onExport}
+                  className="p-1.5 rounded-md bg-surface/50 hover:bg-surface
+                    text-muted hover:text-accent-teal transition-colors
+                    focus:outline-none focus:ring-2 focus:ring-accent-teal"
+                  aria-label="Export still"
+                  title="Export still"
+                >
+                  <ExportIcon className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={onResetDefaults}
+                className="p-1.5 rounded-md bg-surface/50 hover:bg-surface
+                  text-muted hover:text-accent-teal transition-colors
+                  focus:outline-none focus:ring-2 focus:ring-accent-teal"
+                aria-label="Reset to defaults"
+                title="Reset to defaults"
+              >
+                <ResetIcon className="w-4 h-4" />
+              </button>
+            </div>
           </div>
 
           {/* Shader Selector */}
@@ -212,13 +1243,13 @@ export function ShaderControlsPanel({
             <span className="text-xs text-foreground/80 block mb-2">
               Shader
             </span>
-            <div className="grid grid-cols-5 gap-1">
-              {SHADER_BUTTONS.map(({ id, label }) => (
+            <div className="grid grid-cols-[repeat(auto-fill,minmax(3.5rem,1fr))] gap-1">
+              {shaders.map(({ id, name, shortLabel }) => (
                 <button
                   key={id}
                   onClick={() => onShaderSelect(id)}
                   className={`
-                    px-1 py-1.5 text-xs rounded-md transition-all
+                    relative px-1 py-1.5 text-xs rounded-md transition-all
                     focus:outline-none focus:ring-2 focus:ring-accent-teal
                     ${
                       selectedShaderId === id
@@ -226,30 +1257,101 @@ export function ShaderControlsPanel({
                         : "bg-surface/50 text-muted hover:bg-surface hover:text-foreground"
                     }
                   `}
-                  title={label}
+                  title={
+                    compileStatuses[id]
+                      ? `${name} (${COMPILE_STATUS_LABELS[compileStatuses[id]]})`
+                      : name
+                  }
                 >
-                  {label}
+                  {shortLabel ?? name}
+                  <CompileStatusDot status={compileStatuses[id]} />
                 </button>
               ))}
             </div>
           </div>
 
-          {/* Dynamic Parameter Sliders */}
+          {/* Dynamic Parameter Controls */}
           {currentShader && currentShader.uniforms.length > 0 && (
             <div className="space-y-4">
               {currentShader.uniforms.map((uniform) => (
-                <Slider
-                  key={uniform.name}
-                  label={uniform.label}
-                  value={uniforms[uniform.name] ?? uniform.defaultValue}
-                  onChange={(value) => onUniformChange(uniform.name, value)}
-                  min={uniform.min}
-                  max={uniform.max}
-                  step={uniform.step}
+                bindings && isBindable(uniform) ? (
+                  <ExpressionSlider
+                    key={uniform.name}
+                    shader={currentShader}
+                    uniform={uniform}
+                    value={
+                      (uniforms[uniform.name] as number | undefined) ??
+                      uniform.defaultValue
+                    }
+                    onChange={(value) => onUniformChange(uniform.name, value)}
+                    bindings={bindings}
+                  />
+                ) : (
+                  <UniformControl
+                    key={uniform.name}
+                    uniform={uniform}
+                    value={uniforms[uniform.name]}
+                    onChange={(value) => onUniformChange(uniform.name, value)}
+                  />
+                )
+              ))}
+            </div>
+          )}
+
+          {/* Presets */}
+          {currentShader && onPresetLoad && (
+            <div className="mt-4">
+              <span className="text-xs text-foreground/80 block mb-2">
+                Presets
+              </span>
+              <PresetControls
+                key={currentShader.id}
+                shader={currentShader}
+                uniforms={uniforms}
+                animation={animation}
+                onLoad={onPresetLoad}
+              />
+            </div>
+          )}
+
+          {/* Texture Channels */}
+          {currentShader && (currentShader.channels?.length ?? 0) > 0 && (
+            <div className="mt-4 space-y-3">
+              <span className="text-xs text-foreground/80 block">Textures</span>
+              {currentShader.channels!.map((channel) => (
+                <ChannelDropZone
+                  key={channel.name}
+                  channel={channel}
+                  file={channelFiles[channel.name]}
+                  onFile={(file) => onChannelFile?.(channel.name, file)}
+                  onReset={() => onChannelReset?.(channel.name)}
                 />
               ))}
             </div>
           )}
+
+          {/* Post-processing */}
+          {postChain && onPostChainChange && (
+            <div className="mt-4">
+              <span className="text-xs text-foreground/80 block mb-2">
+                Post-processing
+              </span>
+              <PostChainControls chain={postChain} onChange={onPostChainChange} />
+            </div>
+          )}
+
+          {/* Render Quality */}
+          {renderSettings && onRenderSettingsChange && (
+            <div className="mt-4">
+              <span className="text-xs text-foreground/80 block mb-2">
+                Quality
+              </span>
+              <RenderQualityControls
+                settings={renderSettings}
+                onChange={onRenderSettingsChange}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
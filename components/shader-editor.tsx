@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { diffLines } from "@/lib/line-diff";
+import {
+  formatDiagnosticLocation,
+  type ShaderDiagnostic,
+} from "@/lib/shader-diagnostics";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ShaderEditorProps {
+  /** File name diagnostics use for the main source (e.g. "plasma.frag") */
+  fileName: string;
+  /** Built-in source, used for revert and the diff view */
+  originalSource: string;
+  /** Current source (saved edit or original) */
+  source: string;
+  /** Called with the new source once typing pauses */
+  onSourceChange: (source: string) => void;
+  /** Discard edits and return to the built-in source */
+  onRevert: () => void;
+  /** Diagnostics from the last compile attempt */
+  diagnostics: ShaderDiagnostic[];
+}
+
+type EditorView = "edit" | "diff";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const RECOMPILE_DEBOUNCE_MS = 400;
+
+// Must match the leading-5 line height used by the gutter and textarea
+const LINE_HEIGHT_PX = 20;
+
+const TAB_INDENT = "    ";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Move a textarea's caret to the start of a line and scroll it into view
+ */
+function moveCaretToLine(textarea: HTMLTextAreaElement, line: number): void {
+  const offset = textarea.value
+    .split("\n")
+    .slice(0, line - 1)
+    .reduce((sum, text) => sum + text.length + 1, 0);
+  textarea.focus();
+  textarea.setSelectionRange(offset, offset);
+  textarea.scrollTop = Math.max(0, (line - 3) * LINE_HEIGHT_PX);
+}
+
+// ============================================================================
+// Diff View
+// ============================================================================
+
+/**
+ * Unified line diff of the edited source against the built-in source
+ */
+function DiffView({ original, modified }: { original: string; modified: string }) {
+  const lines = useMemo(() => diffLines(original, modified), [original, modified]);
+
+  return (
+    <pre className="flex-1 min-h-0 overflow-auto py-2 text-xs leading-5 font-mono">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={`px-2 whitespace-pre ${
+            line.type === "added"
+              ? "bg-accent-teal/15 text-accent-teal"
+              : line.type === "removed"
+                ? "bg-red-500/15 text-red-300"
+                : "text-muted"
+          }`}
+        >
+          <span className="inline-block w-8 pr-2 text-right opacity-50 select-none">
+            {line.oldLine ?? ""}
+          </span>
+          <span className="inline-block w-8 pr-2 text-right opacity-50 select-none">
+            {line.newLine ?? ""}
+          </span>
+          <span className="inline-block w-4 select-none">
+            {line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+          </span>
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * ShaderEditor Component
+ *
+ * Live GLSL editor for the current shader's fragment source. Edits are
+ * reported after a short debounce so the canvas can hot-recompile; compile
+ * diagnostics are marked inline at their lines.
+ */
+export function ShaderEditor({
+  fileName,
+  originalSource,
+  source,
+  onSourceChange,
+  onRevert,
+  diagnostics,
+}: ShaderEditorProps) {
+  const [draft, setDraft] = useState(source);
+  const [view, setView] = useState<EditorView>("edit");
+  const [scrollTop, setScrollTop] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastEmittedRef = useRef(source);
+  // Line to jump to once the textarea mounts (diagnostic clicked in Diff view)
+  const pendingLineRef = useRef<number | null>(null);
+
+  // Adopt external source changes (shader switch, revert)
+  useEffect(() => {
+    if (source !== lastEmittedRef.current) {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      lastEmittedRef.current = source;
+      setDraft(source);
+    }
+  }, [source]);
+
+  // Cancel a pending recompile on unmount
+  useEffect(() => {
+    return () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    };
+  }, []);
+
+  /**
+   * Update the draft immediately and report it once typing pauses
+   */
+  const updateDraft = (next: string) => {
+    setDraft(next);
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      lastEmittedRef.current = next;
+      onSourceChange(next);
+    }, RECOMPILE_DEBOUNCE_MS);
+  };
+
+  /**
+   * Insert spaces on Tab instead of moving focus
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Tab") return;
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    updateDraft(
+      draft.slice(0, selectionStart) + TAB_INDENT + draft.slice(selectionEnd)
+    );
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd =
+        selectionStart + TAB_INDENT.length;
+    });
+  };
+
+  /**
+   * Drop the draft and any pending recompile, then restore the original
+   * The saved source may not have changed yet (an edit still debouncing),
+   * so this can't wait for it to come back through props.
+   */
+  const handleRevert = () => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    lastEmittedRef.current = originalSource;
+    setDraft(originalSource);
+    onRevert();
+  };
+
+  /**
+   * Jump to a line, switching to the editor first if needed
+   */
+  const jumpToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (view === "edit" && textarea) {
+      moveCaretToLine(textarea, line);
+      return;
+    }
+    pendingLineRef.current = line;
+    setView("edit");
+  };
+
+  // Finish a jump once the editor view has mounted its textarea
+  useEffect(() => {
+    const line = pendingLineRef.current;
+    const textarea = textareaRef.current;
+    if (view !== "edit" || line === null || !textarea) return;
+    pendingLineRef.current = null;
+    moveCaretToLine(textarea, line);
+  }, [view]);
+
+  // Diagnostics that point at lines of this file, grouped by line
+  const lineDiagnostics = useMemo(() => {
+    const byLine = new Map<number, ShaderDiagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.file !== fileName || diagnostic.line === undefined) continue;
+      const list = byLine.get(diagnostic.line) ?? [];
+      list.push(diagnostic);
+      byLine.set(diagnostic.line, list);
+    }
+    return byLine;
+  }, [diagnostics, fileName]);
+
+  const lineCount = draft.split("\n").length;
+  const isEdited = draft !== originalSource;
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+
+  return (
+    <div className="flex flex-col h-[420px] lg:h-full min-h-0 bg-black/60 border border-border rounded-lg overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border text-xs">
+        <span className="font-mono text-foreground/80">
+          {fileName}
+          {isEdited && <span className="text-accent-pink"> (edited)</span>}
+        </span>
+        <span
+          className={`ml-auto font-mono ${
+            errorCount > 0 ? "text-red-400" : "text-accent-teal"
+          }`}
+        >
+          {errorCount > 0
+            ? `${errorCount} error${errorCount === 1 ? "" : "s"}`
+            : "compiled"}
+        </span>
+        {(["edit", "diff"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-2 py-1 rounded-md transition-colors
+              focus:outline-none focus:ring-2 focus:ring-accent-teal
+              ${
+                view === option
+                  ? "bg-accent-teal text-white font-medium"
+                  : "bg-surface/50 text-muted hover:bg-surface hover:text-foreground"
+              }`}
+          >
+            {option === "edit" ? "Edit" : "Diff"}
+          </button>
+        ))}
+        <button
+          onClick={handleRevert}
+          disabled={!isEdited}
+          className="px-2 py-1 rounded-md bg-surface/50 text-muted transition-colors
+            hover:bg-surface hover:text-foreground disabled:opacity-40 disabled:pointer-events-none
+            focus:outline-none focus:ring-2 focus:ring-accent-teal"
+          title="Revert to original"
+        >
+          Revert
+        </button>
+      </div>
+
+      {view === "edit" ? (
+        <div className="relative flex flex-1 min-h-0 text-xs leading-5 font-mono">
+          {/* Gutter */}
+          <div className="relative w-10 shrink-0 overflow-hidden border-r border-border select-none">
+            <div className="py-2" style={{ transform: `translateY(${-scrollTop}px)` }}>
+              {Array.from({ length: lineCount }, (_, index) => {
+                const markers = lineDiagnostics.get(index + 1);
+                return (
+                  <div
+                    key={index}
+                    title={markers?.map((d) => d.message).join("\n")}
+                    className={`pr-2 text-right ${
+                      markers
+                        ? markers.some((d) => d.severity === "error")
+                          ? "text-red-400 bg-red-500/20"
+                          : "text-yellow-300 bg-yellow-500/20"
+                        : "text-muted/60"
+                    }`}
+                  >
+                    {index + 1}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Error line highlights behind the textarea */}
+          <div className="absolute inset-y-0 left-10 right-0 overflow-hidden pointer-events-none">
+            {Array.from(lineDiagnostics.entries()).map(([line, markers]) => (
+              <div
+                key={line}
+                className={`absolute left-0 right-0 ${
+                  markers.some((d) => d.severity === "error")
+                    ? "bg-red-500/15"
+                    : "bg-yellow-500/10"
+                }`}
+                style={{
+                  top: 8 + (line - 1) * LINE_HEIGHT_PX - scrollTop,
+                  height: LINE_HEIGHT_PX,
+                }}
+              />
+            ))}
+          </div>
+
+          <textarea
+            ref={textareaRef}
+            value={draft}
+            onChange={(e) => updateDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            spellCheck={false}
+            wrap="off"
+            aria-label={`${fileName} source`}
+            className="relative flex-1 py-2 px-2 bg-transparent text-foreground resize-none
+              whitespace-pre overflow-auto focus:outline-none"
+          />
+        </div>
+      ) : (
+        <DiffView original={originalSource} modified={draft} />
+      )}
+
+      {/* Diagnostics list */}
+      {diagnostics.length > 0 && (
+        <ul className="max-h-24 overflow-y-auto border-t border-border px-3 py-2 space-y-1 text-xs font-mono">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index}>
+              <button
+                onClick={() =>
+                  diagnostic.file === fileName &&
+                  diagnostic.line !== undefined &&
+                  jumpToLine(diagnostic.line)
+                }
+                className={`text-left hover:underline ${
+                  diagnostic.severity === "error" ? "text-red-300" : "text-yellow-300"
+                }`}
+              >
+                <span className="text-muted">
+                  {formatDiagnosticLocation(diagnostic)}
+                </span>{" "}
+                {diagnostic.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ShaderEditor;
@@ -0,0 +1,46 @@
+// Shader Edits - Per-shader fragment source edits persisted to localStorage
+
+import { createStorageStore, useStore } from '@/lib/store';
+
+const STORAGE_KEY = 'shader-gallery:edits';
+
+const EMPTY_EDITS: Record<string, string> = {};
+
+const edits = createStorageStore<Record<string, string>>(STORAGE_KEY, {});
+
+/**
+ * Get the edited fragment source for a shader, if any
+ */
+export function getShaderEdit(id: string): string | undefined {
+  return edits.get()[id];
+}
+
+/**
+ * Save an edited fragment source for a shader
+ */
+export function saveShaderEdit(id: string, source: string): void {
+  edits.set({ ...edits.get(), [id]: source });
+}
+
+/**
+ * Discard a shader's edits, reverting to its original source
+ */
+export function revertShaderEdit(id: string): void {
+  const { [id]: _removed, ...rest } = edits.get();
+  edits.set(rest);
+}
+
+/**
+ * Subscribe to edit changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToShaderEdits(listener: () => void): () => void {
+  return edits.subscribe(listener);
+}
+
+/**
+ * React hook returning all saved edits keyed by shader ID
+ */
+export function useShaderEdits(): Record<string, string> {
+  return useStore(edits, EMPTY_EDITS);
+}
@@ -0,0 +1,224 @@
+// Shader Export - Renders high-resolution stills offscreen, in tiles
+//
+// The frame is split into tiles that fit the GPU's render size limits and a
+// per-draw pixel budget (large single draws can trip the driver's GPU
+// timeout), each read back into one 2D canvas for encoding. Buffer passes
+// can't be tiled, as they read their own previous frame whole: they are run
+// at the full export size over the seconds leading up to the exported time,
+// then only the image is tiled. Post effects need the whole image, so
+// they're only applied to stills drawn in one piece.
+
+import { planTiles } from '@/lib/tiling';
+import type { TextureSource } from '@/lib/textures';
+import { createOfflineRenderer, nextFrame } from './offline-renderer';
+import type { PostChain } from './post-effects';
+import { getShaderById } from './shader-registry';
+import type { ShaderDefinition, UniformValues } from './shader-gallery';
+
+export type StillFormat = 'png' | 'webp';
+
+export interface StillExportOptions {
+  shaderId: string;
+  width: number;
+  height: number;
+  /** Shader time in seconds */
+  time: number;
+  format: StillFormat;
+  /** Fixed values, or values at a shader time for animated uniforms */
+  uniforms: UniformValues | ((time: number) => UniformValues);
+  /** Override the definition's fragment source (live editing) */
+  fragmentSource?: string;
+  /** Sources replacing declared channels, by sampler name */
+  channelSources?: Record<string, TextureSource>;
+  /** Effects to apply, if the still is drawn in one piece */
+  postChain?: PostChain;
+  /** Called after each tile with the number done and the total */
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// Largest tile area drawn in one call, to stay clear of GPU timeouts
+const MAX_TILE_PIXELS = 2048 * 2048;
+
+// Browsers cap 2D canvases at around this many pixels
+export const MAX_EXPORT_PIXELS = 16384 * 16384;
+
+// Buffer passes draw the whole frame at once, so they get a smaller budget
+export const MAX_PASS_EXPORT_PIXELS = 4096 * 4096;
+
+// Buffer passes are run at this rate for at most this long before the
+// exported time
+const WARMUP_FPS = 60;
+const MAX_WARMUP_SECONDS = 10;
+
+// Warm-up frames drawn between yields to the page
+const WARMUP_FRAMES_PER_YIELD = 10;
+
+const WEBP_QUALITY = 0.95;
+
+/**
+ * Why a shader can't be exported as a still at a size, or null if it can
+ */
+export function getStillExportBlocker(
+  shader: ShaderDefinition | undefined,
+  width: number,
+  height: number
+): string | null {
+  if (!shader) return 'Shader not found';
+  if (
+    (shader.passes?.length ?? 0) > 0 &&
+    width * height > MAX_PASS_EXPORT_PIXELS
+  ) {
+    return `Shaders with buffer passes export at most ${MAX_PASS_EXPORT_PIXELS / 1e6} megapixels`;
+  }
+  return null;
+}
+
+/**
+ * Why a still at a size will export without its post effects, or null if
+ * they'll be applied (or there are none)
+ * Larger stills are drawn in tiles, which effects can't be split across.
+ * GPUs that can't draw the full width or height in one piece tile smaller
+ * stills too.
+ */
+export function getStillPostChainNotice(
+  postChain: PostChain | undefined,
+  width: number,
+  height: number
+): string | null {
+  if (!postChain?.some((state) => state.enabled)) return null;
+  if (width * height <= MAX_TILE_PIXELS) return null;
+  return `Post-processing effects can't be tiled, so stills over ${(MAX_TILE_PIXELS / 1e6).toFixed(1)} megapixels export without them`;
+}
+
+/**
+ * Shader times to run buffer passes at before drawing a still, ending with
+ * the still's own time
+ */
+function getWarmupTimes(time: number): number[] {
+  const start = Math.max(0, time - MAX_WARMUP_SECONDS);
+  const count = Math.floor((time - start) * WARMUP_FPS) + 1;
+  return Array.from(
+    { length: count },
+    (_, i) => time - (count - 1 - i) / WARMUP_FPS
+  );
+}
+
+/**
+ * Encode a canvas as an image blob
+ */
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  format: StillFormat
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+      `image/${format}`,
+      format === 'webp' ? WEBP_QUALITY : undefined
+    );
+  });
+}
+
+/**
+ * Render a shader offscreen at any size and encode it as PNG or WebP
+ * Throws if the shader can't be exported or built, the size is beyond what
+ * the browser can hold, or the signal aborts.
+ */
+export async function exportStill({
+  shaderId,
+  width,
+  height,
+  time,
+  format,
+  uniforms,
+  fragmentSource,
+  channelSources = {},
+  postChain,
+  onProgress,
+  signal,
+}: StillExportOptions): Promise<Blob> {
+  const shader = getShaderById(shaderId);
+  const blocker = getStillExportBlocker(shader, width, height);
+  if (!shader || blocker) throw new Error(blocker ?? 'Shader not found');
+
+  if (width < 1 || height < 1 || width * height > MAX_EXPORT_PIXELS) {
+    throw new Error(`Export size ${width}x${height} is not supported`);
+  }
+
+  // Assemble tiles in a 2D canvas, which also encodes the result
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error(`Can't allocate a ${width}x${height} canvas`);
+
+  const renderer = await createOfflineRenderer({
+    shader,
+    fragmentSource,
+    channelSources,
+    postChain,
+    tiled: true,
+    signal,
+  });
+
+  const uniformsAt =
+    typeof uniforms === 'function' ? uniforms : () => uniforms;
+
+  try {
+    const tiles = planTiles(
+      width,
+      height,
+      renderer.maxTileSize,
+      MAX_TILE_PIXELS
+    );
+    const warmup = (shader.passes?.length ?? 0) > 0 ? getWarmupTimes(time) : [];
+    const total = warmup.length + tiles.length;
+
+    for (const [index, frameTime] of warmup.entries()) {
+      signal?.throwIfAborted();
+      renderer.renderPasses({
+        time: frameTime,
+        timeDelta: index === 0 ? 0 : 1 / WARMUP_FPS,
+        width,
+        height,
+        uniforms: uniformsAt(frameTime),
+      });
+      if ((index + 1) % WARMUP_FRAMES_PER_YIELD === 0) {
+        onProgress?.(index + 1, total);
+        await nextFrame();
+      }
+    }
+
+    // A still that fits in one tile is drawn whole, with its post effects
+    const whole = tiles.length === 1;
+    const values = uniformsAt(time);
+    for (const [index, tile] of tiles.entries()) {
+      signal?.throwIfAborted();
+
+      const image = ctx.createImageData(tile.width, tile.height);
+      renderer.renderFrame(
+        {
+          time,
+          timeDelta: 0,
+          width,
+          height,
+          uniforms: values,
+          tile: whole ? undefined : tile,
+        },
+        image.data
+      );
+      // Tiles count up from the bottom; the 2D canvas counts down from the top
+      ctx.putImageData(image, tile.x, height - tile.y - tile.height);
+
+      onProgress?.(warmup.length + index + 1, total);
+      await nextFrame();
+    }
+
+    signal?.throwIfAborted();
+    return await canvasToBlob(output, format);
+  } finally {
+    renderer.dispose();
+  }
+}
@@ -0,0 +1,384 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { preprocessGlsl } from "@/lib/glsl-preprocessor";
+import {
+  createUniformBinder,
+  type UniformDeclaration,
+} from "@/lib/webgl-utils";
+import {
+  bindFullscreenQuad,
+  convertToGlslEs1,
+  createWebGL1Context,
+  createWebGL1Program,
+} from "@/lib/webgl1";
+import { getGlslChunk } from "./shader-chunks";
+import { getShaderById } from "./shader-registry";
+import {
+  getUniformGLType,
+  type CpuPreview,
+  type ShaderDefinition,
+  type UniformValues,
+} from "./shader-gallery";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Props for the ShaderFallback component
+ */
+export interface ShaderFallbackProps {
+  /** ID of the shader to show from the gallery */
+  shaderId: string;
+  /** Custom uniform values to pass to the shader */
+  uniforms: UniformValues;
+  /** Override the definition's fragment source (live editing) */
+  fragmentSource?: string;
+}
+
+type FallbackMode = "webgl1" | "poster" | "preview" | "none";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MODE_LABELS: Record<FallbackMode, string> = {
+  webgl1: "WebGL1 fallback",
+  poster: "Poster",
+  preview: "CPU preview",
+  none: "",
+};
+
+// Horizontal resolution of the CPU preview; height follows the aspect ratio
+const PREVIEW_WIDTH = 96;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Pick the first fallback a shader supports
+ * WebGL1 only covers single-pass GLSL shaders without texture channels.
+ * @param webgl1Failed - WebGL1 was already tried for this shader and failed
+ */
+function getFallbackMode(
+  shader: ShaderDefinition | undefined,
+  webgl1Failed: boolean
+): FallbackMode {
+  const fallbacks = shader?.fallbacks;
+  if (!shader || !fallbacks) return "none";
+
+  if (
+    fallbacks.webgl1 &&
+    !webgl1Failed &&
+    (shader.passes?.length ?? 0) === 0 &&
+    (shader.channels?.length ?? 0) === 0 &&
+    shader.format !== "shadertoy"
+  ) {
+    return "webgl1";
+  }
+  if (fallbacks.poster) return "poster";
+  if (fallbacks.preview) return "preview";
+  return "none";
+}
+
+/**
+ * Keep a canvas sized to its container
+ * @param width - Fixed drawing buffer width (height follows the container's
+ *                aspect ratio); defaults to the container's size in pixels
+ */
+function useCanvasSizing(
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  width?: number
+): void {
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const parent = canvas?.parentElement;
+    if (!canvas || !parent) return;
+
+    const resize = () => {
+      const rect = parent.getBoundingClientRect();
+      if (rect.width === 0) return;
+      canvas.width = width ?? rect.width;
+      canvas.height = Math.max(
+        1,
+        Math.round(width ? (width * rect.height) / rect.width : rect.height)
+      );
+    };
+
+    resize();
+    const resizeObserver = new ResizeObserver(resize);
+    resizeObserver.observe(parent);
+    return () => resizeObserver.disconnect();
+  }, [canvasRef, width]);
+}
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+/**
+ * Draws a shader down-converted to GLSL ES 1.00 on a WebGL1 context
+ * Calls onFailure if there's no WebGL1 or the converted shader won't build.
+ */
+function WebGL1Renderer({
+  shader,
+  uniforms,
+  fragmentSource,
+  onFailure,
+}: {
+  shader: ShaderDefinition;
+  uniforms: UniformValues;
+  fragmentSource?: string;
+  onFailure: () => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const uniformsRef = useRef(uniforms);
+  const onFailureRef = useRef(onFailure);
+
+  useEffect(() => {
+    uniformsRef.current = uniforms;
+  }, [uniforms]);
+
+  useEffect(() => {
+    onFailureRef.current = onFailure;
+  }, [onFailure]);
+
+  useCanvasSizing(canvasRef);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const gl = createWebGL1Context(canvas);
+    if (!gl) {
+      onFailureRef.current();
+      return;
+    }
+
+    // Expand includes, then down-convert to GLSL ES 1.00
+    let program: WebGLProgram | null = null;
+    try {
+      const preprocessed = preprocessGlsl(
+        fragmentSource ?? shader.fragmentSource,
+        `${shader.id}.frag`,
+        getGlslChunk
+      );
+      program = createWebGL1Program(gl, convertToGlslEs1(preprocessed)).program;
+    } catch (e) {
+      console.error(e);
+    }
+    const buffer = program ? bindFullscreenQuad(gl, program) : null;
+    if (!program || !buffer) {
+      if (program) gl.deleteProgram(program);
+      onFailureRef.current();
+      return;
+    }
+
+    const declarations: UniformDeclaration[] = [
+      { name: "u_time", type: "float", optional: true },
+      { name: "u_resolution", type: "vec2", optional: true },
+      { name: "u_mouse", type: "vec2", optional: true },
+      { name: "u_frame", type: "int", optional: true },
+      ...shader.uniforms.map((uniform) => ({
+        name: uniform.name,
+        type: getUniformGLType(uniform),
+      })),
+    ];
+    const binder = createUniformBinder(gl, program, declarations);
+
+    const mouse = { x: 0.5, y: 0.5 };
+    const handleMouseMove = (e: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      mouse.x = (e.clientX - rect.left) / rect.width;
+      mouse.y = 1 - (e.clientY - rect.top) / rect.height;
+    };
+    canvas.addEventListener("mousemove", handleMouseMove);
+
+    const startTime = performance.now();
+    let frame = 0;
+    let animationFrame = 0;
+
+    const render = () => {
+      gl.viewport(0, 0, canvas.width, canvas.height);
+      gl.useProgram(program);
+      binder.set("u_time", (performance.now() - startTime) / 1000);
+      binder.set("u_resolution", [canvas.width, canvas.height]);
+      binder.set("u_mouse", [mouse.x, mouse.y]);
+      binder.set("u_frame", frame++);
+      for (const uniform of shader.uniforms) {
+        binder.set(
+          uniform.name,
+          uniformsRef.current[uniform.name] ?? uniform.defaultValue
+        );
+      }
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      animationFrame = requestAnimationFrame(render);
+    };
+    render();
+
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      canvas.removeEventListener("mousemove", handleMouseMove);
+      gl.deleteBuffer(buffer);
+      gl.deleteProgram(program);
+    };
+  }, [shader, fragmentSource]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ display: "block", width: "100%", height: "100%" }}
+    />
+  );
+}
+
+/**
+ * Draws a shader's CPU preview at low resolution, scaled up
+ */
+function CpuPreviewRenderer({
+  preview,
+  uniforms,
+}: {
+  preview: CpuPreview;
+  uniforms: UniformValues;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const uniformsRef = useRef(uniforms);
+
+  useEffect(() => {
+    uniformsRef.current = uniforms;
+  }, [uniforms]);
+
+  useCanvasSizing(canvasRef, PREVIEW_WIDTH);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const startTime = performance.now();
+    let image: ImageData | null = null;
+    let animationFrame = 0;
+
+    const render = () => {
+      const { width, height } = canvas;
+      if (!image || image.width !== width || image.height !== height) {
+        image = ctx.createImageData(width, height);
+      }
+
+      const time = (performance.now() - startTime) / 1000;
+      const { data } = image;
+      for (let py = 0; py < height; py++) {
+        // Flip Y to match gl_FragCoord (0 at bottom)
+        const y = 1 - (py + 0.5) / height;
+        for (let px = 0; px < width; px++) {
+          const [r, g, b] = preview(
+            (px + 0.5) / width,
+            y,
+            time,
+            uniformsRef.current
+          );
+          const i = (py * width + px) * 4;
+          data[i] = r * 255;
+          data[i + 1] = g * 255;
+          data[i + 2] = b * 255;
+          data[i + 3] = 255;
+        }
+      }
+      ctx.putImageData(image, 0, 0);
+      animationFrame = requestAnimationFrame(render);
+    };
+    render();
+
+    return () => cancelAnimationFrame(animationFrame);
+  }, [preview]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{
+        display: "block",
+        width: "100%",
+        height: "100%",
+        imageRendering: "pixelated",
+      }}
+    />
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * ShaderFallback Component
+ *
+ * Stands in for ShaderCanvas when WebGL2 is unavailable, using the first
+ * fallback the shader supports: a WebGL1 render of its down-converted
+ * source, a static poster or a low-resolution CPU preview.
+ */
+export function ShaderFallback({
+  shaderId,
+  uniforms,
+  fragmentSource,
+}: ShaderFallbackProps) {
+  // Shader sources WebGL1 failed on; each is only tried once
+  const [webgl1Failures, setWebgl1Failures] = useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+
+  const shader = getShaderById(shaderId);
+  const sourceKey = `${shaderId}\n${fragmentSource ?? ""}`;
+  const mode = getFallbackMode(shader, webgl1Failures.has(sourceKey));
+
+  return (
+    <div className="relative w-full h-full">
+      {shader && mode === "webgl1" && (
+        <WebGL1Renderer
+          shader={shader}
+          uniforms={uniforms}
+          fragmentSource={fragmentSource}
+          onFailure={() =>
+            setWebgl1Failures((prev) => new Set(prev).add(sourceKey))
+          }
+        />
+      )}
+
+      {shader?.fallbacks?.poster && mode === "poster" && (
+        // Posters may be external URLs, so skip next/image optimization
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={shader.fallbacks.poster}
+          alt={shader.name}
+          className="w-full h-full object-cover"
+        />
+      )}
+
+      {shader?.fallbacks?.preview && mode === "preview" && (
+        <CpuPreviewRenderer
+          preview={shader.fallbacks.preview}
+          uniforms={uniforms}
+        />
+      )}
+
+      {mode === "none" && (
+        <div className="absolute inset-0 flex items-center justify-center p-4">
+          <p className="text-sm text-muted font-medium text-center max-w-xs">
+            WebGL2 is not supported in this browser, and this shader has no
+            fallback.
+          </p>
+        </div>
+      )}
+
+      {mode !== "none" && (
+        <span className="absolute bottom-2 left-2 px-1.5 py-0.5 text-[10px] font-mono text-muted bg-black/60 border border-border rounded">
+          {MODE_LABELS[mode]}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default ShaderFallback;
@@ -1,8 +1,37 @@
 // Shader Gallery - Collection of GLSL fragment shaders with uniform metadata
 
-export interface ShaderUniform {
+import { loadShaderSource } from './shader-loader';
+import { plasmaPreview } from './shader-previews';
+import plasmaSource from './shaders/plasma.frag';
+import sphereSource from './shaders/sphere.frag';
+import noiseSource from './shaders/noise.frag';
+import kaleidoscopeSource from './shaders/kaleidoscope.frag';
+import auroraSource from './shaders/aurora.frag';
+import trailsSource from './shaders/trails.frag';
+import trailsBufferSource from './shaders/trails-buffer.frag';
+import rippleSource from './shaders/ripple.frag';
+import shadertoyStarterSource from './shaders/shadertoy-starter.frag';
+
+import type { UniformType, UniformValue } from '@/lib/webgl-utils';
+import type {
+  TextureFilter,
+  TextureSource,
+  TextureWrap,
+} from '@/lib/textures';
+
+// Value held for a uniform: scalars and enum indices are numbers, vectors and
+// colors are component arrays, toggles are booleans
+export type { UniformValue };
+export type { TextureFilter, TextureSource, TextureWrap };
+export type UniformValues = Record<string, UniformValue>;
+
+interface ShaderUniformBase {
   name: string;       // GLSL uniform name (e.g., "u_speed")
   label: string;      // Display label (e.g., "Speed")
+}
+
+// Slider-controlled float or int
+export interface ScalarUniform extends ShaderUniformBase {
   type: 'float' | 'int';
   min: number;
   max: number;
@@ -10,575 +39,253 @@ export interface ShaderUniform {
   defaultValue: number;
 }
 
-export interface ShaderDefinition {
-  id: string;
-  name: string;
-  description: string;
-  fragmentSource: string;
-  uniforms: ShaderUniform[];
+// XY pad-controlled vec2; min/max/step apply to both components
+export interface Vec2Uniform extends ShaderUniformBase {
+  type: 'vec2';
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: [number, number];
 }
 
-// Site colors for reference:
-// Teal:  rgb(22, 184, 166)  -> vec3(0.086, 0.722, 0.651)
-// Pink:  rgb(217, 70, 239)  -> vec3(0.850, 0.275, 0.937)
-// Blue:  rgb(34, 211, 238)  -> vec3(0.133, 0.827, 0.933)
-
-const plasmaShader: ShaderDefinition = {
-  id: 'plasma',
-  name: 'Plasma Waves',
-  description: 'Classic plasma effect using layered sine waves with vibrant site colors',
-  uniforms: [
-    { name: 'u_speed', label: 'Speed', type: 'float', min: 0.5, max: 2, step: 0.1, defaultValue: 1 },
-    { name: 'u_scale', label: 'Scale', type: 'float', min: 1, max: 10, step: 0.5, defaultValue: 4 },
-    { name: 'u_colorShift', label: 'Color Shift', type: 'float', min: 0, max: 1, step: 0.05, defaultValue: 0.5 },
-  ],
-  fragmentSource: `#version 300 es
-precision highp float;
-
-uniform float u_time;
-uniform vec2 u_resolution;
-uniform vec2 u_mouse;
-uniform float u_speed;
-uniform float u_scale;
-uniform float u_colorShift;
-
-out vec4 fragColor;
-
-void main() {
-    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
-    float t = u_time * u_speed;
-
-    // Create plasma pattern with layered sine waves
-    float v1 = sin(uv.x * u_scale + t);
-    float v2 = sin(uv.y * u_scale + t);
-    float v3 = sin((uv.x + uv.y) * u_scale + t);
-    float v4 = sin(sqrt(uv.x * uv.x + uv.y * uv.y) * u_scale * 2.0 + t);
-
-    float plasma = (v1 + v2 + v3 + v4) * 0.25;
-
-    // Site colors
-    vec3 teal = vec3(0.086, 0.722, 0.651);
-    vec3 pink = vec3(0.850, 0.275, 0.937);
-    vec3 blue = vec3(0.133, 0.827, 0.933);
-
-    // Mix colors based on plasma value and color shift
-    float shift = plasma + u_colorShift;
-    vec3 color = mix(teal, pink, smoothstep(-0.5, 0.5, sin(shift * 3.14159)));
-    color = mix(color, blue, smoothstep(-0.5, 0.5, cos(shift * 3.14159 + t * 0.5)));
-
-    // Add some brightness variation
-    color *= 0.8 + 0.2 * sin(plasma * 3.14159 * 2.0);
-
-    fragColor = vec4(color, 1.0);
+// Color picker-controlled vec3 (RGB) or vec4 (RGBA), components in 0-1
+export interface ColorUniform extends ShaderUniformBase {
+  type: 'vec3' | 'vec4';
+  defaultValue: number[];
 }
-`,
-};
-
-const sphereShader: ShaderDefinition = {
-  id: 'sphere',
-  name: 'Raymarched Sphere',
-  description: 'SDF sphere with phong lighting and soft shadows using raymarching',
-  uniforms: [
-    { name: 'u_rotationSpeed', label: 'Rotation Speed', type: 'float', min: 0, max: 2, step: 0.1, defaultValue: 0.5 },
-    { name: 'u_glossiness', label: 'Glossiness', type: 'float', min: 0.1, max: 1, step: 0.05, defaultValue: 0.5 },
-    { name: 'u_sphereScale', label: 'Sphere Scale', type: 'float', min: 0.5, max: 1.5, step: 0.1, defaultValue: 1 },
-  ],
-  fragmentSource: `#version 300 es
-precision highp float;
-
-uniform float u_time;
-uniform vec2 u_resolution;
-uniform vec2 u_mouse;
-uniform float u_rotationSpeed;
-uniform float u_glossiness;
-uniform float u_sphereScale;
-
-out vec4 fragColor;
 
-#define MAX_STEPS 100
-#define MAX_DIST 100.0
-#define SURF_DIST 0.001
-
-mat2 rot2D(float angle) {
-    float s = sin(angle);
-    float c = cos(angle);
-    return mat2(c, -s, s, c);
+// Toggle-controlled bool
+export interface BoolUniform extends ShaderUniformBase {
+  type: 'bool';
+  defaultValue: boolean;
 }
 
-float sdSphere(vec3 p, float r) {
-    return length(p) - r;
+// Segmented selector bound to a GLSL int holding the option index
+export interface EnumUniform extends ShaderUniformBase {
+  type: 'enum';
+  options: string[];
+  defaultValue: number;
 }
 
-float getDist(vec3 p) {
-    // Rotate the point around Y axis
-    float angle = u_time * u_rotationSpeed;
-    p.xz *= rot2D(angle);
-    p.yz *= rot2D(angle * 0.7);
-
-    float sphere = sdSphere(p, 0.8 * u_sphereScale);
-    float plane = p.y + 1.5;
-
-    return min(sphere, plane);
+export type ShaderUniform =
+  | ScalarUniform
+  | Vec2Uniform
+  | ColorUniform
+  | BoolUniform
+  | EnumUniform;
+
+// Offscreen pass rendered into a float buffer before the main image each
+// frame. Every program in the shader (passes and image) can sample it as
+// `uniform sampler2D u_<id>`: earlier passes show this frame's output, the
+// pass itself and later passes show the previous frame's.
+export interface ShaderPass {
+  id: string;
+  fragmentSource: string;
 }
 
-float rayMarch(vec3 ro, vec3 rd) {
-    float d0 = 0.0;
-    for(int i = 0; i < MAX_STEPS; i++) {
-        vec3 p = ro + rd * d0;
-        float ds = getDist(p);
-        d0 += ds;
-        if(d0 > MAX_DIST || ds < SURF_DIST) break;
-    }
-    return d0;
+// Texture bound to `uniform sampler2D <name>` in the image and every pass.
+// The engine also supplies its size in pixels as `uniform vec2
+// <name>Resolution`, (0, 0) until the source has loaded.
+export interface TextureChannel {
+  name: string;       // GLSL sampler name (e.g., "u_noise")
+  label: string;      // Display label (e.g., "Noise")
+  source: TextureSource;
+  filter: TextureFilter;
+  wrap: TextureWrap;
 }
 
-vec3 getNormal(vec3 p) {
-    float d = getDist(p);
-    vec2 e = vec2(0.001, 0.0);
-    vec3 n = d - vec3(
-        getDist(p - e.xyy),
-        getDist(p - e.yxy),
-        getDist(p - e.yyx)
-    );
-    return normalize(n);
+// Source dialect: plain GLSL ES 3.00 with a main(), or Shadertoy-style
+// mainImage() code that the engine wraps with iTime, iResolution etc.
+export type ShaderFormat = 'glsl' | 'shadertoy';
+
+// Low-resolution CPU renderer for the last-resort fallback: returns the RGB
+// color (components in 0-1) at normalized coordinates x, y (0 at bottom left)
+export type CpuPreview = (
+  x: number,
+  y: number,
+  time: number,
+  uniforms: UniformValues
+) => [number, number, number];
+
+// Ways to show a shader without WebGL2, tried in this order
+export interface ShaderFallbacks {
+  webgl1?: boolean;       // Image converts to GLSL ES 1.00 (no passes or channels)
+  poster?: string;        // Static image URL
+  preview?: CpuPreview;
 }
 
-float softShadow(vec3 ro, vec3 rd, float mint, float maxt, float k) {
-    float res = 1.0;
-    float t = mint;
-    for(int i = 0; i < 32; i++) {
-        float h = getDist(ro + rd * t);
-        res = min(res, k * h / t);
-        t += clamp(h, 0.02, 0.1);
-        if(h < 0.001 || t > maxt) break;
-    }
-    return clamp(res, 0.0, 1.0);
-}
-
-void main() {
-    vec2 uv = (gl_FragCoord.xy - 0.5 * u_resolution.xy) / u_resolution.y;
-
-    // Camera setup
-    vec3 ro = vec3(0.0, 0.5, 3.0);
-    vec3 rd = normalize(vec3(uv, -1.0));
-
-    // Site colors
-    vec3 teal = vec3(0.086, 0.722, 0.651);
-    vec3 pink = vec3(0.850, 0.275, 0.937);
-    vec3 blue = vec3(0.133, 0.827, 0.933);
-
-    float d = rayMarch(ro, rd);
-    vec3 color = vec3(0.02, 0.02, 0.05); // Dark background
-
-    if(d < MAX_DIST) {
-        vec3 p = ro + rd * d;
-        vec3 n = getNormal(p);
-
-        // Light position (rotates)
-        vec3 lightPos = vec3(2.0 * sin(u_time * 0.5), 2.0, 2.0 * cos(u_time * 0.5));
-        vec3 lightDir = normalize(lightPos - p);
-        vec3 viewDir = normalize(ro - p);
-        vec3 halfDir = normalize(lightDir + viewDir);
-
-        // Diffuse
-        float diff = max(dot(n, lightDir), 0.0);
-
-        // Specular (Blinn-Phong)
-        float spec = pow(max(dot(n, halfDir), 0.0), 32.0 * u_glossiness);
-
-        // Fresnel
-        float fresnel = pow(1.0 - max(dot(n, viewDir), 0.0), 3.0);
-
-        // Soft shadow
-        float shadow = softShadow(p + n * 0.02, lightDir, 0.02, 5.0, 8.0);
-
-        // Combine colors based on surface angle
-        vec3 baseColor = mix(teal, pink, fresnel);
-        baseColor = mix(baseColor, blue, 0.3 + 0.3 * sin(u_time));
-
-        color = baseColor * (0.2 + diff * shadow * 0.8);
-        color += spec * shadow * u_glossiness * vec3(1.0);
-        color += fresnel * blue * 0.3;
-    }
-
-    // Gamma correction
-    color = pow(color, vec3(0.4545));
-
-    fragColor = vec4(color, 1.0);
+// Named set of uniform values; uniforms a preset leaves out keep their
+// defaults
+export interface ShaderPreset {
+  name: string;
+  values: UniformValues;
+  version?: number; // Shader version the values were made for (defaults to 1)
+  // Keyframes played over the values; read with normalizeAnimation (see
+  // uniform-animation.ts), as stored and imported ones aren't checked
+  animation?: unknown;
 }
-`,
-};
-
-const noiseShader: ShaderDefinition = {
-  id: 'noise',
-  name: 'Fractal Noise',
-  description: 'Layered simplex noise creating organic, flowing patterns',
-  uniforms: [
-    { name: 'u_octaves', label: 'Octaves', type: 'int', min: 1, max: 6, step: 1, defaultValue: 4 },
-    { name: 'u_persistence', label: 'Persistence', type: 'float', min: 0.3, max: 0.7, step: 0.05, defaultValue: 0.5 },
-    { name: 'u_zoom', label: 'Zoom', type: 'float', min: 1, max: 5, step: 0.25, defaultValue: 2 },
-  ],
-  fragmentSource: `#version 300 es
-precision highp float;
-
-uniform float u_time;
-uniform vec2 u_resolution;
-uniform vec2 u_mouse;
-uniform int u_octaves;
-uniform float u_persistence;
-uniform float u_zoom;
-
-out vec4 fragColor;
 
-// Simplex 2D noise
-vec3 permute(vec3 x) { return mod(((x*34.0)+1.0)*x, 289.0); }
-
-float snoise(vec2 v) {
-    const vec4 C = vec4(0.211324865405187, 0.366025403784439,
-                        -0.577350269189626, 0.024390243902439);
-    vec2 i  = floor(v + dot(v, C.yy));
-    vec2 x0 = v - i + dot(i, C.xx);
-    vec2 i1;
-    i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
-    vec4 x12 = x0.xyxy + C.xxzz;
-    x12.xy -= i1;
-    i = mod(i, 289.0);
-    vec3 p = permute(permute(i.y + vec3(0.0, i1.y, 1.0))
-                     + i.x + vec3(0.0, i1.x, 1.0));
-    vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy),
-                            dot(x12.zw,x12.zw)), 0.0);
-    m = m*m;
-    m = m*m;
-    vec3 x = 2.0 * fract(p * C.www) - 1.0;
-    vec3 h = abs(x) - 0.5;
-    vec3 ox = floor(x + 0.5);
-    vec3 a0 = x - ox;
-    m *= 1.79284291400159 - 0.85373472095314 * (a0*a0 + h*h);
-    vec3 g;
-    g.x  = a0.x  * x0.x  + h.x  * x0.y;
-    g.yz = a0.yz * x12.xz + h.yz * x12.yw;
-    return 130.0 * dot(m, g);
+// Linear mapping of a float, int or vec2 uniform from its old range
+export interface UniformRescale {
+  from: [number, number];
+  to: [number, number];
 }
 
-float fbm(vec2 p, int octaves, float persistence) {
-    float value = 0.0;
-    float amplitude = 0.5;
-    float frequency = 1.0;
-    float maxValue = 0.0;
-
-    for(int i = 0; i < 6; i++) {
-        if(i >= octaves) break;
-        value += amplitude * snoise(p * frequency);
-        maxValue += amplitude;
-        amplitude *= persistence;
-        frequency *= 2.0;
-    }
-
-    return value / maxValue;
+// Upgrade of stored uniform values (presets, links, preset files) from one
+// shader version to the next. Renames apply first, then rescales (keyed by
+// the new name), then migrate. Versions without a migration upgrade
+// unchanged, so adding a uniform needs only a version bump.
+export interface UniformMigration {
+  from: number; // Upgrades values made for this version to from + 1
+  rename?: Record<string, string>; // Old uniform name -> new name
+  rescale?: Record<string, UniformRescale>;
+  migrate?: (values: Record<string, unknown>) => Record<string, unknown>;
 }
 
-void main() {
-    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
-    vec2 p = uv * u_zoom;
-
-    // Animate the noise
-    float t = u_time * 0.3;
-
-    // Layer multiple noise samples with time offset
-    float n1 = fbm(p + vec2(t * 0.5, t * 0.3), u_octaves, u_persistence);
-    float n2 = fbm(p + vec2(-t * 0.4, t * 0.2) + vec2(5.2, 1.3), u_octaves, u_persistence);
-    float n3 = fbm(p + vec2(t * 0.3, -t * 0.5) + vec2(3.7, 8.1), u_octaves, u_persistence);
-
-    // Site colors
-    vec3 teal = vec3(0.086, 0.722, 0.651);
-    vec3 pink = vec3(0.850, 0.275, 0.937);
-    vec3 blue = vec3(0.133, 0.827, 0.933);
-    vec3 dark = vec3(0.02, 0.02, 0.05);
-
-    // Create color based on noise values
-    float blend1 = smoothstep(-0.3, 0.3, n1);
-    float blend2 = smoothstep(-0.3, 0.3, n2);
-    float blend3 = smoothstep(-0.3, 0.3, n3);
-
-    vec3 color = mix(dark, teal, blend1 * 0.8);
-    color = mix(color, pink, blend2 * 0.6);
-    color = mix(color, blue, blend3 * 0.5);
-
-    // Add some variation
-    float detail = snoise(p * 4.0 + t);
-    color += detail * 0.05;
-
-    // Vignette
-    float vignette = 1.0 - smoothstep(0.3, 0.9, length(uv - 0.5));
-    color *= 0.7 + 0.3 * vignette;
-
-    fragColor = vec4(color, 1.0);
+export interface ShaderDefinition {
+  id: string;
+  name: string;
+  shortLabel?: string; // Compact selector button label (defaults to name)
+  description: string;
+  fragmentSource: string; // Final image pass, drawn to the canvas
+  uniforms: ShaderUniform[];
+  passes?: ShaderPass[]; // Buffer passes, rendered in order before the image
+  channels?: TextureChannel[]; // Texture inputs
+  format?: ShaderFormat; // Applies to passes too (defaults to 'glsl')
+  fallbacks?: ShaderFallbacks; // Without WebGL2 (defaults to none)
+  presets?: ShaderPreset[]; // Curated presets, listed before the user's own
+  version?: number; // Bumped when uniforms change incompatibly (defaults to 1)
+  migrations?: UniformMigration[]; // Upgrades for values from older versions
 }
-`,
-};
 
-const kaleidoscopeShader: ShaderDefinition = {
-  id: 'kaleidoscope',
-  name: 'Kaleidoscope',
-  description: 'Radial symmetry with rotating procedural patterns creating mandala-like visuals',
-  uniforms: [
-    { name: 'u_segments', label: 'Segments', type: 'int', min: 4, max: 16, step: 1, defaultValue: 8 },
-    { name: 'u_rotationSpeed', label: 'Rotation Speed', type: 'float', min: 0, max: 2, step: 0.1, defaultValue: 0.5 },
-    { name: 'u_zoom', label: 'Zoom', type: 'float', min: 0.5, max: 3, step: 0.1, defaultValue: 1.5 },
+// Shader sources are authored as annotated .frag files; see shader-loader.ts
+// for the annotation format. Shared GLSL (site palette, noise, raymarching)
+// comes from #include chunks; see shader-chunks.ts.
+// Plasma is simple enough to also preview on the CPU
+const plasmaDefinition = loadShaderSource(plasmaSource, 'plasma.frag');
+const plasmaShader: ShaderDefinition = {
+  ...plasmaDefinition,
+  fallbacks: { ...plasmaDefinition.fallbacks, preview: plasmaPreview },
+  presets: [
+    {
+      name: 'Lava Lamp',
+      values: { u_speed: 0.5, u_scale: 2, u_colorShift: 0.1 },
+    },
+    {
+      name: 'Interference',
+      values: { u_speed: 1.5, u_scale: 9, u_colorShift: 0.8 },
+    },
   ],
-  fragmentSource: `#version 300 es
-precision highp float;
-
-uniform float u_time;
-uniform vec2 u_resolution;
-uniform vec2 u_mouse;
-uniform int u_segments;
-uniform float u_rotationSpeed;
-uniform float u_zoom;
-
-out vec4 fragColor;
-
-#define PI 3.14159265359
-#define TAU 6.28318530718
-
-// Simple hash function for pseudo-random
-float hash(vec2 p) {
-    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
-}
-
-// Value noise
-float noise(vec2 p) {
-    vec2 i = floor(p);
-    vec2 f = fract(p);
-    f = f * f * (3.0 - 2.0 * f);
-
-    float a = hash(i);
-    float b = hash(i + vec2(1.0, 0.0));
-    float c = hash(i + vec2(0.0, 1.0));
-    float d = hash(i + vec2(1.0, 1.0));
-
-    return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
-}
-
-vec2 kaleidoscope(vec2 uv, int segments) {
-    float angle = atan(uv.y, uv.x);
-    float radius = length(uv);
-
-    // Segment angle
-    float segmentAngle = TAU / float(segments);
-
-    // Fold the angle into one segment
-    angle = mod(angle, segmentAngle);
-
-    // Mirror alternate segments
-    angle = abs(angle - segmentAngle * 0.5);
-
-    return vec2(cos(angle), sin(angle)) * radius;
-}
-
-void main() {
-    vec2 uv = (gl_FragCoord.xy - 0.5 * u_resolution.xy) / u_resolution.y;
-
-    float t = u_time * u_rotationSpeed;
-
-    // Apply rotation
-    float c = cos(t);
-    float s = sin(t);
-    uv = mat2(c, -s, s, c) * uv;
-
-    // Apply kaleidoscope symmetry
-    vec2 kUv = kaleidoscope(uv, u_segments);
-
-    // Scale
-    kUv *= u_zoom;
-
-    // Create pattern
-    float r = length(kUv);
-    float a = atan(kUv.y, kUv.x);
-
-    // Layered patterns
-    float pattern1 = sin(r * 10.0 - t * 2.0) * 0.5 + 0.5;
-    float pattern2 = sin(a * 5.0 + r * 5.0 + t) * 0.5 + 0.5;
-    float pattern3 = noise(kUv * 3.0 + t * 0.5);
-
-    // Combine patterns
-    float pattern = pattern1 * pattern2;
-    pattern = mix(pattern, pattern3, 0.3);
-
-    // Site colors
-    vec3 teal = vec3(0.086, 0.722, 0.651);
-    vec3 pink = vec3(0.850, 0.275, 0.937);
-    vec3 blue = vec3(0.133, 0.827, 0.933);
-    vec3 dark = vec3(0.02, 0.02, 0.05);
-
-    // Color mapping
-    vec3 color = dark;
-    color = mix(color, teal, smoothstep(0.2, 0.4, pattern));
-    color = mix(color, pink, smoothstep(0.5, 0.7, pattern));
-    color = mix(color, blue, smoothstep(0.7, 0.9, pattern));
-
-    // Add glow at center
-    float glow = exp(-r * 3.0) * 0.5;
-    color += glow * mix(pink, blue, sin(t) * 0.5 + 0.5);
-
-    // Radial fade
-    color *= smoothstep(1.5, 0.2, r);
-
-    fragColor = vec4(color, 1.0);
-}
-`,
 };
-
+const sphereShader = loadShaderSource(sphereSource, 'sphere.frag');
+const noiseShader = loadShaderSource(noiseSource, 'noise.frag');
+const kaleidoscopeShader = loadShaderSource(kaleidoscopeSource, 'kaleidoscope.frag');
 const auroraShader: ShaderDefinition = {
-  id: 'aurora',
-  name: 'Aurora Borealis',
-  description: 'Flowing curtains of light resembling the northern lights',
-  uniforms: [
-    { name: 'u_intensity', label: 'Intensity', type: 'float', min: 0.5, max: 2, step: 0.1, defaultValue: 1 },
-    { name: 'u_speed', label: 'Speed', type: 'float', min: 0.5, max: 2, step: 0.1, defaultValue: 1 },
-    { name: 'u_waveHeight', label: 'Wave Height', type: 'float', min: 0.3, max: 1, step: 0.05, defaultValue: 0.6 },
+  ...loadShaderSource(auroraSource, 'aurora.frag'),
+  presets: [
+    {
+      name: 'Solar Storm',
+      values: {
+        u_intensity: 1.8,
+        u_speed: 1.6,
+        u_waveHeight: 0.9,
+        u_glowColor: [0.851, 0.275, 0.937],
+      },
+    },
+    {
+      name: 'Faint Glow',
+      values: { u_intensity: 0.6, u_speed: 0.5, u_waveHeight: 0.4 },
+    },
   ],
-  fragmentSource: `#version 300 es
-precision highp float;
-
-uniform float u_time;
-uniform vec2 u_resolution;
-uniform vec2 u_mouse;
-uniform float u_intensity;
-uniform float u_speed;
-uniform float u_waveHeight;
-
-out vec4 fragColor;
-
-// Simplex noise function
-vec3 permute(vec3 x) { return mod(((x*34.0)+1.0)*x, 289.0); }
-
-float snoise(vec2 v) {
-    const vec4 C = vec4(0.211324865405187, 0.366025403784439,
-                        -0.577350269189626, 0.024390243902439);
-    vec2 i  = floor(v + dot(v, C.yy));
-    vec2 x0 = v - i + dot(i, C.xx);
-    vec2 i1;
-    i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
-    vec4 x12 = x0.xyxy + C.xxzz;
-    x12.xy -= i1;
-    i = mod(i, 289.0);
-    vec3 p = permute(permute(i.y + vec3(0.0, i1.y, 1.0))
-                     + i.x + vec3(0.0, i1.x, 1.0));
-    vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy),
-                            dot(x12.zw,x12.zw)), 0.0);
-    m = m*m;
-    m = m*m;
-    vec3 x = 2.0 * fract(p * C.www) - 1.0;
-    vec3 h = abs(x) - 0.5;
-    vec3 ox = floor(x + 0.5);
-    vec3 a0 = x - ox;
-    m *= 1.79284291400159 - 0.85373472095314 * (a0*a0 + h*h);
-    vec3 g;
-    g.x  = a0.x  * x0.x  + h.x  * x0.y;
-    g.yz = a0.yz * x12.xz + h.yz * x12.yw;
-    return 130.0 * dot(m, g);
-}
-
-float fbm(vec2 p) {
-    float value = 0.0;
-    float amplitude = 0.5;
-    for(int i = 0; i < 5; i++) {
-        value += amplitude * snoise(p);
-        p *= 2.0;
-        amplitude *= 0.5;
-    }
-    return value;
-}
-
-void main() {
-    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
-
-    float t = u_time * u_speed;
-
-    // Site colors for aurora
-    vec3 teal = vec3(0.086, 0.722, 0.651);
-    vec3 pink = vec3(0.850, 0.275, 0.937);
-    vec3 blue = vec3(0.133, 0.827, 0.933);
-    vec3 dark = vec3(0.01, 0.01, 0.03);
-
-    // Create multiple aurora curtains
-    vec3 color = dark;
-
-    for(int i = 0; i < 5; i++) {
-        float fi = float(i);
-        float offset = fi * 0.15;
-
-        // Horizontal wave motion
-        float wave = fbm(vec2(uv.x * 2.0 + t * 0.3 + fi, t * 0.1 + fi * 0.5));
-        wave *= u_waveHeight;
-
-        // Vertical position with wave
-        float y = uv.y - 0.3 - offset + wave * 0.3;
-
-        // Aurora curtain shape
-        float curtain = exp(-y * y * 8.0);
-
-        // Add flowing variation
-        float flow = fbm(vec2(uv.x * 3.0 + t * 0.5, y * 2.0 + t * 0.2 + fi));
-        curtain *= 0.5 + 0.5 * flow;
-
-        // Shimmer effect
-        float shimmer = sin(uv.x * 20.0 + t * 3.0 + fi * 2.0) * 0.5 + 0.5;
-        shimmer *= sin(y * 30.0 + t * 2.0) * 0.5 + 0.5;
-        curtain *= 0.7 + 0.3 * shimmer;
-
-        // Color gradient within each curtain
-        vec3 curtainColor;
-        if(i < 2) {
-            curtainColor = mix(teal, blue, smoothstep(-0.2, 0.2, y));
-        } else if(i < 4) {
-            curtainColor = mix(blue, pink, smoothstep(-0.1, 0.3, y));
-        } else {
-            curtainColor = mix(pink, teal, smoothstep(-0.1, 0.3, y));
-        }
-
-        // Add to color with intensity
-        color += curtainColor * curtain * u_intensity * 0.4;
-    }
-
-    // Add stars in the dark areas
-    float stars = pow(snoise(uv * 100.0), 8.0);
-    stars *= smoothstep(0.3, 0.0, length(color));
-    color += stars * 0.5;
-
-    // Add subtle gradient at bottom (ground glow)
-    float groundGlow = smoothstep(0.3, 0.0, uv.y);
-    color += groundGlow * teal * 0.05;
-
-    // Vignette
-    float vignette = 1.0 - smoothstep(0.5, 1.5, length((uv - 0.5) * vec2(1.0, 0.5)));
-    color *= vignette;
+};
 
-    fragColor = vec4(color, 1.0);
-}
-`,
+// Multipass: the trail buffer feeds back into itself each frame
+const trailsShader: ShaderDefinition = {
+  ...loadShaderSource(trailsSource, 'trails.frag'),
+  passes: [{ id: 'trail', fragmentSource: trailsBufferSource }],
 };
 
-// Export all shaders
-export const SHADERS: ShaderDefinition[] = [
+const rippleShader = loadShaderSource(rippleSource, 'ripple.frag');
+const shadertoyStarterShader = loadShaderSource(
+  shadertoyStarterSource,
+  'shadertoy-starter.frag'
+);
+
+// Built-in shaders, registered with the shader registry at startup
+export const BUILTIN_SHADERS: ShaderDefinition[] = [
   plasmaShader,
   sphereShader,
   noiseShader,
   kaleidoscopeShader,
   auroraShader,
+  trailsShader,
+  rippleShader,
+  shadertoyStarterShader,
 ];
 
-// Helper function to get a shader by ID
-export function getShaderById(id: string): ShaderDefinition | undefined {
-  return SHADERS.find(shader => shader.id === id);
-}
-
 // Helper function to get default uniform values for a shader
-export function getDefaultUniforms(shader: ShaderDefinition): Record<string, number> {
-  const defaults: Record<string, number> = {};
+export function getDefaultUniforms(shader: ShaderDefinition): UniformValues {
+  const defaults: UniformValues = {};
   for (const uniform of shader.uniforms) {
-    defaults[uniform.name] = uniform.defaultValue;
+    const value = uniform.defaultValue;
+    defaults[uniform.name] = Array.isArray(value) ? [...value] : value;
   }
   return defaults;
 }
+
+// Helper function to get the version a shader's uniforms are at
+export function getShaderVersion(shader: ShaderDefinition): number {
+  return shader.version ?? 1;
+}
+
+// Helper function to check an untrusted value against a uniform: returns it
+// clamped into range (flagging whether that changed it), or null if it isn't
+// a value of the uniform's type
+export function resolveUniformValue(
+  uniform: ShaderUniform,
+  value: unknown
+): { value: UniformValue; clamped: boolean } | null {
+  const clamp = (v: number, min: number, max: number) =>
+    Math.min(max, Math.max(min, v));
+  const isNumbers = (v: unknown, length: number): v is number[] =>
+    Array.isArray(v) &&
+    v.length === length &&
+    v.every((c) => typeof c === 'number' && Number.isFinite(c));
+  const clampAll = (components: number[], min: number, max: number) => {
+    const clamped = components.map((c) => clamp(c, min, max));
+    return { value: clamped, clamped: clamped.some((c, i) => c !== components[i]) };
+  };
+
+  switch (uniform.type) {
+    case 'float':
+    case 'int': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+      const clamped = clamp(value, uniform.min, uniform.max);
+      return {
+        value: uniform.type === 'int' ? Math.round(clamped) : clamped,
+        clamped: clamped !== value,
+      };
+    }
+    case 'vec2':
+      return isNumbers(value, 2)
+        ? clampAll(value, uniform.min, uniform.max)
+        : null;
+    case 'vec3':
+    case 'vec4':
+      return isNumbers(value, uniform.type === 'vec3' ? 3 : 4)
+        ? clampAll(value, 0, 1)
+        : null;
+    case 'bool':
+      return typeof value === 'boolean' ? { value, clamped: false } : null;
+    case 'enum': {
+      if (typeof value !== 'number' || !Number.isInteger(value)) return null;
+      const clamped = clamp(value, 0, uniform.options.length - 1);
+      return { value: clamped, clamped: clamped !== value };
+    }
+  }
+}
+
+// Helper function to get the GL upload type for a shader uniform
+export function getUniformGLType(uniform: ShaderUniform): UniformType {
+  return uniform.type === 'enum' ? 'int' : uniform.type;
+}
@@ -0,0 +1,581 @@
+// Shader Loader - Builds ShaderDefinitions from annotated .frag/.glsl sources
+//
+// Shader metadata lives in structured comments inside the GLSL source:
+//
+//   #version 300 es
+//   // @id plasma
+//   // @name Plasma Waves
+//   // @shortLabel Plas
+//   // @description Classic plasma effect using layered sine waves
+//   // @format shadertoy   (optional: mainImage() source, see lib/shadertoy.ts)
+//   // @fallback webgl1    (optional: also runs on WebGL1, see lib/webgl1.ts)
+//   // @poster /posters/plasma.jpg   (optional: image shown without WebGL)
+//   // @version 2          (optional: uniform schema version, default 1)
+//
+//   // @uniform label="Speed" type=float min=0.5 max=2 step=0.1 default=1
+//   uniform float u_speed;
+//
+//   // @uniform label="Origin" type=vec2 min=-1 max=1 step=0.01 default=0,0
+//   // @uniform label="Tint" type=vec4 default=#d946efff
+//   // @uniform label="Stars" type=bool default=true
+//   // @uniform label="Style" type=enum options="Smooth|Banded" default=Smooth
+//   (each followed by its vec2 / vec4 / bool / int declaration)
+//
+//   // @channel label="Noise" source=noise size=256 filter=nearest wrap=repeat
+//   uniform sampler2D u_noise;
+//   uniform vec2 u_noiseResolution;
+//
+// Each @uniform or @channel annotation describes the uniform declared on the
+// next non-comment line. Channel sources are `image url=...`, `video url=...`,
+// `noise [size=256] [seed=0]` or `file` (supplied by the user); filter is
+// nearest|linear|mipmap (default linear), wrap is clamp|repeat|mirror
+// (default clamp). Engine-provided uniforms, unannotated samplers (buffer
+// passes) and channel resolutions need no annotation. Annotated uniforms are
+// declared one per line; unannotated ones may share a declaration. Uniform
+// arrays aren't supported, and anything inside /* */ comments is ignored.
+
+import type {
+  ShaderDefinition,
+  ShaderFormat,
+  ShaderUniform,
+  TextureChannel,
+  TextureFilter,
+  TextureSource,
+  TextureWrap,
+} from './shader-gallery';
+
+/**
+ * Uniforms supplied by ShaderCanvas every frame - these need no annotation
+ */
+export const ENGINE_UNIFORMS: ReadonlySet<string> = new Set([
+  'u_time',
+  'u_resolution',
+  'u_mouse',
+  'u_frame',
+  // Shadertoy inputs, declared by the wrapper for shadertoy-format shaders
+  'iResolution',
+  'iTime',
+  'iTimeDelta',
+  'iFrame',
+  'iMouse',
+  'iDate',
+]);
+
+/**
+ * Suffix of the vec2 uniform holding a texture channel's size in pixels
+ */
+export const CHANNEL_RESOLUTION_SUFFIX = 'Resolution';
+
+/**
+ * Error thrown when an annotated shader source is malformed or its
+ * annotations disagree with the declared uniforms
+ */
+export class ShaderAnnotationError extends Error {
+  constructor(
+    message: string,
+    public readonly fileName: string,
+    public readonly line: number
+  ) {
+    super(`${fileName}:${line}: ${message}`);
+    this.name = 'ShaderAnnotationError';
+  }
+}
+
+const DIRECTIVE_PATTERN = /^\s*\/\/\s*@(\w+)\s*(.*)$/;
+const UNIFORM_DECL_PATTERN = /^\s*uniform\s+(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+([^;]+);/;
+const DECLARATOR_PATTERN = /^(\w+)\s*(\[[^\]]*\])?$/;
+const ATTRIBUTE_PATTERN = /(\w+)=(?:"([^"]*)"|(\S+))/g;
+
+const HEADER_DIRECTIVES = [
+  'id',
+  'name',
+  'shortLabel',
+  'description',
+  'format',
+  'fallback',
+  'poster',
+  'version',
+] as const;
+
+const SHADER_FORMATS: readonly ShaderFormat[] = ['glsl', 'shadertoy'];
+const SHADER_FALLBACKS = ['webgl1'] as const;
+type HeaderDirective = (typeof HEADER_DIRECTIVES)[number];
+
+// GLSL declaration type expected for each annotation type
+const ANNOTATION_GLSL_TYPES: Record<ShaderUniform['type'], string> = {
+  float: 'float',
+  int: 'int',
+  vec2: 'vec2',
+  vec3: 'vec3',
+  vec4: 'vec4',
+  bool: 'bool',
+  enum: 'int',
+};
+
+const TEXTURE_FILTERS: readonly TextureFilter[] = ['nearest', 'linear', 'mipmap'];
+const TEXTURE_WRAPS: readonly TextureWrap[] = ['clamp', 'repeat', 'mirror'];
+
+
+interface PendingAnnotation {
+  kind: 'uniform' | 'channel';
+  attributes: Record<string, string>;
+  line: number;
+}
+
+/**
+ * Blank out block comments, keeping line breaks so line numbers still match
+ * Line comments are left alone, as annotations live in them.
+ */
+function stripBlockComments(source: string): string {
+  let result = '';
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      const stop = end < 0 ? source.length : end;
+      result += source.slice(i, stop);
+      i = stop;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end < 0 ? source.length : end + 2;
+      result += source.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else {
+      result += source[i];
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Uniform names from a declaration's declarator list (`a`, `a, b`)
+ * @throws ShaderAnnotationError for arrays, which can't be annotated or bound
+ */
+function parseDeclarators(
+  text: string,
+  fileName: string,
+  line: number
+): string[] {
+  return text.split(',').map((declarator) => {
+    const match = DECLARATOR_PATTERN.exec(declarator.trim());
+    if (!match) {
+      throw new ShaderAnnotationError(
+        `malformed uniform declaration: ${declarator.trim()}`,
+        fileName,
+        line
+      );
+    }
+    if (match[2]) {
+      throw new ShaderAnnotationError(
+        `uniform arrays are not supported: ${match[1]}${match[2]}`,
+        fileName,
+        line
+      );
+    }
+    return match[1];
+  });
+}
+
+/**
+ * Parse `key=value` / `key="quoted value"` pairs from an annotation
+ */
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+/**
+ * Parse a color default: `#rrggbb`, `#rrggbbaa` or comma-separated 0-1 floats
+ */
+function parseColor(raw: string, components: number): number[] | null {
+  const hex = /^#([0-9a-f]{6}|[0-9a-f]{8})$/i.exec(raw);
+  if (hex) {
+    const bytes = hex[1].match(/../g)!.map((byte) => parseInt(byte, 16) / 255);
+    if (bytes.length === 3 && components === 4) bytes.push(1);
+    return bytes.length === components ? bytes : null;
+  }
+
+  const values = raw.split(',').map(Number);
+  if (values.length !== components) return null;
+  return values.every((v) => Number.isFinite(v) && v >= 0 && v <= 1)
+    ? values
+    : null;
+}
+
+/**
+ * Build a ShaderUniform from annotation attributes, checking it against
+ * the GLSL declaration it annotates
+ */
+function buildUniform(
+  annotation: PendingAnnotation,
+  glslType: string,
+  name: string,
+  fileName: string
+): ShaderUniform {
+  const { attributes, line } = annotation;
+  const fail = (message: string): never => {
+    throw new ShaderAnnotationError(`${name}: ${message}`, fileName, line);
+  };
+
+  const type = attributes.type as ShaderUniform['type'] | undefined;
+  if (!type) return fail('missing "type"');
+  if (!Object.hasOwn(ANNOTATION_GLSL_TYPES, type)) {
+    return fail(`unsupported type "${type}"`);
+  }
+  if (ANNOTATION_GLSL_TYPES[type] !== glslType) {
+    fail(`annotated as ${type} but declared as ${glslType}`);
+  }
+
+  const label = attributes.label ?? name;
+
+  const readRaw = (key: string): string => {
+    const raw = attributes[key];
+    if (raw === undefined) fail(`missing "${key}"`);
+    return raw;
+  };
+
+  const readNumber = (key: string, integer = false): number => {
+    const raw = readRaw(key);
+    const value = Number(raw);
+    if (!Number.isFinite(value)) fail(`"${key}" is not a number: ${raw}`);
+    if (integer && !Number.isInteger(value)) {
+      fail(`"${key}" must be an integer for int uniforms: ${raw}`);
+    }
+    return value;
+  };
+
+  const readRange = (integer: boolean) => {
+    const min = readNumber('min', integer);
+    const max = readNumber('max', integer);
+    const step = readNumber('step', integer);
+    if (min > max) fail(`min (${min}) is greater than max (${max})`);
+    if (step <= 0) fail(`step must be positive`);
+    return { min, max, step };
+  };
+
+  const checkInRange = (value: number, min: number, max: number) => {
+    if (value < min || value > max) {
+      fail(`default ${value} is outside [${min}, ${max}]`);
+    }
+  };
+
+  switch (type) {
+    case 'float':
+    case 'int': {
+      const range = readRange(type === 'int');
+      const defaultValue = readNumber('default', type === 'int');
+      checkInRange(defaultValue, range.min, range.max);
+      return { name, label, type, ...range, defaultValue };
+    }
+
+    case 'vec2': {
+      const range = readRange(false);
+      const raw = readRaw('default');
+      const values = raw.split(',').map(Number);
+      if (values.length !== 2 || !values.every(Number.isFinite)) {
+        fail(`"default" must be two comma-separated numbers: ${raw}`);
+      }
+      values.forEach((value) => checkInRange(value, range.min, range.max));
+      return {
+        name,
+        label,
+        type,
+        ...range,
+        defaultValue: [values[0], values[1]],
+      };
+    }
+
+    case 'vec3':
+    case 'vec4': {
+      const raw = readRaw('default');
+      const defaultValue = parseColor(raw, type === 'vec3' ? 3 : 4);
+      if (!defaultValue) fail(`"default" is not a valid ${type} color: ${raw}`);
+      return { name, label, type, defaultValue: defaultValue! };
+    }
+
+    case 'bool': {
+      const raw = readRaw('default');
+      if (raw !== 'true' && raw !== 'false') {
+        fail(`"default" must be true or false: ${raw}`);
+      }
+      return { name, label, type, defaultValue: raw === 'true' };
+    }
+
+    case 'enum': {
+      const options = readRaw('options')
+        .split('|')
+        .map((option) => option.trim());
+      if (options.length < 2 || options.some((option) => !option)) {
+        fail('"options" must list at least two |-separated names');
+      }
+      // Default may be given as an option name or an index
+      const raw = readRaw('default');
+      const defaultValue = options.includes(raw)
+        ? options.indexOf(raw)
+        : Number(raw);
+      if (!Number.isInteger(defaultValue)) {
+        fail(`"default" is not an option name or index: ${raw}`);
+      }
+      checkInRange(defaultValue, 0, options.length - 1);
+      return { name, label, type, options, defaultValue };
+    }
+  }
+}
+
+/**
+ * Build a TextureChannel from @channel attributes, checking it against the
+ * GLSL declaration it annotates
+ */
+function buildChannel(
+  annotation: PendingAnnotation,
+  glslType: string,
+  name: string,
+  fileName: string
+): TextureChannel {
+  const { attributes, line } = annotation;
+  const fail = (message: string): never => {
+    throw new ShaderAnnotationError(`${name}: ${message}`, fileName, line);
+  };
+
+  if (glslType !== 'sampler2D') {
+    fail(`@channel must annotate a sampler2D, not ${glslType}`);
+  }
+
+  const readUrl = (): string => {
+    const url = attributes.url;
+    if (!url) fail('missing "url"');
+    return url;
+  };
+
+  const readInteger = (key: string, fallback: number, min: number): number => {
+    const raw = attributes[key];
+    if (raw === undefined) return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min) {
+      fail(`"${key}" must be an integer >= ${min}: ${raw}`);
+    }
+    return value;
+  };
+
+  let source: TextureSource;
+  switch (attributes.source) {
+    case 'image':
+    case 'video':
+      source = { type: attributes.source, url: readUrl() };
+      break;
+    case 'noise':
+      source = {
+        type: 'noise',
+        size: readInteger('size', 256, 1),
+        seed: readInteger('seed', 0, 0),
+      };
+      break;
+    case 'file':
+      source = { type: 'file' };
+      break;
+    case undefined:
+      return fail('missing "source"');
+    default:
+      return fail(`unsupported source "${attributes.source}"`);
+  }
+
+  const filter = (attributes.filter ?? 'linear') as TextureFilter;
+  if (!TEXTURE_FILTERS.includes(filter)) {
+    fail(`"filter" must be one of ${TEXTURE_FILTERS.join('|')}: ${filter}`);
+  }
+  const wrap = (attributes.wrap ?? 'clamp') as TextureWrap;
+  if (!TEXTURE_WRAPS.includes(wrap)) {
+    fail(`"wrap" must be one of ${TEXTURE_WRAPS.join('|')}: ${wrap}`);
+  }
+
+  return { name, label: attributes.label ?? name, source, filter, wrap };
+}
+
+/**
+ * Load a ShaderDefinition from an annotated fragment shader source
+ * @param source - GLSL ES 3.00 source with @-directive comments
+ * @param fileName - Used in error messages
+ * @throws ShaderAnnotationError if annotations are missing, malformed
+ *         or disagree with the declared uniforms
+ */
+export function loadShaderSource(
+  source: string,
+  fileName = '<shader>'
+): ShaderDefinition {
+  const header: Partial<Record<HeaderDirective, string>> = {};
+  const uniforms: ShaderUniform[] = [];
+  const channels: TextureChannel[] = [];
+  // Unannotated vec2 uniforms that may be channel resolutions, checked once
+  // every channel is known
+  const resolutions: { name: string; line: number }[] = [];
+  const seen = new Set<string>();
+  let pending: PendingAnnotation | null = null;
+
+  // Declarations and annotations inside block comments don't count
+  const lines = stripBlockComments(source).split('\n');
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const directive = DIRECTIVE_PATTERN.exec(text);
+
+    if (directive) {
+      const [, key, value] = directive;
+      if (key === 'uniform' || key === 'channel') {
+        if (pending) {
+          throw new ShaderAnnotationError(
+            `@${pending.kind} annotation is not followed by a uniform declaration`,
+            fileName,
+            pending.line
+          );
+        }
+        pending = { kind: key, attributes: parseAttributes(value), line };
+      } else if ((HEADER_DIRECTIVES as readonly string[]).includes(key)) {
+        header[key as HeaderDirective] = value.trim();
+      } else {
+        throw new ShaderAnnotationError(`unknown directive @${key}`, fileName, line);
+      }
+      return;
+    }
+
+    // Plain comments and blank lines may sit between annotation and declaration
+    if (/^\s*(\/\/.*)?$/.test(text)) return;
+
+    const declaration = UNIFORM_DECL_PATTERN.exec(text);
+    const annotation: PendingAnnotation | null = pending;
+    pending = null;
+
+    if (!declaration) {
+      if (annotation) {
+        throw new ShaderAnnotationError(
+          `@${annotation.kind} annotation is not followed by a uniform declaration`,
+          fileName,
+          annotation.line
+        );
+      }
+      return;
+    }
+
+    const [, glslType, declarators] = declaration;
+    const names = parseDeclarators(declarators, fileName, line);
+    for (const name of names) {
+      if (seen.has(name)) {
+        throw new ShaderAnnotationError(`duplicate uniform ${name}`, fileName, line);
+      }
+      seen.add(name);
+    }
+
+    if (!annotation) {
+      for (const name of names) {
+        // Samplers are bound by the engine to passes and textures
+        if (ENGINE_UNIFORMS.has(name) || glslType.startsWith('sampler')) continue;
+        if (glslType === 'vec2' && name.endsWith(CHANNEL_RESOLUTION_SUFFIX)) {
+          resolutions.push({ name, line });
+          continue;
+        }
+        throw new ShaderAnnotationError(
+          `uniform ${name} has no @uniform annotation`,
+          fileName,
+          line
+        );
+      }
+      return;
+    }
+
+    if (names.length > 1) {
+      throw new ShaderAnnotationError(
+        `@${annotation.kind} annotation describes one uniform; declare ${names.join(', ')} separately`,
+        fileName,
+        annotation.line
+      );
+    }
+    const [name] = names;
+
+    if (ENGINE_UNIFORMS.has(name)) {
+      throw new ShaderAnnotationError(
+        `${name} is supplied by the engine and cannot be annotated`,
+        fileName,
+        annotation.line
+      );
+    }
+
+    if (annotation.kind === 'channel') {
+      channels.push(buildChannel(annotation, glslType, name, fileName));
+    } else {
+      uniforms.push(buildUniform(annotation, glslType, name, fileName));
+    }
+  });
+
+  if (pending) {
+    const { kind, line } = pending as PendingAnnotation;
+    throw new ShaderAnnotationError(
+      `@${kind} annotation is not followed by a uniform declaration`,
+      fileName,
+      line
+    );
+  }
+
+  for (const { name, line } of resolutions) {
+    const channel = name.slice(0, -CHANNEL_RESOLUTION_SUFFIX.length);
+    if (!channels.some((c) => c.name === channel)) {
+      throw new ShaderAnnotationError(
+        `uniform ${name} has no @uniform annotation`,
+        fileName,
+        line
+      );
+    }
+  }
+
+  for (const key of ['id', 'name'] as const) {
+    if (!header[key]) {
+      throw new ShaderAnnotationError(`missing @${key} directive`, fileName, 1);
+    }
+  }
+
+  const format = (header.format ?? 'glsl') as ShaderFormat;
+  if (!SHADER_FORMATS.includes(format)) {
+    throw new ShaderAnnotationError(
+      `@format must be one of ${SHADER_FORMATS.join('|')}: ${format}`,
+      fileName,
+      1
+    );
+  }
+
+  const fallbacks = (header.fallback ?? '').split(/\s+/).filter(Boolean);
+  for (const fallback of fallbacks) {
+    if (!(SHADER_FALLBACKS as readonly string[]).includes(fallback)) {
+      throw new ShaderAnnotationError(
+        `@fallback must list ${SHADER_FALLBACKS.join('|')}: ${fallback}`,
+        fileName,
+        1
+      );
+    }
+  }
+
+  const version = Number(header.version ?? 1);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ShaderAnnotationError(
+      `@version must be a positive integer: ${header.version}`,
+      fileName,
+      1
+    );
+  }
+
+  return {
+    id: header.id!,
+    name: header.name!,
+    shortLabel: header.shortLabel,
+    description: header.description ?? '',
+    fragmentSource: source,
+    uniforms,
+    channels,
+    format,
+    fallbacks: {
+      webgl1: fallbacks.includes('webgl1'),
+      poster: header.poster,
+    },
+    version,
+  };
+}
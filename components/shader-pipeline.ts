@@ -0,0 +1,655 @@
+// Shader Pipeline - Compiled programs and buffers for one ShaderDefinition
+//
+// A pipeline holds the image program plus one program and ping-pong float
+// buffer per buffer pass. Rendering runs the passes in order into their
+// buffers, then draws the image into the requested framebuffer.
+
+import {
+  createUniformBinder,
+  type UniformBinder,
+  type UniformDeclaration,
+} from '@/lib/webgl-utils';
+import {
+  preprocessGlsl,
+  GlslIncludeError,
+  type PreprocessedSource,
+  type SourceLocation,
+} from '@/lib/glsl-preprocessor';
+import {
+  acquireProgram,
+  releaseProgram,
+  requestProgram,
+  type CachedProgram,
+  type ProgramCache,
+  type ProgramStatus,
+} from '@/lib/program-cache';
+import { SHADERTOY_CHANNELS, wrapShadertoySource } from '@/lib/shadertoy';
+import {
+  FRAG_COORD_OFFSET_UNIFORM,
+  offsetFragCoord,
+  type Tile,
+} from '@/lib/tiling';
+import type { ShaderDiagnostic } from '@/lib/shader-diagnostics';
+import {
+  createPingPongTarget,
+  deletePingPongTarget,
+  enableFloatRenderTargets,
+  resizePingPongTarget,
+  swapPingPong,
+  type PingPongTarget,
+} from '@/lib/render-targets';
+import {
+  createBlankTexture,
+  createSourceTexture,
+  deleteSourceTexture,
+  updateSourceTexture,
+  type SourceTexture,
+  type TextureSource,
+} from '@/lib/textures';
+import { getGlslChunk } from './shader-chunks';
+import { CHANNEL_RESOLUTION_SUFFIX } from './shader-loader';
+import {
+  getUniformGLType,
+  type ShaderDefinition,
+  type TextureChannel,
+  type ShaderPass,
+  type UniformValues,
+} from './shader-gallery';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PipelineProgram {
+  program: WebGLProgram;
+  binder: UniformBinder;
+}
+
+export interface PipelinePass extends PipelineProgram {
+  pass: ShaderPass;
+  /** Allocated lazily at the render size */
+  target: PingPongTarget | null;
+}
+
+export interface ShaderPipeline {
+  shader: ShaderDefinition;
+  image: PipelineProgram;
+  passes: PipelinePass[];
+  /** Whether pass buffers use RGBA16F storage */
+  floatTargets: boolean;
+  /** Frames rendered since the pass buffers were (re)allocated */
+  frame: number;
+  /** Shadertoy channels the shader doesn't bind; they sample as black */
+  unboundChannels: string[];
+  /** Bound to channels without a loaded texture */
+  blankTexture: WebGLTexture | null;
+}
+
+export interface PipelineBuildOptions {
+  /**
+   * Offset the image's gl_FragCoord by the frame inputs' tile so it can be
+   * drawn in pieces; buffer passes always render the whole frame
+   */
+  tiled?: boolean;
+}
+
+export type PipelineBuildResult =
+  | { pipeline: ShaderPipeline; diagnostics: ShaderDiagnostic[] }
+  | { pipeline: null; error: string; diagnostics?: ShaderDiagnostic[] };
+
+/**
+ * Per-frame inputs shared by every program in the pipeline
+ */
+export interface PipelineFrameInputs {
+  time: number;
+  /** Seconds since the previous frame */
+  timeDelta: number;
+  width: number;
+  height: number;
+  /** Smoothed pointer position, 0-1 */
+  mouse: [number, number];
+  /** Shadertoy iMouse: pixel position while pressed, signed click position */
+  clickMouse: [number, number, number, number];
+  /** Shadertoy iDate */
+  date: [number, number, number, number];
+  uniforms: UniformValues;
+  /** Loaded channel textures by sampler name; missing ones sample as black */
+  channels: ReadonlyMap<string, SourceTexture>;
+  /** Previous stage's output, bound as `u_input` (post-processing effects) */
+  input?: WebGLTexture | null;
+  /**
+   * Part of the frame the image draws, for pipelines built with `tiled`;
+   * defaults to the whole frame
+   */
+  tile?: Tile;
+  /**
+   * Redraw the image over the pass buffers as last rendered instead of
+   * running the passes again (e.g. while playback is paused)
+   */
+  holdPasses?: boolean;
+}
+
+/**
+ * Uniforms the render loop supplies to every shader
+ */
+export const ENGINE_UNIFORM_DECLARATIONS: UniformDeclaration[] = [
+  { name: 'u_time', type: 'float', optional: true },
+  { name: 'u_resolution', type: 'vec2', optional: true },
+  { name: 'u_mouse', type: 'vec2', optional: true },
+  { name: 'u_frame', type: 'int', optional: true },
+  { name: 'u_input', type: 'int', optional: true },
+  { name: 'iResolution', type: 'vec3', optional: true },
+  { name: 'iTime', type: 'float', optional: true },
+  { name: 'iTimeDelta', type: 'float', optional: true },
+  { name: 'iFrame', type: 'int', optional: true },
+  { name: 'iMouse', type: 'vec4', optional: true },
+  { name: 'iDate', type: 'vec4', optional: true },
+  { name: FRAG_COORD_OFFSET_UNIFORM, type: 'vec2', optional: true },
+];
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * One program of a pipeline, preprocessed and ready to compile
+ */
+interface PreparedProgram {
+  source: string;
+  lineMap: SourceLocation[];
+  label: string;
+}
+
+type PrepareResult =
+  | { programs: PreparedProgram[] }
+  | { programs: null; error: string; diagnostics?: ShaderDiagnostic[] };
+
+// Definition sources don't change, so they are only preprocessed once
+const preparedDefinitions = new WeakMap<ShaderDefinition, PreparedProgram[]>();
+
+/**
+ * Expand includes (and the Shadertoy wrapper) for every program of a
+ * shader: buffer passes first, the image last
+ * @param fragmentSource - Overrides the definition's image source (live editing)
+ * @param tiled - Offset the image's gl_FragCoord for tiled rendering
+ */
+function prepareShaderPrograms(
+  shader: ShaderDefinition,
+  fragmentSource?: string,
+  tiled = false
+): PrepareResult {
+  const memoize = fragmentSource === undefined && !tiled;
+  const cached = memoize ? preparedDefinitions.get(shader) : undefined;
+  if (cached) return { programs: cached };
+
+  const sources = [
+    ...(shader.passes ?? []).map((pass) => ({
+      source: pass.fragmentSource,
+      fileName: `${shader.id}.${pass.id}.frag`,
+      label: `${shader.name} (${pass.id} pass)`,
+      image: false,
+    })),
+    {
+      source: fragmentSource ?? shader.fragmentSource,
+      fileName: `${shader.id}.frag`,
+      label: shader.name,
+      image: true,
+    },
+  ];
+
+  const programs: PreparedProgram[] = [];
+  for (const { source, fileName, label, image } of sources) {
+    // Expand #include chunks
+    let preprocessed: PreprocessedSource;
+    try {
+      preprocessed = preprocessGlsl(source, fileName, getGlslChunk);
+    } catch (e) {
+      console.error(e);
+      return {
+        programs: null,
+        error: `Failed to preprocess fragment shader: ${label}`,
+        diagnostics:
+          e instanceof GlslIncludeError
+            ? [
+                {
+                  stage: 'fragment',
+                  severity: 'error',
+                  message: e.detail,
+                  file: e.location.file,
+                  line: e.location.line,
+                },
+              ]
+            : undefined,
+      };
+    }
+
+    // Wrap mainImage() code in the Shadertoy prelude and main(); annotated
+    // iChannelN samplers are declared by the source itself
+    if (shader.format === 'shadertoy') {
+      preprocessed = wrapShadertoySource(
+        preprocessed,
+        new Set((shader.channels ?? []).map((channel) => channel.name))
+      );
+    }
+
+    if (tiled && image) {
+      preprocessed = offsetFragCoord(preprocessed);
+    }
+
+    programs.push({ ...preprocessed, label });
+  }
+
+  if (memoize) {
+    preparedDefinitions.set(shader, programs);
+  }
+  return { programs };
+}
+
+/**
+ * Error message for a program that failed to build
+ */
+function describeFailure(program: CachedProgram, label: string): string {
+  switch (program.failedStage) {
+    case 'vertex':
+      return 'Failed to compile vertex shader';
+    case 'link':
+      return `Failed to link shader program: ${label}`;
+    default:
+      return `Failed to compile fragment shader: ${label}`;
+  }
+}
+
+/**
+ * Get every program of a shader definition from the cache, compiling
+ * any that aren't cached yet
+ * Nothing is kept if any program fails, so callers can keep rendering
+ * their previous pipeline.
+ * @param fragmentSource - Overrides the definition's image source (live editing)
+ */
+export function buildShaderPipeline(
+  gl: WebGL2RenderingContext,
+  cache: ProgramCache,
+  shader: ShaderDefinition,
+  fragmentSource?: string,
+  { tiled = false }: PipelineBuildOptions = {}
+): PipelineBuildResult {
+  const passes = shader.passes ?? [];
+  const channels = shader.channels ?? [];
+  const unboundChannels =
+    shader.format === 'shadertoy'
+      ? SHADERTOY_CHANNELS.filter(
+          (name) => !channels.some((channel) => channel.name === name)
+        )
+      : [];
+
+  const prepared = prepareShaderPrograms(shader, fragmentSource, tiled);
+  if (!prepared.programs) {
+    return {
+      pipeline: null,
+      error: prepared.error,
+      diagnostics: prepared.diagnostics,
+    };
+  }
+
+  const declarations: UniformDeclaration[] = [
+    ...ENGINE_UNIFORM_DECLARATIONS,
+    ...passes.map((pass) => ({
+      name: `u_${pass.id}`,
+      type: 'int' as const,
+      optional: true,
+    })),
+    ...channels.flatMap((channel) => [
+      { name: channel.name, type: 'int' as const, optional: true },
+      {
+        name: channel.name + CHANNEL_RESOLUTION_SUFFIX,
+        type: 'vec2' as const,
+        optional: true,
+      },
+    ]),
+    ...unboundChannels.map((name) => ({
+      name,
+      type: 'int' as const,
+      optional: true,
+    })),
+    ...shader.uniforms.map((uniform) => ({
+      name: uniform.name,
+      type: getUniformGLType(uniform),
+      // Passes typically use only some of the shader's uniforms
+      optional: passes.length > 0,
+    })),
+  ];
+
+  const programs: WebGLProgram[] = [];
+  const diagnostics: ShaderDiagnostic[] = [];
+  for (const { source, lineMap, label } of prepared.programs) {
+    const result = acquireProgram(cache, source, lineMap);
+    if (!result.program) {
+      programs.forEach((program) => releaseProgram(cache, program));
+      return {
+        pipeline: null,
+        error: describeFailure(result, label),
+        diagnostics: result.diagnostics,
+      };
+    }
+    programs.push(result.program);
+    diagnostics.push(...result.diagnostics);
+  }
+
+  const toPipelineProgram = (program: WebGLProgram): PipelineProgram => ({
+    program,
+    binder: createUniformBinder(gl, program, declarations),
+  });
+
+  return {
+    pipeline: {
+      shader,
+      image: toPipelineProgram(programs[programs.length - 1]),
+      passes: passes.map((pass, index) => ({
+        pass,
+        ...toPipelineProgram(programs[index]),
+        target: null,
+      })),
+      floatTargets: passes.length > 0 && enableFloatRenderTargets(gl),
+      frame: 0,
+      unboundChannels,
+      blankTexture:
+        channels.length + unboundChannels.length > 0
+          ? createBlankTexture(gl)
+          : null,
+    },
+    diagnostics,
+  };
+}
+
+/**
+ * Start compiling a shader's programs in the background and report progress
+ * Call repeatedly (e.g. once per frame) until it stops returning
+ * "compiling"; see requestProgram for when this blocks.
+ * @param fragmentSource - Overrides the definition's image source (live editing)
+ */
+export function precompileShaderPipeline(
+  cache: ProgramCache,
+  shader: ShaderDefinition,
+  fragmentSource?: string
+): ProgramStatus {
+  const prepared = prepareShaderPrograms(shader, fragmentSource);
+  if (!prepared.programs) return 'failed';
+
+  const statuses = prepared.programs.map(({ source, lineMap }) =>
+    requestProgram(cache, source, lineMap)
+  );
+  if (statuses.includes('failed')) return 'failed';
+  return statuses.includes('compiling') ? 'compiling' : 'ready';
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Allocate missing pass buffers and resize ones of the wrong size
+ * Resized buffers keep their contents, stretched, so feedback effects
+ * survive window resizes and adaptive resolution steps.
+ */
+function ensurePassTargets(
+  gl: WebGL2RenderingContext,
+  pipeline: ShaderPipeline,
+  width: number,
+  height: number
+): void {
+  const options = { float: pipeline.floatTargets };
+  for (const pass of pipeline.passes) {
+    const target = pass.target;
+    if (target && target.read.width === width && target.read.height === height) {
+      continue;
+    }
+
+    pass.target = target
+      ? resizePingPongTarget(gl, target, width, height, options)
+      : createPingPongTarget(gl, width, height, options);
+    // Buffers start cleared, so let shaders re-seed from frame 0
+    if (!target) pipeline.frame = 0;
+  }
+}
+
+/**
+ * Draw one program's fullscreen quad with all pipeline inputs bound
+ */
+function drawProgram(
+  gl: WebGL2RenderingContext,
+  pipeline: ShaderPipeline,
+  { program, binder }: PipelineProgram,
+  inputs: PipelineFrameInputs,
+  frame = pipeline.frame
+): void {
+  gl.useProgram(program);
+
+  // Set standard uniforms
+  binder.set('u_time', inputs.time);
+  binder.set('u_resolution', [inputs.width, inputs.height]);
+  binder.set('u_mouse', inputs.mouse);
+  binder.set('u_frame', frame);
+
+  // Shadertoy inputs
+  binder.set('iResolution', [inputs.width, inputs.height, 1]);
+  binder.set('iTime', inputs.time);
+  binder.set('iTimeDelta', inputs.timeDelta);
+  binder.set('iFrame', frame);
+  binder.set('iMouse', inputs.clickMouse);
+  binder.set('iDate', inputs.date);
+  binder.set(FRAG_COORD_OFFSET_UNIFORM, [inputs.tile?.x ?? 0, inputs.tile?.y ?? 0]);
+
+  // Bind each pass's latest output to its own texture unit
+  pipeline.passes.forEach(({ pass, target }, unit) => {
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, target?.read.texture ?? null);
+    binder.set(`u_${pass.id}`, unit);
+  });
+
+  // Channel textures take the units after the passes
+  pipeline.shader.channels?.forEach((channel, index) => {
+    const unit = pipeline.passes.length + index;
+    const input = inputs.channels.get(channel.name);
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, input?.texture ?? pipeline.blankTexture);
+    binder.set(channel.name, unit);
+    binder.set(channel.name + CHANNEL_RESOLUTION_SUFFIX, [
+      input?.width ?? 0,
+      input?.height ?? 0,
+    ]);
+  });
+
+  // Previous stage output takes the unit after the channels
+  if (inputs.input !== undefined) {
+    const unit = pipeline.passes.length + (pipeline.shader.channels?.length ?? 0);
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, inputs.input);
+    binder.set('u_input', unit);
+  }
+
+  // Unbound Shadertoy channels share the blank texture on the next unit
+  if (pipeline.unboundChannels.length > 0) {
+    const unit =
+      pipeline.passes.length + (pipeline.shader.channels?.length ?? 0) + 1;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, pipeline.blankTexture);
+    for (const name of pipeline.unboundChannels) {
+      binder.set(name, unit);
+    }
+  }
+
+  // Set custom uniforms, typed by the shader definition
+  for (const uniform of pipeline.shader.uniforms) {
+    binder.set(uniform.name, inputs.uniforms[uniform.name] ?? uniform.defaultValue);
+  }
+
+  // Draw fullscreen quad (6 vertices)
+  gl.drawArrays(gl.TRIANGLES, 0, 6);
+}
+
+/**
+ * Draw every buffer pass into its ping-pong target, at the full frame size
+ */
+function drawPasses(
+  gl: WebGL2RenderingContext,
+  pipeline: ShaderPipeline,
+  inputs: PipelineFrameInputs
+): void {
+  ensurePassTargets(gl, pipeline, inputs.width, inputs.height);
+
+  for (const pass of pipeline.passes) {
+    if (!pass.target) continue;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, pass.target.write.framebuffer);
+    gl.viewport(0, 0, inputs.width, inputs.height);
+    drawProgram(gl, pipeline, pass, inputs);
+    swapPingPong(pass.target);
+  }
+}
+
+/**
+ * Render one frame of the buffer passes only, without the image
+ * Tiled renders call this for each frame up to the one they draw, then
+ * draw the image tile by tile.
+ */
+export function renderShaderPasses(
+  gl: WebGL2RenderingContext,
+  pipeline: ShaderPipeline,
+  vao: WebGLVertexArrayObject,
+  inputs: PipelineFrameInputs
+): void {
+  gl.bindVertexArray(vao);
+  drawPasses(gl, pipeline, inputs);
+  gl.bindVertexArray(null);
+  pipeline.frame++;
+}
+
+/**
+ * Render one frame: every buffer pass into its ping-pong target, then the
+ * image into `output` (null for the canvas)
+ * With `inputs.tile` set, the image only draws that tile, sized to fill
+ * `output`. Tiles leave the passes alone and read the frame last rendered
+ * with renderShaderPasses, as does `inputs.holdPasses`.
+ */
+export function renderShaderPipeline(
+  gl: WebGL2RenderingContext,
+  pipeline: ShaderPipeline,
+  vao: WebGLVertexArrayObject,
+  inputs: PipelineFrameInputs,
+  output: WebGLFramebuffer | null = null
+): void {
+  gl.bindVertexArray(vao);
+
+  if (inputs.tile) {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+    gl.viewport(0, 0, inputs.tile.width, inputs.tile.height);
+    // Same frame number the passes last drew with
+    const frame = Math.max(0, pipeline.frame - 1);
+    drawProgram(gl, pipeline, pipeline.image, inputs, frame);
+    gl.bindVertexArray(null);
+    return;
+  }
+
+  if (inputs.holdPasses) {
+    ensurePassTargets(gl, pipeline, inputs.width, inputs.height);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+    gl.viewport(0, 0, inputs.width, inputs.height);
+    drawProgram(gl, pipeline, pipeline.image, inputs, Math.max(0, pipeline.frame - 1));
+    gl.bindVertexArray(null);
+    return;
+  }
+
+  drawPasses(gl, pipeline, inputs);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+  gl.viewport(0, 0, inputs.width, inputs.height);
+  drawProgram(gl, pipeline, pipeline.image, inputs);
+
+  // Unbind VAO
+  gl.bindVertexArray(null);
+
+  pipeline.frame++;
+}
+
+// ============================================================================
+// Channel Textures
+// ============================================================================
+
+/**
+ * Bring a set of channel textures in line with a shader's channels
+ * Creates textures for new or changed sources, deletes ones no longer used
+ * and uploads current video frames. Call once per frame before rendering.
+ * @param overrides - Sources replacing declared ones, by sampler name
+ */
+export function syncChannelTextures(
+  gl: WebGL2RenderingContext,
+  textures: Map<string, SourceTexture>,
+  channels: TextureChannel[],
+  overrides: Record<string, TextureSource> = {}
+): void {
+  for (const [name, texture] of textures) {
+    if (!channels.some((channel) => channel.name === name)) {
+      deleteSourceTexture(gl, texture);
+      textures.delete(name);
+    }
+  }
+
+  for (const channel of channels) {
+    const source = overrides[channel.name] ?? channel.source;
+    const current = textures.get(channel.name);
+    if (
+      current &&
+      current.source === source &&
+      current.sampling.filter === channel.filter &&
+      current.sampling.wrap === channel.wrap
+    ) {
+      updateSourceTexture(gl, current);
+      continue;
+    }
+
+    if (current) {
+      deleteSourceTexture(gl, current);
+      textures.delete(channel.name);
+    }
+    const created = createSourceTexture(gl, source, {
+      filter: channel.filter,
+      wrap: channel.wrap,
+    });
+    if (created) textures.set(channel.name, created);
+  }
+}
+
+/**
+ * Delete every texture in a channel texture set
+ */
+export function deleteChannelTextures(
+  gl: WebGL2RenderingContext,
+  textures: Map<string, SourceTexture>
+): void {
+  for (const texture of textures.values()) {
+    deleteSourceTexture(gl, texture);
+  }
+  textures.clear();
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+/**
+ * Release a pipeline's programs back to the cache and delete its pass
+ * buffers and blank texture
+ */
+export function deleteShaderPipeline(
+  gl: WebGL2RenderingContext,
+  cache: ProgramCache,
+  pipeline: ShaderPipeline
+): void {
+  releaseProgram(cache, pipeline.image.program);
+  for (const pass of pipeline.passes) {
+    releaseProgram(cache, pass.program);
+    if (pass.target) deletePingPongTarget(gl, pass.target);
+    pass.target = null;
+  }
+  if (pipeline.blankTexture) gl.deleteTexture(pipeline.blankTexture);
+  pipeline.blankTexture = null;
+}
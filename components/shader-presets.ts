@@ -0,0 +1,327 @@
+// Shader Presets - Named uniform values per shader, persisted to localStorage
+// and shared as versioned JSON files
+//
+// A shader's saved presets are listed after its curated ones (from the
+// ShaderDefinition). Either kind can be the startup preset, applied instead
+// of the defaults whenever the shader is opened. Presets keep the shader
+// version they were saved for, and are migrated and checked against the
+// shader only when applied, so presets for shaders that aren't registered
+// yet survive import.
+
+import { createStorageStore, useStore } from '@/lib/store';
+import {
+  type ShaderDefinition,
+  type ShaderPreset,
+  type UniformValue,
+  type UniformValues,
+} from './shader-gallery';
+import {
+  migrateUniformValues,
+  type MigrationResult,
+} from './uniform-migrations';
+import { normalizeAnimation, type UniformAnimation } from './uniform-animation';
+
+const STORAGE_KEY = 'shader-gallery:presets';
+
+export interface SavedPresets {
+  presets: ShaderPreset[];
+  startup?: string;   // Name of the preset applied when the shader opens
+}
+
+export interface PresetListing {
+  preset: ShaderPreset;
+  curated: boolean;   // From the ShaderDefinition, so it can't be deleted
+}
+
+// Identifies preset files, so other JSON isn't mistaken for one
+export const PRESET_FILE_FORMAT = 'shader-gallery-presets';
+
+// Bump when the file layout changes, keeping older versions readable
+// Version 2 added each preset's shader version; version 1 presets are read
+// as made for version 1 of their shader. Version 3 added animations.
+export const PRESET_FILE_VERSION = 3;
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  /** Presets by shader ID */
+  shaders: Record<string, ShaderPreset[]>;
+}
+
+/**
+ * Error thrown when an imported preset file can't be read
+ */
+export class PresetFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetFileError';
+  }
+}
+
+const EMPTY_PRESETS: Record<string, SavedPresets> = {};
+
+const saved = createStorageStore<Record<string, SavedPresets>>(STORAGE_KEY, {});
+
+/**
+ * Replace a shader's entry, dropping it once nothing is left in it
+ */
+function updateShader(id: string, entry: SavedPresets): void {
+  const { [id]: _removed, ...rest } = saved.get();
+  const empty = entry.presets.length === 0 && entry.startup === undefined;
+  saved.set(empty ? rest : { ...rest, [id]: entry });
+}
+
+function getEntry(id: string): SavedPresets {
+  return saved.get()[id] ?? { presets: [] };
+}
+
+/**
+ * Get a shader's saved presets and startup choice, if any
+ */
+export function getSavedPresets(id: string): SavedPresets | undefined {
+  return saved.get()[id];
+}
+
+/**
+ * Curated and saved presets for a shader, curated first
+ * A saved preset hides a curated one of the same name.
+ */
+export function listPresets(
+  shader: ShaderDefinition,
+  entry: SavedPresets | undefined = getSavedPresets(shader.id)
+): PresetListing[] {
+  const savedPresets = entry?.presets ?? [];
+  const savedNames = new Set(savedPresets.map((preset) => preset.name));
+  return [
+    ...(shader.presets ?? [])
+      .filter((preset) => !savedNames.has(preset.name))
+      .map((preset) => ({ preset, curated: true })),
+    ...savedPresets.map((preset) => ({ preset, curated: false })),
+  ];
+}
+
+/**
+ * Save uniform values as a named preset, replacing one with the same name
+ * @param version - Shader version the values are for
+ * @param animation - Keyframes to save with the values, if any
+ */
+export function savePreset(
+  id: string,
+  name: string,
+  values: UniformValues,
+  version = 1,
+  animation?: UniformAnimation | null
+): void {
+  const entry = getEntry(id);
+  const preset: ShaderPreset = {
+    name,
+    values: structuredClone(values),
+    version,
+    ...(animation && { animation: structuredClone(animation) }),
+  };
+  const index = entry.presets.findIndex((p) => p.name === name);
+  const presets =
+    index < 0
+      ? [...entry.presets, preset]
+      : entry.presets.map((p, i) => (i === index ? preset : p));
+  updateShader(id, { ...entry, presets });
+}
+
+/**
+ * Delete a saved preset; it stops being the startup preset too
+ */
+export function deletePreset(id: string, name: string): void {
+  const entry = getEntry(id);
+  updateShader(id, {
+    presets: entry.presets.filter((p) => p.name !== name),
+    startup: entry.startup === name ? undefined : entry.startup,
+  });
+}
+
+/**
+ * Choose the preset applied when a shader opens, or null for the defaults
+ */
+export function setStartupPreset(id: string, name: string | null): void {
+  updateShader(id, { ...getEntry(id), startup: name ?? undefined });
+}
+
+/**
+ * Uniform values for a preset, migrated to the shader's version
+ */
+export function getPresetUniforms(
+  shader: ShaderDefinition,
+  preset: ShaderPreset
+): MigrationResult {
+  return migrateUniformValues(shader, preset.values, preset.version ?? 1);
+}
+
+/**
+ * A preset's animation, migrated to the shader's version; null without one
+ */
+export function getPresetAnimation(
+  shader: ShaderDefinition,
+  preset: ShaderPreset
+): UniformAnimation | null {
+  return normalizeAnimation(shader, preset.animation, preset.version ?? 1);
+}
+
+function getStartupPreset(shader: ShaderDefinition): ShaderPreset | undefined {
+  const startup = getSavedPresets(shader.id)?.startup;
+  return listPresets(shader).find((l) => l.preset.name === startup)?.preset;
+}
+
+/**
+ * Uniform values a shader opens with: its startup preset, or the defaults
+ */
+export function getStartupUniforms(shader: ShaderDefinition): MigrationResult {
+  const preset = getStartupPreset(shader);
+  return preset
+    ? getPresetUniforms(shader, preset)
+    : migrateUniformValues(shader, {});
+}
+
+/**
+ * Animation a shader opens with, from its startup preset
+ */
+export function getStartupAnimation(
+  shader: ShaderDefinition
+): UniformAnimation | null {
+  const preset = getStartupPreset(shader);
+  return preset ? getPresetAnimation(shader, preset) : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUniformValue(value: unknown): value is UniformValue {
+  const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  return (
+    isNumber(value) ||
+    typeof value === 'boolean' ||
+    (Array.isArray(value) && value.every(isNumber))
+  );
+}
+
+function isVersionNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Serialize saved presets as a preset file
+ * @param ids - Shaders to include
+ */
+export function exportPresetFile(ids: string[]): string {
+  const shaders: Record<string, ShaderPreset[]> = {};
+  for (const id of ids) {
+    const presets = getSavedPresets(id)?.presets ?? [];
+    if (presets.length > 0) shaders[id] = presets;
+  }
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    shaders,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read presets from a preset file
+ * @throws PresetFileError if the file is malformed or from a newer version
+ */
+export function parsePresetFile(text: string): Record<string, ShaderPreset[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PresetFileError('The file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== PRESET_FILE_FORMAT) {
+    throw new PresetFileError('The file is not a shader presets file');
+  }
+  const { version } = data;
+  if (!isVersionNumber(version)) {
+    throw new PresetFileError('The file has no valid version number');
+  }
+  if (version > PRESET_FILE_VERSION) {
+    throw new PresetFileError(
+      `The file is version ${version}, newer than this gallery reads (${PRESET_FILE_VERSION})`
+    );
+  }
+  if (!isRecord(data.shaders)) {
+    throw new PresetFileError('The file has no "shaders" object');
+  }
+
+  const shaders: Record<string, ShaderPreset[]> = {};
+  for (const [id, presets] of Object.entries(data.shaders)) {
+    if (!Array.isArray(presets)) {
+      throw new PresetFileError(`Presets for "${id}" are not a list`);
+    }
+    shaders[id] = presets.map((preset, index) => {
+      if (
+        !isRecord(preset) ||
+        typeof preset.name !== 'string' ||
+        preset.name.trim() === '' ||
+        !isRecord(preset.values) ||
+        !Object.values(preset.values).every(isUniformValue) ||
+        (preset.version !== undefined && !isVersionNumber(preset.version)) ||
+        (preset.animation !== undefined && !isRecord(preset.animation))
+      ) {
+        throw new PresetFileError(
+          `Preset ${index + 1} for "${id}" is missing a name or has invalid values`
+        );
+      }
+      return {
+        name: preset.name.trim(),
+        values: preset.values as UniformValues,
+        version: preset.version ?? 1,
+        // Keyframes are checked when the preset is applied
+        ...(preset.animation !== undefined && { animation: preset.animation }),
+      };
+    });
+  }
+  return shaders;
+}
+
+/**
+ * Import a preset file, replacing saved presets with the same names
+ * When the file repeats a name for a shader, the last preset wins.
+ * @returns Number of presets imported
+ * @throws PresetFileError if the file can't be read; nothing is imported
+ */
+export function importPresetFile(text: string): number {
+  const shaders = parsePresetFile(text);
+  let count = 0;
+  const next = { ...saved.get() };
+  for (const [id, presets] of Object.entries(shaders)) {
+    if (presets.length === 0) continue;
+    const entry = next[id] ?? { presets: [] };
+    const byName = new Map(presets.map((preset) => [preset.name, preset]));
+    next[id] = {
+      ...entry,
+      presets: [
+        ...entry.presets.filter((p) => !byName.has(p.name)),
+        ...byName.values(),
+      ],
+    };
+    count += byName.size;
+  }
+  saved.set(next);
+  return count;
+}
+
+/**
+ * Subscribe to preset changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToPresets(listener: () => void): () => void {
+  return saved.subscribe(listener);
+}
+
+/**
+ * React hook returning all saved presets keyed by shader ID
+ */
+export function usePresets(): Record<string, SavedPresets> {
+  return useStore(saved, EMPTY_PRESETS);
+}
@@ -0,0 +1,56 @@
+// Shader Previews - CPU ports of gallery shaders for the no-WebGL fallback
+//
+// Each preview mirrors its .frag closely enough to be recognizable at low
+// resolution; see CpuPreview in shader-gallery.ts.
+
+import type { CpuPreview } from './shader-gallery';
+
+type Color = [number, number, number];
+
+// Site palette, matching shaders/chunks/palette.glsl
+const SITE_TEAL: Color = [0.086, 0.722, 0.651];
+const SITE_PINK: Color = [0.85, 0.275, 0.937];
+const SITE_BLUE: Color = [0.133, 0.827, 0.933];
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+}
+
+function mixColor(a: Color, b: Color, t: number): Color {
+  return [
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+  ];
+}
+
+// Port of plasma.frag
+export const plasmaPreview: CpuPreview = (x, y, time, uniforms) => {
+  const speed = (uniforms.u_speed as number) ?? 1;
+  const scale = (uniforms.u_scale as number) ?? 4;
+  const colorShift = (uniforms.u_colorShift as number) ?? 0.5;
+  const [originX, originY] = (uniforms.u_origin as number[]) ?? [0, 0];
+  const t = time * speed;
+
+  const v1 = Math.sin(x * scale + t);
+  const v2 = Math.sin(y * scale + t);
+  const v3 = Math.sin((x + y) * scale + t);
+  const v4 = Math.sin(Math.hypot(x - originX, y - originY) * scale * 2 + t);
+  const plasma = (v1 + v2 + v3 + v4) * 0.25;
+
+  const shift = plasma + colorShift;
+  let color = mixColor(
+    SITE_TEAL,
+    SITE_PINK,
+    smoothstep(-0.5, 0.5, Math.sin(shift * Math.PI))
+  );
+  color = mixColor(
+    color,
+    SITE_BLUE,
+    smoothstep(-0.5, 0.5, Math.cos(shift * Math.PI + t * 0.5))
+  );
+
+  const brightness = 0.8 + 0.2 * Math.sin(plasma * Math.PI * 2);
+  return [color[0] * brightness, color[1] * brightness, color[2] * brightness];
+};
@@ -0,0 +1,290 @@
+// Shader Recording - Deterministic WebM, GIF and APNG export
+//
+// Frames are rendered offline at a fixed timestep (frame i shows
+// startTime + i / fps), so recordings never drop frames however slowly they
+// render. Each frame is encoded before the next is drawn.
+
+import { createApngEncoder } from '@/lib/apng-encoder';
+import { createGifEncoder } from '@/lib/gif-encoder';
+import { createWebmMuxer } from '@/lib/webm-muxer';
+import type { TextureSource } from '@/lib/textures';
+import { createOfflineRenderer, nextFrame } from './offline-renderer';
+import type { PostChain } from './post-effects';
+import { getShaderById } from './shader-registry';
+import type { UniformValues } from './shader-gallery';
+
+export type RecordingFormat = 'webm' | 'gif' | 'apng';
+
+export interface RecordingOptions {
+  shaderId: string;
+  width: number;
+  height: number;
+  /** Length in seconds */
+  duration: number;
+  fps: number;
+  /** GIF and APNG repeat forever; WebM has no loop flag, so it's ignored */
+  loop: boolean;
+  format: RecordingFormat;
+  /** Shader time of the first frame, in seconds */
+  startTime: number;
+  /** Fixed values, or values at a shader time for animated uniforms */
+  uniforms: UniformValues | ((time: number) => UniformValues);
+  /** Override the definition's fragment source (live editing) */
+  fragmentSource?: string;
+  /** Sources replacing declared channels, by sampler name */
+  channelSources?: Record<string, TextureSource>;
+  postChain?: PostChain;
+  /** Called after each frame with the number done and the total */
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export const RECORDING_FILE_EXTENSIONS: Record<RecordingFormat, string> = {
+  webm: 'webm',
+  gif: 'gif',
+  apng: 'png',
+};
+
+// Browsers slow down GIF frames shorter than 20ms
+export const MAX_GIF_FPS = 50;
+
+// WebCodecs codec strings to try, best first, with their Matroska IDs
+const WEBM_CODECS = [
+  { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+  { codec: 'vp8', codecId: 'V_VP8' },
+];
+
+const WEBM_BITS_PER_PIXEL = 0.2;
+
+// Seconds between WebM key frames
+const KEY_FRAME_INTERVAL = 2;
+
+// Encoded frames allowed to queue up before rendering waits
+const MAX_ENCODE_QUEUE = 4;
+
+/**
+ * Why a format can't be recorded in this browser, or null if it can
+ */
+export function getRecordingBlocker(format: RecordingFormat): string | null {
+  if (format === 'webm' && typeof VideoEncoder === 'undefined') {
+    return 'WebM recording needs WebCodecs, which this browser lacks';
+  }
+  if (format === 'apng' && typeof CompressionStream === 'undefined') {
+    return 'APNG recording needs CompressionStream, which this browser lacks';
+  }
+  return null;
+}
+
+/**
+ * Frame sink for one output format
+ */
+interface FrameWriter {
+  write(pixels: Uint8ClampedArray, index: number): Promise<void>;
+  finish(): Promise<Blob>;
+  /** Release encoder resources after a failure or cancellation */
+  close(): void;
+}
+
+async function createWebmWriter(
+  width: number,
+  height: number,
+  fps: number
+): Promise<FrameWriter> {
+  const bitrate = Math.round(width * height * fps * WEBM_BITS_PER_PIXEL);
+
+  let selected: (typeof WEBM_CODECS)[number] | null = null;
+  for (const candidate of WEBM_CODECS) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      codec: candidate.codec,
+      width,
+      height,
+      bitrate,
+      framerate: fps,
+    });
+    if (supported) {
+      selected = candidate;
+      break;
+    }
+  }
+  if (!selected) {
+    throw new Error(`This browser can't encode ${width}x${height} WebM video`);
+  }
+
+  const muxer = createWebmMuxer({
+    width,
+    height,
+    codecId: selected.codecId,
+    frameRate: fps,
+  });
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addChunk(data, chunk.timestamp, chunk.type === 'key');
+    },
+    error: (e) => {
+      encodeError = e;
+    },
+  });
+  encoder.configure({
+    codec: selected.codec,
+    width,
+    height,
+    bitrate,
+    framerate: fps,
+  });
+
+  const keyFrameInterval = Math.max(1, Math.round(fps * KEY_FRAME_INTERVAL));
+
+  return {
+    async write(pixels, index) {
+      if (encodeError) throw encodeError;
+      const frame = new VideoFrame(pixels, {
+        format: 'RGBA',
+        codedWidth: width,
+        codedHeight: height,
+        // Microseconds, from the frame index so there is no drift
+        timestamp: Math.round((index * 1_000_000) / fps),
+        duration: Math.round(1_000_000 / fps),
+      });
+      encoder.encode(frame, { keyFrame: index % keyFrameInterval === 0 });
+      frame.close();
+
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await nextFrame();
+      }
+    },
+    async finish() {
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      encoder.close();
+      return muxer.finish();
+    },
+    close() {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
+
+function createGifWriter(
+  width: number,
+  height: number,
+  fps: number,
+  loop: boolean
+): FrameWriter {
+  const encoder = createGifEncoder(width, height, { loop });
+  return {
+    async write(pixels) {
+      encoder.addFrame(pixels, 1000 / fps);
+    },
+    async finish() {
+      return encoder.finish();
+    },
+    close() {},
+  };
+}
+
+function createApngWriter(
+  width: number,
+  height: number,
+  fps: number,
+  loop: boolean
+): FrameWriter {
+  const encoder = createApngEncoder(width, height, { fps, loop });
+  return {
+    write: (pixels) => encoder.addFrame(pixels),
+    async finish() {
+      return encoder.finish();
+    },
+    close() {},
+  };
+}
+
+/**
+ * Record a shader to WebM video or an animated GIF/APNG
+ * Throws if the shader or format is unavailable, the size is beyond what
+ * the GPU renders in one piece, or the signal aborts.
+ */
+export async function recordShader({
+  shaderId,
+  width,
+  height,
+  duration,
+  fps,
+  loop,
+  format,
+  startTime,
+  uniforms,
+  fragmentSource,
+  channelSources,
+  postChain,
+  onProgress,
+  signal,
+}: RecordingOptions): Promise<Blob> {
+  const shader = getShaderById(shaderId);
+  if (!shader) throw new Error('Shader not found');
+
+  const blocker = getRecordingBlocker(format);
+  if (blocker) throw new Error(blocker);
+  if (format === 'gif' && fps > MAX_GIF_FPS) {
+    throw new Error(`GIFs can't play faster than ${MAX_GIF_FPS} fps`);
+  }
+
+  const frameCount = Math.max(1, Math.round(duration * fps));
+  const uniformsAt =
+    typeof uniforms === 'function' ? uniforms : () => uniforms;
+
+  const renderer = await createOfflineRenderer({
+    shader,
+    fragmentSource,
+    channelSources,
+    postChain,
+    signal,
+  });
+
+  let writer: FrameWriter | null = null;
+  try {
+    if (width > renderer.maxTileSize || height > renderer.maxTileSize) {
+      throw new Error(
+        `Recordings can be at most ${renderer.maxTileSize} pixels on a side`
+      );
+    }
+
+    writer =
+      format === 'webm'
+        ? await createWebmWriter(width, height, fps)
+        : format === 'gif'
+          ? createGifWriter(width, height, fps, loop)
+          : createApngWriter(width, height, fps, loop);
+
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let index = 0; index < frameCount; index++) {
+      signal?.throwIfAborted();
+
+      const time = startTime + index / fps;
+      renderer.renderFrame(
+        {
+          time,
+          timeDelta: 1 / fps,
+          width,
+          height,
+          uniforms: uniformsAt(time),
+        },
+        pixels
+      );
+      await writer.write(pixels, index);
+
+      onProgress?.(index + 1, frameCount);
+      await nextFrame();
+    }
+
+    signal?.throwIfAborted();
+    return await writer.finish();
+  } catch (e) {
+    writer?.close();
+    throw e;
+  } finally {
+    renderer.dispose();
+  }
+}
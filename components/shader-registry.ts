@@ -0,0 +1,119 @@
+// Shader Registry - Runtime collection of shader definitions
+//
+// The gallery's built-in shaders are registered at module load. Shader packs
+// can register additional definitions at runtime; the controls panel, keyboard
+// shortcuts and cycling logic all read from this registry.
+
+import { useSyncExternalStore } from 'react';
+import { BUILTIN_SHADERS, type ShaderDefinition } from './shader-gallery';
+
+type RegistryListener = () => void;
+
+const registry = new Map<string, ShaderDefinition>();
+const listeners = new Set<RegistryListener>();
+
+// Cached ordered snapshot so useSyncExternalStore sees a stable reference
+let snapshot: ShaderDefinition[] = [];
+
+function emitChange(): void {
+  snapshot = Array.from(registry.values());
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+/**
+ * Register a shader definition
+ * @returns Function that unregisters the shader again
+ * @throws If a shader with the same ID is already registered
+ */
+export function registerShader(shader: ShaderDefinition): () => void {
+  if (registry.has(shader.id)) {
+    throw new Error(`Shader already registered: ${shader.id}`);
+  }
+
+  registry.set(shader.id, shader);
+  emitChange();
+
+  return () => {
+    // Only remove the exact definition we registered
+    if (registry.get(shader.id) === shader) {
+      unregisterShader(shader.id);
+    }
+  };
+}
+
+/**
+ * Register a pack of shader definitions in order
+ * The pack is checked first, so either every shader is registered (with one
+ * change notification) or none is.
+ * @returns Function that unregisters the whole pack
+ * @throws If any ID is already registered or repeated within the pack
+ */
+export function registerShaders(shaders: ShaderDefinition[]): () => void {
+  const ids = new Set<string>();
+  for (const shader of shaders) {
+    if (registry.has(shader.id) || ids.has(shader.id)) {
+      throw new Error(`Shader already registered: ${shader.id}`);
+    }
+    ids.add(shader.id);
+  }
+
+  for (const shader of shaders) {
+    registry.set(shader.id, shader);
+  }
+  emitChange();
+
+  return () => {
+    // Only remove the exact definitions we registered
+    const owned = shaders.filter((shader) => registry.get(shader.id) === shader);
+    for (const shader of owned) {
+      registry.delete(shader.id);
+    }
+    if (owned.length > 0) emitChange();
+  };
+}
+
+/**
+ * Remove a shader from the registry
+ * @returns true if a shader was removed
+ */
+export function unregisterShader(id: string): boolean {
+  const removed = registry.delete(id);
+  if (removed) {
+    emitChange();
+  }
+  return removed;
+}
+
+/**
+ * List all registered shaders in registration order
+ */
+export function listShaders(): ShaderDefinition[] {
+  return snapshot;
+}
+
+/**
+ * Subscribe to registry changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToShaders(listener: RegistryListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Helper function to get a shader by ID
+export function getShaderById(id: string): ShaderDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * React hook returning the registered shaders, re-rendering on changes
+ */
+export function useShaders(): ShaderDefinition[] {
+  return useSyncExternalStore(subscribeToShaders, listShaders, listShaders);
+}
+
+registerShaders(BUILTIN_SHADERS);
@@ -0,0 +1,275 @@
+// Shader URL State - Deep links to a shader and its uniform values
+//
+// Each shader lives at /shaders/<id>. Uniforms that differ from their
+// defaults go in the query string, keyed by name without the u_ prefix:
+// numbers rounded to the slider step, vec2s as "x,y", colors as hex, toggles
+// as 1/0 and enums as the option index. Links to shaders past version 1
+// carry the version too, so decoding can migrate links made for an older
+// version; values are then clamped into range, and the report lists
+// anything that couldn't be read, so old or hand-edited links still load.
+
+import {
+  getShaderVersion,
+  type ShaderDefinition,
+  type ShaderUniform,
+  type UniformValue,
+  type UniformValues,
+} from './shader-gallery';
+import {
+  migrateUniformValues,
+  type MigrationResult,
+} from './uniform-migrations';
+
+// Shader shown at the site root
+export const DEFAULT_SHADER_ID = 'plasma';
+
+const SHADER_PATH_PATTERN = /^\/shaders\/([^/]+)\/?$/;
+
+// Query parameter holding the shader version; GLSL reserves names with a
+// double underscore, so no uniform can map to it
+const VERSION_PARAM = '_v';
+
+/**
+ * Route of a shader's page
+ */
+export function getShaderPath(id: string): string {
+  return `/shaders/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Shader ID from a route path, or null if it isn't a shader page
+ */
+export function getShaderIdFromPath(pathname: string): string | null {
+  const match = SHADER_PATH_PATTERN.exec(pathname);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Query parameter for a uniform
+ */
+function getParamName(name: string): string {
+  return name.replace(/^u_/, '');
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Digits after the decimal point in a slider step
+ */
+function stepDecimals(step: number): number {
+  return String(step).split('.')[1]?.length ?? 0;
+}
+
+function formatNumber(value: number, decimals: number): string {
+  return String(Number(value.toFixed(decimals)));
+}
+
+function toHex(components: number[]): string {
+  return components
+    .map((c) =>
+      Math.round(clamp(c, 0, 1) * 255)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('');
+}
+
+/**
+ * URL form of a value, or null if it is the default (or malformed)
+ */
+function encodeValue(
+  uniform: ShaderUniform,
+  value: UniformValue
+): string | null {
+  switch (uniform.type) {
+    case 'float':
+    case 'int': {
+      if (typeof value !== 'number') return null;
+      const decimals = stepDecimals(uniform.step);
+      const encoded = formatNumber(value, decimals);
+      return encoded === formatNumber(uniform.defaultValue, decimals)
+        ? null
+        : encoded;
+    }
+    case 'vec2': {
+      if (!Array.isArray(value) || value.length !== 2) return null;
+      const decimals = stepDecimals(uniform.step);
+      const encoded = value.map((c) => formatNumber(c, decimals)).join(',');
+      const fallback = uniform.defaultValue
+        .map((c) => formatNumber(c, decimals))
+        .join(',');
+      return encoded === fallback ? null : encoded;
+    }
+    case 'vec3':
+    case 'vec4': {
+      if (!Array.isArray(value)) return null;
+      const encoded = toHex(value);
+      return encoded === toHex(uniform.defaultValue) ? null : encoded;
+    }
+    case 'bool':
+      if (typeof value !== 'boolean' || value === uniform.defaultValue) {
+        return null;
+      }
+      return value ? '1' : '0';
+    case 'enum':
+      if (typeof value !== 'number' || value === uniform.defaultValue) {
+        return null;
+      }
+      return String(value);
+  }
+}
+
+/**
+ * Value from its URL form, or null if it can't be read
+ * Range checks are left to the migration.
+ */
+function decodeValue(
+  uniform: ShaderUniform,
+  text: string
+): UniformValue | null {
+  switch (uniform.type) {
+    case 'float':
+    case 'int': {
+      const value = Number(text);
+      if (text.trim() === '' || !Number.isFinite(value)) return null;
+      return value;
+    }
+    case 'vec2': {
+      const parts = text.split(',').map(Number);
+      if (parts.length !== 2 || !parts.every(Number.isFinite)) return null;
+      return parts;
+    }
+    case 'vec3':
+    case 'vec4': {
+      if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/i.test(text)) return null;
+      const components = (text.match(/../g) ?? []).map(
+        (pair) => parseInt(pair, 16) / 255
+      );
+      // Colors are RGB plus alpha for vec4; alpha defaults to opaque
+      const size = uniform.type === 'vec3' ? 3 : 4;
+      return Array.from({ length: size }, (_, i) => components[i] ?? 1);
+    }
+    case 'bool':
+      if (text === '1' || text === 'true') return true;
+      if (text === '0' || text === 'false') return false;
+      return null;
+    case 'enum': {
+      const index = Number(text);
+      return Number.isInteger(index) ? index : null;
+    }
+  }
+}
+
+/**
+ * Name a uniform had at an older shader version, undoing later renames
+ */
+function getNameAtVersion(
+  shader: ShaderDefinition,
+  name: string,
+  version: number
+): string {
+  const migrations = [...(shader.migrations ?? [])].sort(
+    (a, b) => b.from - a.from
+  );
+  let result = name;
+  for (const migration of migrations) {
+    if (migration.from < version) break;
+    const renamed = Object.entries(migration.rename ?? {}).find(
+      ([, to]) => to === result
+    );
+    if (renamed) result = renamed[0];
+  }
+  return result;
+}
+
+/**
+ * Uniform names a shader has had at any version, from its rename history
+ */
+function getHistoricalNames(shader: ShaderDefinition): Set<string> {
+  const names = new Set<string>();
+  for (const migration of shader.migrations ?? []) {
+    for (const [from, to] of Object.entries(migration.rename ?? {})) {
+      names.add(from);
+      names.add(to);
+    }
+  }
+  return names;
+}
+
+/**
+ * Query string for a shader's uniform values, including the leading "?",
+ * or "" when everything is at its default
+ */
+export function encodeUniformQuery(
+  shader: ShaderDefinition,
+  values: UniformValues
+): string {
+  const params: string[] = [];
+  const version = getShaderVersion(shader);
+  for (const uniform of shader.uniforms) {
+    if (!(uniform.name in values)) continue;
+    const encoded = encodeValue(uniform, values[uniform.name]);
+    if (encoded !== null) {
+      // Encoded values only use URL-safe characters, so commas stay readable
+      const param = encodeURIComponent(getParamName(uniform.name));
+      params.push(`${param}=${encoded}`);
+    }
+  }
+  if (params.length > 0 && version > 1) {
+    params.push(`${VERSION_PARAM}=${version}`);
+  }
+  return params.length > 0 ? `?${params.join('&')}` : '';
+}
+
+/**
+ * Uniform values from a query string: the shader's defaults, overridden by
+ * any parameters that parse, migrated from the link's shader version
+ * Parameters are read with the type of the uniform they map to now.
+ */
+export function decodeUniformQuery(
+  shader: ShaderDefinition,
+  search: string
+): MigrationResult {
+  const params = new URLSearchParams(search);
+  const versionText = params.get(VERSION_PARAM);
+  params.delete(VERSION_PARAM);
+  const linkVersion = Number(versionText ?? 1);
+  const version =
+    Number.isInteger(linkVersion) && linkVersion >= 1 ? linkVersion : 1;
+
+  const values: Record<string, unknown> = {};
+  for (const uniform of shader.uniforms) {
+    const name = getNameAtVersion(shader, uniform.name, version);
+    const param = getParamName(name);
+    const text = params.get(param);
+    if (text === null) continue;
+    params.delete(param);
+    // Unreadable text is passed on, so the report lists it as reset
+    values[name] = decodeValue(uniform, text) ?? text;
+  }
+  // Leftovers naming a former uniform are passed on so the report lists
+  // them as dropped; anything else (tracking params and the like) is ignored
+  for (const name of getHistoricalNames(shader)) {
+    if (name in values) continue;
+    const text = params.get(getParamName(name));
+    if (text !== null) values[name] = text;
+  }
+  return migrateUniformValues(shader, values, version);
+}
+
+/**
+ * Path and query linking to a shader with its current uniform values
+ */
+export function getShaderUrl(
+  shader: ShaderDefinition,
+  values: UniformValues
+): string {
+  return getShaderPath(shader.id) + encodeUniformQuery(shader, values);
+}
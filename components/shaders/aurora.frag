@@ -0,0 +1,103 @@
+#version 300 es
+// @id aurora
+// @name Aurora Borealis
+// @shortLabel Rora
+// @description Flowing curtains of light resembling the northern lights
+// @fallback webgl1
+
+precision highp float;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform vec2 u_mouse;
+// @uniform label="Intensity" type=float min=0.5 max=2 step=0.1 default=1
+uniform float u_intensity;
+// @uniform label="Speed" type=float min=0.5 max=2 step=0.1 default=1
+uniform float u_speed;
+// @uniform label="Wave Height" type=float min=0.3 max=1 step=0.05 default=0.6
+uniform float u_waveHeight;
+// @uniform label="Ground Glow" type=vec3 default=0.086,0.722,0.651
+uniform vec3 u_glowColor;
+// @uniform label="Stars" type=bool default=true
+uniform bool u_stars;
+
+out vec4 fragColor;
+
+#include "palette"
+#include "simplex-noise"
+
+float fbm(vec2 p) {
+    float value = 0.0;
+    float amplitude = 0.5;
+    for(int i = 0; i < 5; i++) {
+        value += amplitude * snoise(p);
+        p *= 2.0;
+        amplitude *= 0.5;
+    }
+    return value;
+}
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+
+    float t = u_time * u_speed;
+
+    vec3 dark = vec3(0.01, 0.01, 0.03);
+
+    // Create multiple aurora curtains
+    vec3 color = dark;
+
+    for(int i = 0; i < 5; i++) {
+        float fi = float(i);
+        float offset = fi * 0.15;
+
+        // Horizontal wave motion
+        float wave = fbm(vec2(uv.x * 2.0 + t * 0.3 + fi, t * 0.1 + fi * 0.5));
+        wave *= u_waveHeight;
+
+        // Vertical position with wave
+        float y = uv.y - 0.3 - offset + wave * 0.3;
+
+        // Aurora curtain shape
+        float curtain = exp(-y * y * 8.0);
+
+        // Add flowing variation
+        float flow = fbm(vec2(uv.x * 3.0 + t * 0.5, y * 2.0 + t * 0.2 + fi));
+        curtain *= 0.5 + 0.5 * flow;
+
+        // Shimmer effect
+        float shimmer = sin(uv.x * 20.0 + t * 3.0 + fi * 2.0) * 0.5 + 0.5;
+        shimmer *= sin(y * 30.0 + t * 2.0) * 0.5 + 0.5;
+        curtain *= 0.7 + 0.3 * shimmer;
+
+        // Color gradient within each curtain
+        vec3 curtainColor;
+        if(i < 2) {
+            curtainColor = mix(SITE_TEAL, SITE_BLUE, smoothstep(-0.2, 0.2, y));
+        } else if(i < 4) {
+            curtainColor = mix(SITE_BLUE, SITE_PINK, smoothstep(-0.1, 0.3, y));
+        } else {
+            curtainColor = mix(SITE_PINK, SITE_TEAL, smoothstep(-0.1, 0.3, y));
+        }
+
+        // Add to color with intensity
+        color += curtainColor * curtain * u_intensity * 0.4;
+    }
+
+    // Add stars in the dark areas
+    if(u_stars) {
+        float stars = pow(snoise(uv * 100.0), 8.0);
+        stars *= smoothstep(0.3, 0.0, length(color));
+        color += stars * 0.5;
+    }
+
+    // Add subtle gradient at bottom (ground glow)
+    float groundGlow = smoothstep(0.3, 0.0, uv.y);
+    color += groundGlow * u_glowColor * 0.05;
+
+    // Vignette
+    float vignette = 1.0 - smoothstep(0.5, 1.5, length((uv - 0.5) * vec2(1.0, 0.5)));
+    color *= vignette;
+
+    fragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,8 @@
+// Site palette
+// Teal:  rgb(22, 184, 166)
+// Pink:  rgb(217, 70, 239)
+// Blue:  rgb(34, 211, 238)
+const vec3 SITE_TEAL = vec3(0.086, 0.722, 0.651);
+const vec3 SITE_PINK = vec3(0.850, 0.275, 0.937);
+const vec3 SITE_BLUE = vec3(0.133, 0.827, 0.933);
+const vec3 SITE_DARK = vec3(0.02, 0.02, 0.05);
@@ -0,0 +1,47 @@
+// Sphere-tracing raymarch loop, normals and soft shadows
+// The including shader must declare `float getDist(vec3 p)` first.
+// Override MAX_STEPS / MAX_DIST / SURF_DIST with #define before including.
+
+#ifndef MAX_STEPS
+#define MAX_STEPS 100
+#endif
+#ifndef MAX_DIST
+#define MAX_DIST 100.0
+#endif
+#ifndef SURF_DIST
+#define SURF_DIST 0.001
+#endif
+
+float rayMarch(vec3 ro, vec3 rd) {
+    float d0 = 0.0;
+    for(int i = 0; i < MAX_STEPS; i++) {
+        vec3 p = ro + rd * d0;
+        float ds = getDist(p);
+        d0 += ds;
+        if(d0 > MAX_DIST || ds < SURF_DIST) break;
+    }
+    return d0;
+}
+
+vec3 getNormal(vec3 p) {
+    float d = getDist(p);
+    vec2 e = vec2(0.001, 0.0);
+    vec3 n = d - vec3(
+        getDist(p - e.xyy),
+        getDist(p - e.yxy),
+        getDist(p - e.yyx)
+    );
+    return normalize(n);
+}
+
+float softShadow(vec3 ro, vec3 rd, float mint, float maxt, float k) {
+    float res = 1.0;
+    float t = mint;
+    for(int i = 0; i < 32; i++) {
+        float h = getDist(ro + rd * t);
+        res = min(res, k * h / t);
+        t += clamp(h, 0.02, 0.1);
+        if(h < 0.001 || t > maxt) break;
+    }
+    return clamp(res, 0.0, 1.0);
+}
@@ -0,0 +1,6 @@
+// 2D rotation matrix
+mat2 rot2D(float angle) {
+    float s = sin(angle);
+    float c = cos(angle);
+    return mat2(c, -s, s, c);
+}
@@ -0,0 +1,108 @@
+#version 300 es
+// @id kaleidoscope
+// @name Kaleidoscope
+// @shortLabel Kaleid
+// @description Radial symmetry with rotating procedural patterns creating mandala-like visuals
+// @fallback webgl1
+
+precision highp float;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform vec2 u_mouse;
+// @uniform label="Segments" type=int min=4 max=16 step=1 default=8
+uniform int u_segments;
+// @uniform label="Rotation Speed" type=float min=0 max=2 step=0.1 default=0.5
+uniform float u_rotationSpeed;
+// @uniform label="Zoom" type=float min=0.5 max=3 step=0.1 default=1.5
+uniform float u_zoom;
+// @uniform label="Mirror" type=bool default=true
+uniform bool u_mirror;
+
+out vec4 fragColor;
+
+#include "palette"
+#include "rot2d"
+
+#define PI 3.14159265359
+#define TAU 6.28318530718
+
+// Simple hash function for pseudo-random
+float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+// Value noise
+float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+
+    float a = hash(i);
+    float b = hash(i + vec2(1.0, 0.0));
+    float c = hash(i + vec2(0.0, 1.0));
+    float d = hash(i + vec2(1.0, 1.0));
+
+    return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
+}
+
+vec2 kaleidoscope(vec2 uv, int segments, bool mirror) {
+    float angle = atan(uv.y, uv.x);
+    float radius = length(uv);
+
+    // Segment angle
+    float segmentAngle = TAU / float(segments);
+
+    // Fold the angle into one segment
+    angle = mod(angle, segmentAngle);
+
+    // Mirror alternate segments
+    if(mirror) {
+        angle = abs(angle - segmentAngle * 0.5);
+    }
+
+    return vec2(cos(angle), sin(angle)) * radius;
+}
+
+void main() {
+    vec2 uv = (gl_FragCoord.xy - 0.5 * u_resolution.xy) / u_resolution.y;
+
+    float t = u_time * u_rotationSpeed;
+
+    // Apply rotation
+    uv = rot2D(t) * uv;
+
+    // Apply kaleidoscope symmetry
+    vec2 kUv = kaleidoscope(uv, u_segments, u_mirror);
+
+    // Scale
+    kUv *= u_zoom;
+
+    // Create pattern
+    float r = length(kUv);
+    float a = atan(kUv.y, kUv.x);
+
+    // Layered patterns
+    float pattern1 = sin(r * 10.0 - t * 2.0) * 0.5 + 0.5;
+    float pattern2 = sin(a * 5.0 + r * 5.0 + t) * 0.5 + 0.5;
+    float pattern3 = noise(kUv * 3.0 + t * 0.5);
+
+    // Combine patterns
+    float pattern = pattern1 * pattern2;
+    pattern = mix(pattern, pattern3, 0.3);
+
+    // Color mapping
+    vec3 color = SITE_DARK;
+    color = mix(color, SITE_TEAL, smoothstep(0.2, 0.4, pattern));
+    color = mix(color, SITE_PINK, smoothstep(0.5, 0.7, pattern));
+    color = mix(color, SITE_BLUE, smoothstep(0.7, 0.9, pattern));
+
+    // Add glow at center
+    float glow = exp(-r * 3.0) * 0.5;
+    color += glow * mix(SITE_PINK, SITE_BLUE, sin(t) * 0.5 + 0.5);
+
+    // Radial fade
+    color *= smoothstep(1.5, 0.2, r);
+
+    fragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,81 @@
+#version 300 es
+// @id noise
+// @name Fractal Noise
+// @shortLabel Noise
+// @description Layered simplex noise creating organic, flowing patterns
+// @fallback webgl1
+
+precision highp float;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform vec2 u_mouse;
+// @uniform label="Octaves" type=int min=1 max=6 step=1 default=4
+uniform int u_octaves;
+// @uniform label="Persistence" type=float min=0.3 max=0.7 step=0.05 default=0.5
+uniform float u_persistence;
+// @uniform label="Zoom" type=float min=1 max=5 step=0.25 default=2
+uniform float u_zoom;
+// @uniform label="Style" type=enum options="Smooth|Banded" default=Smooth
+uniform int u_style;
+
+out vec4 fragColor;
+
+#include "palette"
+#include "simplex-noise"
+
+float fbm(vec2 p, int octaves, float persistence) {
+    float value = 0.0;
+    float amplitude = 0.5;
+    float frequency = 1.0;
+    float maxValue = 0.0;
+
+    for(int i = 0; i < 6; i++) {
+        if(i >= octaves) break;
+        value += amplitude * snoise(p * frequency);
+        maxValue += amplitude;
+        amplitude *= persistence;
+        frequency *= 2.0;
+    }
+
+    return value / maxValue;
+}
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+    vec2 p = uv * u_zoom;
+
+    // Animate the noise
+    float t = u_time * 0.3;
+
+    // Layer multiple noise samples with time offset
+    float n1 = fbm(p + vec2(t * 0.5, t * 0.3), u_octaves, u_persistence);
+    float n2 = fbm(p + vec2(-t * 0.4, t * 0.2) + vec2(5.2, 1.3), u_octaves, u_persistence);
+    float n3 = fbm(p + vec2(t * 0.3, -t * 0.5) + vec2(3.7, 8.1), u_octaves, u_persistence);
+
+    // Create color based on noise values
+    float blend1 = smoothstep(-0.3, 0.3, n1);
+    float blend2 = smoothstep(-0.3, 0.3, n2);
+    float blend3 = smoothstep(-0.3, 0.3, n3);
+
+    // Banded style quantizes the blends into contour steps
+    if(u_style == 1) {
+        blend1 = floor(blend1 * 4.0) / 4.0;
+        blend2 = floor(blend2 * 4.0) / 4.0;
+        blend3 = floor(blend3 * 4.0) / 4.0;
+    }
+
+    vec3 color = mix(SITE_DARK, SITE_TEAL, blend1 * 0.8);
+    color = mix(color, SITE_PINK, blend2 * 0.6);
+    color = mix(color, SITE_BLUE, blend3 * 0.5);
+
+    // Add some variation
+    float detail = snoise(p * 4.0 + t);
+    color += detail * 0.05;
+
+    // Vignette
+    float vignette = 1.0 - smoothstep(0.3, 0.9, length(uv - 0.5));
+    color *= 0.7 + 0.3 * vignette;
+
+    fragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,47 @@
+#version 300 es
+// @id plasma
+// @name Plasma Waves
+// @shortLabel Plas
+// @description Classic plasma effect using layered sine waves with vibrant site colors
+// @fallback webgl1
+
+precision highp float;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform vec2 u_mouse;
+// @uniform label="Speed" type=float min=0.5 max=2 step=0.1 default=1
+uniform float u_speed;
+// @uniform label="Scale" type=float min=1 max=10 step=0.5 default=4
+uniform float u_scale;
+// @uniform label="Color Shift" type=float min=0 max=1 step=0.05 default=0.5
+uniform float u_colorShift;
+// @uniform label="Origin" type=vec2 min=-1 max=1 step=0.01 default=0,0
+uniform vec2 u_origin;
+
+out vec4 fragColor;
+
+#include "palette"
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+    float t = u_time * u_speed;
+
+    // Create plasma pattern with layered sine waves
+    float v1 = sin(uv.x * u_scale + t);
+    float v2 = sin(uv.y * u_scale + t);
+    float v3 = sin((uv.x + uv.y) * u_scale + t);
+    float v4 = sin(length(uv - u_origin) * u_scale * 2.0 + t);
+
+    float plasma = (v1 + v2 + v3 + v4) * 0.25;
+
+    // Mix colors based on plasma value and color shift
+    float shift = plasma + u_colorShift;
+    vec3 color = mix(SITE_TEAL, SITE_PINK, smoothstep(-0.5, 0.5, sin(shift * 3.14159)));
+    color = mix(color, SITE_BLUE, smoothstep(-0.5, 0.5, cos(shift * 3.14159 + t * 0.5)));
+
+    // Add some brightness variation
+    color *= 0.8 + 0.2 * sin(plasma * 3.14159 * 2.0);
+
+    fragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,46 @@
+#version 300 es
+// @id bloom
+// @name Bloom
+// @description Soft glow spilling from bright areas
+
+precision highp float;
+
+uniform vec2 u_resolution;
+uniform sampler2D u_input;
+// @uniform label="Threshold" type=float min=0 max=1 step=0.05 default=0.6
+uniform float u_threshold;
+// @uniform label="Intensity" type=float min=0 max=2 step=0.05 default=0.8
+uniform float u_intensity;
+// @uniform label="Radius" type=float min=2 max=40 step=1 default=16
+uniform float u_radius;
+
+out vec4 fragColor;
+
+const int SAMPLES = 32;
+const float GOLDEN_ANGLE = 2.39996323;
+
+// Input color above the threshold, with a soft knee
+vec3 bright(vec2 uv) {
+    vec3 color = texture(u_input, uv).rgb;
+    float luma = max(color.r, max(color.g, color.b));
+    return color * max(luma - u_threshold, 0.0) / max(luma, 1e-4);
+}
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+    vec3 color = texture(u_input, uv).rgb;
+
+    // Single-pass blur: golden-angle spiral of taps out to the radius
+    vec3 glow = vec3(0.0);
+    float total = 0.0;
+    for (int i = 0; i < SAMPLES; i++) {
+        float r = sqrt((float(i) + 0.5) / float(SAMPLES));
+        float angle = float(i) * GOLDEN_ANGLE;
+        vec2 offset = vec2(cos(angle), sin(angle)) * r * u_radius / u_resolution.xy;
+        float weight = 1.0 - r * 0.75;
+        glow += bright(uv + offset) * weight;
+        total += weight;
+    }
+
+    fragColor = vec4(color + glow / total * u_intensity, 1.0);
+}
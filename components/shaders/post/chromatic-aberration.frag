@@ -0,0 +1,27 @@
+#version 300 es
+// @id chromatic-aberration
+// @name Chromatic Aberration
+// @description Splits red and blue channels apart toward the edges, like a cheap lens
+
+precision highp float;
+
+uniform vec2 u_resolution;
+uniform sampler2D u_input;
+// @uniform label="Amount" type=float min=0 max=20 step=0.5 default=4
+uniform float u_amount;
+
+out vec4 fragColor;
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+
+    // Offset grows from 0 at the center to u_amount pixels at the edges
+    vec2 offset = (uv - 0.5) * 2.0 * u_amount / u_resolution.xy;
+
+    fragColor = vec4(
+        texture(u_input, uv + offset).r,
+        texture(u_input, uv).g,
+        texture(u_input, uv - offset).b,
+        1.0
+    );
+}
@@ -0,0 +1,32 @@
+#version 300 es
+// @id color-grade
+// @name Color Grading
+// @description Exposure, contrast, saturation and tint
+
+precision highp float;
+
+uniform vec2 u_resolution;
+uniform sampler2D u_input;
+// @uniform label="Exposure" type=float min=-2 max=2 step=0.1 default=0
+uniform float u_exposure;
+// @uniform label="Contrast" type=float min=0.5 max=1.5 step=0.05 default=1
+uniform float u_contrast;
+// @uniform label="Saturation" type=float min=0 max=2 step=0.05 default=1
+uniform float u_saturation;
+// @uniform label="Tint" type=vec3 default=#ffffff
+uniform vec3 u_tint;
+
+out vec4 fragColor;
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+    vec3 color = texture(u_input, uv).rgb;
+
+    color *= exp2(u_exposure);
+    color = (color - 0.5) * u_contrast + 0.5;
+    float luma = dot(color, vec3(0.299, 0.587, 0.114));
+    color = mix(vec3(luma), color, u_saturation);
+    color *= u_tint;
+
+    fragColor = vec4(max(color, 0.0), 1.0);
+}
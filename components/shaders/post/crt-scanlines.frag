@@ -0,0 +1,47 @@
+#version 300 es
+// @id crt-scanlines
+// @name CRT Scanlines
+// @description Curved screen, scanlines and an RGB shadow mask
+
+precision highp float;
+
+uniform vec2 u_resolution;
+uniform sampler2D u_input;
+// @uniform label="Line Spacing" type=float min=2 max=8 step=1 default=3
+uniform float u_lineSpacing;
+// @uniform label="Intensity" type=float min=0 max=1 step=0.05 default=0.35
+uniform float u_intensity;
+// @uniform label="Curvature" type=float min=0 max=0.5 step=0.01 default=0.1
+uniform float u_curvature;
+// @uniform label="Shadow Mask" type=bool default=true
+uniform bool u_shadowMask;
+
+out vec4 fragColor;
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+
+    // Barrel distortion
+    vec2 centered = uv * 2.0 - 1.0;
+    centered *= 1.0 + u_curvature * dot(centered, centered) * 0.25;
+    uv = centered * 0.5 + 0.5;
+    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {
+        fragColor = vec4(0.0, 0.0, 0.0, 1.0);
+        return;
+    }
+
+    vec3 color = texture(u_input, uv).rgb;
+
+    // Dark gap between lines
+    float line = sin(gl_FragCoord.y / u_lineSpacing * 3.14159);
+    color *= 1.0 - u_intensity * (1.0 - line * line);
+
+    // Alternating R/G/B phosphor columns
+    if (u_shadowMask) {
+        int column = int(mod(gl_FragCoord.x, 3.0));
+        vec3 mask = vec3(column == 0, column == 1, column == 2);
+        color *= mix(vec3(1.0), mask * 1.5 + 0.4, u_intensity);
+    }
+
+    fragColor = vec4(color, 1.0);
+}
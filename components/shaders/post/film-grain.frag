@@ -0,0 +1,37 @@
+#version 300 es
+// @id film-grain
+// @name Film Grain
+// @description Animated noise over the image, strongest in the midtones
+
+precision highp float;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform sampler2D u_input;
+// @uniform label="Amount" type=float min=0 max=0.5 step=0.01 default=0.08
+uniform float u_amount;
+// @uniform label="Grain Size" type=float min=1 max=4 step=0.5 default=1.5
+uniform float u_grainSize;
+
+out vec4 fragColor;
+
+float hash(vec2 p) {
+    vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+    p3 += dot(p3, p3.yzx + 33.33);
+    return fract((p3.x + p3.y) * p3.z);
+}
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+    vec3 color = texture(u_input, uv).rgb;
+
+    // New grain pattern every frame (24 fps, like film)
+    vec2 cell = floor(gl_FragCoord.xy / u_grainSize);
+    float noise = hash(cell + floor(u_time * 24.0) * 17.0) - 0.5;
+
+    // Less grain in deep shadows and highlights
+    float luma = dot(color, vec3(0.299, 0.587, 0.114));
+    float response = 1.0 - abs(luma * 2.0 - 1.0) * 0.6;
+
+    fragColor = vec4(color + noise * u_amount * response, 1.0);
+}
@@ -0,0 +1,19 @@
+#version 300 es
+// @id pixelate
+// @name Pixelate
+// @description Chunky square pixels
+
+precision highp float;
+
+uniform vec2 u_resolution;
+uniform sampler2D u_input;
+// @uniform label="Pixel Size" type=float min=2 max=48 step=1 default=8
+uniform float u_pixelSize;
+
+out vec4 fragColor;
+
+void main() {
+    // Sample each block at its center
+    vec2 block = (floor(gl_FragCoord.xy / u_pixelSize) + 0.5) * u_pixelSize;
+    fragColor = vec4(texture(u_input, block / u_resolution.xy).rgb, 1.0);
+}
@@ -0,0 +1,28 @@
+#version 300 es
+// @id vignette
+// @name Vignette
+// @description Darkens the frame toward its edges
+
+precision highp float;
+
+uniform vec2 u_resolution;
+uniform sampler2D u_input;
+// @uniform label="Strength" type=float min=0 max=1 step=0.05 default=0.5
+uniform float u_strength;
+// @uniform label="Size" type=float min=0.2 max=1.5 step=0.05 default=0.8
+uniform float u_size;
+// @uniform label="Softness" type=float min=0.05 max=1 step=0.05 default=0.45
+uniform float u_softness;
+
+out vec4 fragColor;
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+    vec3 color = texture(u_input, uv).rgb;
+
+    // Aspect-corrected distance from the center
+    vec2 centered = (uv - 0.5) * vec2(u_resolution.x / u_resolution.y, 1.0);
+    float edge = 1.0 - smoothstep(u_size - u_softness, u_size, length(centered) * 1.4);
+
+    fragColor = vec4(color * mix(1.0, edge, u_strength), 1.0);
+}
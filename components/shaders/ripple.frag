@@ -0,0 +1,64 @@
+#version 300 es
+// @id ripple
+// @name Texture Ripple
+// @shortLabel Ripl
+// @description Water ripples from the mouse refracting a dropped image or video, roughened by a noise texture
+
+precision highp float;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform vec2 u_mouse;
+// @channel label="Image" source=file filter=mipmap wrap=mirror
+uniform sampler2D u_image;
+uniform vec2 u_imageResolution;
+// @channel label="Noise" source=noise size=256 seed=7 filter=linear wrap=repeat
+uniform sampler2D u_noise;
+// @uniform label="Strength" type=float min=0 max=0.1 step=0.005 default=0.03
+uniform float u_strength;
+// @uniform label="Frequency" type=float min=5 max=60 step=1 default=30
+uniform float u_frequency;
+// @uniform label="Grain" type=float min=0 max=1 step=0.05 default=0.3
+uniform float u_grain;
+
+out vec4 fragColor;
+
+#include "palette"
+
+// Site-colored stripes shown until an image or video is dropped
+vec3 placeholder(vec2 uv) {
+    float stripes = step(0.5, fract((uv.x + uv.y) * 8.0));
+    return SITE_DARK + mix(SITE_TEAL, SITE_PINK, stripes) * 0.6;
+}
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+    float aspect = u_resolution.x / u_resolution.y;
+
+    // Rings spreading from the mouse, fading with distance
+    vec2 toMouse = (uv - u_mouse) * vec2(aspect, 1.0);
+    float dist = length(toMouse);
+    float wave = sin(dist * u_frequency - u_time * 4.0) / (1.0 + dist * 10.0);
+
+    // Noise texture breaks up the otherwise perfect rings
+    vec2 grain = texture(u_noise, uv * 0.5 + u_time * 0.02).rg - 0.5;
+    vec2 offset = (normalize(toMouse + 1e-5) * wave + grain * u_grain) * u_strength;
+    vec2 sampleUv = uv + offset;
+
+    vec3 color;
+    if (u_imageResolution.x > 0.0) {
+        // Cover-fit the image to the canvas
+        float imageAspect = u_imageResolution.x / u_imageResolution.y;
+        vec2 scale = aspect > imageAspect
+            ? vec2(1.0, imageAspect / aspect)
+            : vec2(aspect / imageAspect, 1.0);
+        color = texture(u_image, (sampleUv - 0.5) * scale + 0.5).rgb;
+    } else {
+        color = placeholder(sampleUv);
+    }
+
+    // Catch the light on ripple crests
+    color += SITE_BLUE * max(wave, 0.0) * 0.15;
+
+    fragColor = vec4(color, 1.0);
+}
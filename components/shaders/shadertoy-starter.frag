@@ -0,0 +1,31 @@
+// @id shadertoy-starter
+// @name Shadertoy Starter
+// @shortLabel Toy
+// @description Shadertoy's new-shader template running through the compatibility adapter; click and drag to draw with iMouse
+// @format shadertoy
+
+void mainImage( out vec4 fragColor, in vec2 fragCoord )
+{
+    // Normalized pixel coordinates (from 0 to 1)
+    vec2 uv = fragCoord/iResolution.xy;
+
+    // Time varying pixel color
+    vec3 col = 0.5 + 0.5*cos(iTime+uv.xyx+vec3(0,2,4));
+
+    // Ring around the last click position
+    vec2 click = abs(iMouse.zw);
+    if (click.x + click.y > 0.0)
+    {
+        float d = length(fragCoord - click);
+        col += 0.4*smoothstep(3.0, 0.0, abs(d - 40.0));
+    }
+
+    // Dot under the pointer while the button is held
+    if (iMouse.z > 0.0)
+    {
+        col = mix(col, vec3(1.0), smoothstep(12.0, 10.0, length(fragCoord - iMouse.xy)));
+    }
+
+    // Output to screen
+    fragColor = vec4(col,1.0);
+}
@@ -0,0 +1,87 @@
+#version 300 es
+// @id sphere
+// @name Raymarched Sphere
+// @shortLabel Sphere
+// @description SDF sphere with phong lighting and soft shadows using raymarching
+// @fallback webgl1
+
+precision highp float;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform vec2 u_mouse;
+// @uniform label="Rotation Speed" type=float min=0 max=2 step=0.1 default=0.5
+uniform float u_rotationSpeed;
+// @uniform label="Glossiness" type=float min=0.1 max=1 step=0.05 default=0.5
+uniform float u_glossiness;
+// @uniform label="Sphere Scale" type=float min=0.5 max=1.5 step=0.1 default=1
+uniform float u_sphereScale;
+// @uniform label="Background" type=vec4 default=0.02,0.02,0.05,1
+uniform vec4 u_background;
+
+out vec4 fragColor;
+
+#include "palette"
+#include "rot2d"
+#include "sdf"
+
+float getDist(vec3 p) {
+    // Rotate the point around Y axis
+    float angle = u_time * u_rotationSpeed;
+    p.xz *= rot2D(angle);
+    p.yz *= rot2D(angle * 0.7);
+
+    float sphere = sdSphere(p, 0.8 * u_sphereScale);
+    float plane = p.y + 1.5;
+
+    return min(sphere, plane);
+}
+
+#include "raymarch"
+
+void main() {
+    vec2 uv = (gl_FragCoord.xy - 0.5 * u_resolution.xy) / u_resolution.y;
+
+    // Camera setup
+    vec3 ro = vec3(0.0, 0.5, 3.0);
+    vec3 rd = normalize(vec3(uv, -1.0));
+
+    float d = rayMarch(ro, rd);
+    vec3 color = u_background.rgb * u_background.a; // Background, faded to black by alpha
+
+    if(d < MAX_DIST) {
+        vec3 p = ro + rd * d;
+        vec3 n = getNormal(p);
+
+        // Light position (rotates)
+        vec3 lightPos = vec3(2.0 * sin(u_time * 0.5), 2.0, 2.0 * cos(u_time * 0.5));
+        vec3 lightDir = normalize(lightPos - p);
+        vec3 viewDir = normalize(ro - p);
+        vec3 halfDir = normalize(lightDir + viewDir);
+
+        // Diffuse
+        float diff = max(dot(n, lightDir), 0.0);
+
+        // Specular (Blinn-Phong)
+        float spec = pow(max(dot(n, halfDir), 0.0), 32.0 * u_glossiness);
+
+        // Fresnel
+        float fresnel = pow(1.0 - max(dot(n, viewDir), 0.0), 3.0);
+
+        // Soft shadow
+        float shadow = softShadow(p + n * 0.02, lightDir, 0.02, 5.0, 8.0);
+
+        // Combine colors based on surface angle
+        vec3 baseColor = mix(SITE_TEAL, SITE_PINK, fresnel);
+        baseColor = mix(baseColor, SITE_BLUE, 0.3 + 0.3 * sin(u_time));
+
+        color = baseColor * (0.2 + diff * shadow * 0.8);
+        color += spec * shadow * u_glossiness * vec3(1.0);
+        color += fresnel * SITE_BLUE * 0.3;
+    }
+
+    // Gamma correction
+    color = pow(color, vec3(0.4545));
+
+    fragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,38 @@
+#version 300 es
+// "trail" buffer pass for trails.frag: fades the previous frame, then stamps
+// the brushes on top. Uniforms are shared with (and annotated in) trails.frag.
+
+precision highp float;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform vec2 u_mouse;
+uniform sampler2D u_trail;
+uniform float u_speed;
+uniform float u_decay;
+uniform float u_brushSize;
+
+out vec4 fragColor;
+
+#include "palette"
+
+// Soft round brush centered at p, in aspect-corrected units
+float brush(vec2 uv, vec2 p) {
+    vec2 d = (uv - p) * vec2(u_resolution.x / u_resolution.y, 1.0);
+    return exp(-dot(d, d) / (u_brushSize * u_brushSize));
+}
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+    float t = u_time * u_speed;
+
+    // Previous frame of this pass, faded
+    vec3 color = texture(u_trail, uv).rgb * u_decay;
+
+    // Two Lissajous brushes plus one following the mouse
+    color += SITE_TEAL * brush(uv, 0.5 + 0.35 * vec2(sin(t * 1.3), sin(t * 1.7)));
+    color += SITE_PINK * brush(uv, 0.5 + 0.35 * vec2(cos(t * 0.9), sin(t * 2.1)));
+    color += SITE_BLUE * brush(uv, u_mouse);
+
+    fragColor = vec4(color, 1.0);
+}
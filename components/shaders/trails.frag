@@ -0,0 +1,33 @@
+#version 300 es
+// @id trails
+// @name Feedback Trails
+// @shortLabel Trail
+// @description Glowing brushes leaving fading trails through a previous-frame feedback buffer
+
+precision highp float;
+
+uniform vec2 u_resolution;
+// Written by the "trail" buffer pass (trails-buffer.frag)
+uniform sampler2D u_trail;
+// @uniform label="Speed" type=float min=0.2 max=3 step=0.1 default=1
+uniform float u_speed;
+// @uniform label="Decay" type=float min=0.8 max=0.995 step=0.005 default=0.96
+uniform float u_decay;
+// @uniform label="Brush Size" type=float min=0.005 max=0.08 step=0.005 default=0.025
+uniform float u_brushSize;
+// @uniform label="Exposure" type=float min=0.2 max=3 step=0.1 default=1.2
+uniform float u_exposure;
+
+out vec4 fragColor;
+
+#include "palette"
+
+void main() {
+    vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+
+    // Accumulated trail energy is unbounded, so tone map it onto the background
+    vec3 trail = texture(u_trail, uv).rgb;
+    vec3 color = SITE_DARK + (1.0 - exp(-trail * u_exposure));
+
+    fragColor = vec4(color, 1.0);
+}
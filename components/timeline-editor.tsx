@@ -0,0 +1,454 @@
+"use client";
+
+import { useState } from "react";
+import {
+  useTransportState,
+  type PlaybackTransport,
+} from "./playback-transport";
+import {
+  ANIMATION_MODES,
+  DEFAULT_BEZIER,
+  EASINGS,
+  MIN_ANIMATION_DURATION,
+  getAnimationTime,
+  removeKeyframe,
+  setKeyframe,
+  updateKeyframe,
+  type AnimationMode,
+  type BezierPoints,
+  type Easing,
+  type UniformAnimation,
+} from "./uniform-animation";
+import type { ShaderDefinition, UniformValues } from "./shader-gallery";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TimelineEditorProps {
+  shader: ShaderDefinition;
+  /** Static uniform values; new keyframes take the uniform's value */
+  uniforms: UniformValues;
+  animation: UniformAnimation;
+  onChange: (animation: UniformAnimation) => void;
+  /** Clock the playhead follows; clicking a track seeks it */
+  transport: PlaybackTransport;
+}
+
+/**
+ * Keyframe being edited, by track and position in it
+ */
+interface Selection {
+  name: string;
+  index: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MODE_LABELS: Record<AnimationMode, string> = {
+  loop: "Loop",
+  pingpong: "Ping-pong",
+};
+
+const EASING_LABELS: Record<Easing, string> = {
+  linear: "Linear",
+  "ease-in": "Ease in",
+  "ease-out": "Ease out",
+  "ease-in-out": "Ease in-out",
+  bezier: "Bezier",
+  step: "Step",
+};
+
+const inputClass = `w-full px-2 py-1 text-xs font-mono rounded-md
+  bg-surface/50 border border-border text-foreground
+  focus:outline-none focus:ring-2 focus:ring-accent-teal`;
+
+const buttonClass = `px-2 py-1 text-xs rounded-md bg-surface/50 text-muted
+  transition-colors hover:bg-surface hover:text-foreground
+  focus:outline-none focus:ring-2 focus:ring-accent-teal`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Round a time to the 0.01s grid keyframes are placed on
+ */
+function snapTime(time: number): number {
+  return Math.round(time * 100) / 100;
+}
+
+/**
+ * Cubic-bezier control point inputs
+ */
+function BezierFields({
+  points,
+  onChange,
+}: {
+  points: BezierPoints;
+  onChange: (points: BezierPoints) => void;
+}) {
+  const labels = ["x1", "y1", "x2", "y2"];
+  return (
+    <div className="grid grid-cols-4 gap-1">
+      {points.map((point, i) => (
+        <label key={labels[i]} className="block">
+          <span className="text-[10px] text-muted block mb-1">{labels[i]}</span>
+          <input
+            type="number"
+            step={0.05}
+            // x stays in 0-1 so the curve is a function of time
+            min={i % 2 === 0 ? 0 : undefined}
+            max={i % 2 === 0 ? 1 : undefined}
+            value={point}
+            onChange={(e) => {
+              const next = [...points] as BezierPoints;
+              next[i] = Number(e.target.value);
+              onChange(next);
+            }}
+            className={inputClass}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Keyframe time input, committed on blur or Enter so partly typed times
+ * don't move the keyframe (or run it into another one) on the way
+ */
+function KeyframeTimeField({
+  time,
+  duration,
+  isTaken,
+  onCommit,
+}: {
+  time: number;
+  duration: number;
+  /** Whether another keyframe on the track is at this time */
+  isTaken: (time: number) => boolean;
+  onCommit: (time: number) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const parsed = draft === null || draft.trim() === "" ? NaN : Number(draft);
+  const next = Number.isFinite(parsed)
+    ? snapTime(Math.min(duration, Math.max(0, parsed)))
+    : null;
+  const taken = next !== null && next !== time && isTaken(next);
+
+  const commit = () => {
+    setDraft(null);
+    if (next !== null && next !== time && !taken) onCommit(next);
+  };
+
+  return (
+    <label className="block">
+      <span className="text-xs text-foreground/80 block mb-1">Time (s)</span>
+      <input
+        type="number"
+        min={0}
+        max={duration}
+        step={0.01}
+        value={draft ?? time}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+          if (e.key === "Escape") setDraft(null);
+        }}
+        className={inputClass}
+      />
+      {taken && (
+        <span className="text-[10px] text-red-400 block mt-1">
+          Another keyframe is at {next.toFixed(2)}s
+        </span>
+      )}
+    </label>
+  );
+}
+
+/**
+ * Time, easing and value controls for the selected keyframe
+ */
+function KeyframeFields({
+  shader,
+  animation,
+  selection,
+  uniforms,
+  onChange,
+  onRemove,
+}: {
+  shader: ShaderDefinition;
+  animation: UniformAnimation;
+  selection: Selection;
+  uniforms: UniformValues;
+  onChange: (animation: UniformAnimation, index: number) => void;
+  onRemove: () => void;
+}) {
+  const { name, index } = selection;
+  const keyframe = animation.tracks[name]?.[index];
+  const uniform = shader.uniforms.find((u) => u.name === name);
+  if (!keyframe || !uniform) return null;
+
+  // Edits can reorder the track, so follow the keyframe to its new index
+  // (times on a track are unique; a taken time leaves the animation as is)
+  const update = (patch: Parameters<typeof updateKeyframe>[3]) => {
+    const next = updateKeyframe(animation, name, index, patch);
+    if (next === animation) return;
+    const time = patch.time ?? keyframe.time;
+    onChange(next, next.tracks[name].findIndex((k) => k.time === time));
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-md border border-border bg-surface/30 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-foreground">
+          {uniform.label}{" "}
+          <span className="text-muted font-mono">@ {keyframe.time.toFixed(2)}s</span>
+        </span>
+        <div className="flex gap-1">
+          <button
+            onClick={() => update({ value: uniforms[name] })}
+            className={buttonClass}
+            title="Set the keyframe to the control's current value"
+          >
+            Use current value
+          </button>
+          <button onClick={onRemove} className={buttonClass}>
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <KeyframeTimeField
+        key={`${name}:${index}`}
+        time={keyframe.time}
+        duration={animation.duration}
+        isTaken={(time) =>
+          animation.tracks[name].some((k, i) => i !== index && k.time === time)
+        }
+        onCommit={(time) => update({ time })}
+      />
+
+      <div>
+        <span className="text-xs text-foreground/80 block mb-1">
+          Easing to next keyframe
+        </span>
+        <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label="Easing">
+          {EASINGS.map((easing) => (
+            <button
+              key={easing}
+              role="radio"
+              aria-checked={keyframe.easing === easing}
+              onClick={() =>
+                update({
+                  easing,
+                  ...(easing === "bezier" &&
+                    !keyframe.bezier && { bezier: DEFAULT_BEZIER }),
+                })
+              }
+              className={`px-1 py-1 text-xs rounded-md transition-all
+                focus:outline-none focus:ring-2 focus:ring-accent-teal
+                ${
+                  keyframe.easing === easing
+                    ? "bg-accent-teal text-white font-medium"
+                    : "bg-surface/50 text-muted hover:bg-surface hover:text-foreground"
+                }`}
+            >
+              {EASING_LABELS[easing]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {keyframe.easing === "bezier" && (
+        <BezierFields
+          points={keyframe.bezier ?? DEFAULT_BEZIER}
+          onChange={(bezier) => update({ bezier })}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * TimelineEditor Component
+ *
+ * One track per uniform with its keyframes and a playhead following the
+ * transport. Add a keyframe at the playhead from the control's current
+ * value, then click it to change its time, easing or value.
+ */
+export function TimelineEditor({
+  shader,
+  uniforms,
+  animation,
+  onChange,
+  transport,
+}: TimelineEditorProps) {
+  const { time } = useTransportState(transport);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const playhead = getAnimationTime(animation, time);
+  const { duration } = animation;
+
+  const handleDurationChange = (value: number) => {
+    if (!Number.isFinite(value)) return;
+    const next = Math.max(MIN_ANIMATION_DURATION, value);
+    // Keyframes past the new end move onto it
+    const tracks: UniformAnimation["tracks"] = {};
+    for (const [name, track] of Object.entries(animation.tracks)) {
+      tracks[name] = track.map((k) => ({ ...k, time: Math.min(next, k.time) }));
+    }
+    onChange({ ...animation, duration: next, tracks });
+  };
+
+  const handleAdd = (name: string) => {
+    const keyframeTime = snapTime(playhead);
+    const next = setKeyframe(animation, name, {
+      time: keyframeTime,
+      value: uniforms[name],
+      easing: "linear",
+    });
+    onChange(next);
+    setSelection({
+      name,
+      index: next.tracks[name].findIndex((k) => k.time === keyframeTime),
+    });
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-lg border border-border bg-black/40 text-xs">
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <span className="font-medium text-foreground">Timeline</span>
+        <label className="flex items-center gap-2 text-muted">
+          Duration (s)
+          <input
+            type="number"
+            min={MIN_ANIMATION_DURATION}
+            step={0.5}
+            value={duration}
+            onChange={(e) => handleDurationChange(Number(e.target.value))}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        <div className="flex gap-1" role="radiogroup" aria-label="Repeat">
+          {ANIMATION_MODES.map((mode) => (
+            <button
+              key={mode}
+              role="radio"
+              aria-checked={animation.mode === mode}
+              onClick={() => onChange({ ...animation, mode })}
+              className={`px-2 py-1 text-xs rounded-md transition-all
+                focus:outline-none focus:ring-2 focus:ring-accent-teal
+                ${
+                  animation.mode === mode
+                    ? "bg-accent-teal text-white font-medium"
+                    : "bg-surface/50 text-muted hover:bg-surface hover:text-foreground"
+                }`}
+            >
+              {MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => {
+            onChange({ ...animation, tracks: {} });
+            setSelection(null);
+          }}
+          className={`${buttonClass} ml-auto`}
+        >
+          Clear keyframes
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {shader.uniforms.map((uniform) => {
+          const track = animation.tracks[uniform.name] ?? [];
+          return (
+            <div
+              key={uniform.name}
+              className="grid grid-cols-[7rem_1fr_auto] items-center gap-2"
+            >
+              <span
+                className={`truncate ${track.length > 0 ? "text-accent-teal" : "text-muted"}`}
+                title={uniform.name}
+              >
+                {uniform.label}
+              </span>
+              <div
+                className="relative h-6 rounded bg-surface/50 cursor-pointer"
+                onClick={(e) => {
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  transport.seek(((e.clientX - rect.left) / rect.width) * duration);
+                }}
+              >
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-accent-pink pointer-events-none"
+                  style={{ left: `${(playhead / duration) * 100}%` }}
+                />
+                {track.map((keyframe, index) => {
+                  const selected =
+                    selection?.name === uniform.name && selection.index === index;
+                  return (
+                    <button
+                      key={`${keyframe.time}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSelection(
+                          selected ? null : { name: uniform.name, index }
+                        );
+                      }}
+                      aria-label={`${uniform.label} keyframe at ${keyframe.time.toFixed(2)}s`}
+                      title={`${keyframe.time.toFixed(2)}s, ${EASING_LABELS[keyframe.easing]}`}
+                      className={`absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border
+                        focus:outline-none focus:ring-2 focus:ring-accent-teal
+                        ${
+                          selected
+                            ? "bg-accent-pink border-white"
+                            : "bg-accent-teal border-accent-teal/50"
+                        }`}
+                      style={{ left: `${(keyframe.time / duration) * 100}%` }}
+                    />
+                  );
+                })}
+              </div>
+              <button
+                onClick={() => handleAdd(uniform.name)}
+                className={buttonClass}
+                aria-label={`Add ${uniform.label} keyframe at the playhead`}
+                title="Add a keyframe at the playhead with the current value"
+              >
+                + Key
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {selection && (
+        <KeyframeFields
+          shader={shader}
+          animation={animation}
+          selection={selection}
+          uniforms={uniforms}
+          onChange={(next, index) => {
+            onChange(next);
+            setSelection({ name: selection.name, index });
+          }}
+          onRemove={() => {
+            onChange(removeKeyframe(animation, selection.name, selection.index));
+            setSelection(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export default TimelineEditor;
@@ -0,0 +1,157 @@
+"use client";
+
+import {
+  useTransportState,
+  type PlaybackTransport,
+} from "./playback-transport";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TransportControlsProps {
+  transport: PlaybackTransport;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4];
+
+// Scrubber length in seconds; it grows once playback passes the end
+const MIN_SCRUB_RANGE = 60;
+
+const buttonClass = `p-1.5 rounded-md bg-surface/50 text-muted transition-colors
+  hover:bg-surface hover:text-accent-teal
+  focus:outline-none focus:ring-2 focus:ring-accent-teal`;
+
+// ============================================================================
+// Icons
+// ============================================================================
+
+function PlayIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
+      <path d="M8 5v14l11-7z" />
+    </svg>
+  );
+}
+
+function PauseIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
+      <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+    </svg>
+  );
+}
+
+/**
+ * Step icon pointing forward; rotate it for backward
+ */
+function StepIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
+      <path d="M6 5v14l9-7zM16 5h2v14h-2z" />
+    </svg>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * TransportControls Component
+ *
+ * Play/pause, frame stepping, a time scrubber and speed selection for a
+ * playback transport.
+ */
+export function TransportControls({ transport }: TransportControlsProps) {
+  const { time, playing, speed } = useTransportState(transport);
+  const range = Math.max(
+    MIN_SCRUB_RANGE,
+    Math.ceil(time / MIN_SCRUB_RANGE) * MIN_SCRUB_RANGE
+  );
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+      <button
+        onClick={() => transport.step(-1)}
+        className={buttonClass}
+        aria-label="Step back one frame"
+        title="Step back one frame"
+      >
+        <StepIcon className="w-4 h-4 rotate-180" />
+      </button>
+      <button
+        onClick={() => transport.toggle()}
+        className={buttonClass}
+        aria-label={playing ? "Pause" : "Play"}
+        title={playing ? "Pause" : "Play"}
+      >
+        {playing ? (
+          <PauseIcon className="w-4 h-4" />
+        ) : (
+          <PlayIcon className="w-4 h-4" />
+        )}
+      </button>
+      <button
+        onClick={() => transport.step(1)}
+        className={buttonClass}
+        aria-label="Step forward one frame"
+        title="Step forward one frame"
+      >
+        <StepIcon className="w-4 h-4" />
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={range}
+        step={0.01}
+        value={time}
+        onChange={(e) => transport.seek(parseFloat(e.target.value))}
+        aria-label="Time"
+        className="flex-1 min-w-32 h-1.5 bg-border rounded-full appearance-none cursor-pointer
+          [&::-webkit-slider-thumb]:appearance-none
+          [&::-webkit-slider-thumb]:w-3
+          [&::-webkit-slider-thumb]:h-3
+          [&::-webkit-slider-thumb]:rounded-full
+          [&::-webkit-slider-thumb]:bg-accent-teal
+          [&::-webkit-slider-thumb]:cursor-pointer
+          [&::-moz-range-thumb]:w-3
+          [&::-moz-range-thumb]:h-3
+          [&::-moz-range-thumb]:rounded-full
+          [&::-moz-range-thumb]:bg-accent-teal
+          [&::-moz-range-thumb]:border-0
+          [&::-moz-range-thumb]:cursor-pointer"
+      />
+      <span className="w-16 text-right font-mono text-muted">
+        {time.toFixed(2)}s
+      </span>
+
+      <div className="flex gap-1" role="radiogroup" aria-label="Speed">
+        {SPEED_OPTIONS.map((option) => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={speed === option}
+            onClick={() => transport.setSpeed(option)}
+            className={`px-1.5 py-1 rounded-md font-mono transition-all
+              focus:outline-none focus:ring-2 focus:ring-accent-teal
+              ${
+                speed === option
+                  ? "bg-accent-teal text-white font-medium"
+                  : "bg-surface/50 text-muted hover:bg-surface hover:text-foreground"
+              }`}
+          >
+            {option}x
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default TransportControls;
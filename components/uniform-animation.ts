@@ -0,0 +1,336 @@
+// Uniform Animation - Keyframed uniform values evaluated against shader time
+//
+// An animation holds a track of keyframes per uniform and a duration the
+// tracks loop or ping-pong over. Each keyframe's easing shapes the segment
+// leaving it; before the first keyframe and after the last the track holds
+// their values. Uniforms without a track keep their static value.
+// Scalars, vectors and colors interpolate; ints round, bools and enums step.
+
+import {
+  type ShaderDefinition,
+  type ShaderUniform,
+  type UniformValue,
+  type UniformValues,
+} from './shader-gallery';
+import { migrateUniformValues } from './uniform-migrations';
+
+export type Easing =
+  | 'linear'
+  | 'ease-in'
+  | 'ease-out'
+  | 'ease-in-out'
+  | 'bezier'
+  | 'step';
+
+// Control points x1, y1, x2, y2 of a CSS-style cubic-bezier() curve
+export type BezierPoints = [number, number, number, number];
+
+export interface Keyframe {
+  time: number;             // Seconds from the start of the animation
+  value: UniformValue;
+  easing: Easing;           // Curve towards the next keyframe
+  bezier?: BezierPoints;    // Used with 'bezier' easing
+}
+
+// How time past the duration maps back into it
+export type AnimationMode = 'loop' | 'pingpong';
+
+export interface UniformAnimation {
+  duration: number;         // Seconds
+  mode: AnimationMode;
+  /** Keyframes by uniform name, sorted by time */
+  tracks: Record<string, Keyframe[]>;
+}
+
+export const EASINGS: readonly Easing[] = [
+  'linear',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+  'bezier',
+  'step',
+];
+
+export const ANIMATION_MODES: readonly AnimationMode[] = ['loop', 'pingpong'];
+
+export const DEFAULT_BEZIER: BezierPoints = [0.25, 0.1, 0.25, 1];
+
+export const MIN_ANIMATION_DURATION = 0.1;
+
+// Curves behind the named easings, matching their CSS counterparts
+const EASING_CURVES: Partial<Record<Easing, BezierPoints>> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+/**
+ * Create an empty animation
+ */
+export function createAnimation(duration = 10): UniformAnimation {
+  return { duration, mode: 'loop', tracks: {} };
+}
+
+/**
+ * Whether an animation has any keyframes
+ */
+export function isAnimated(
+  animation: UniformAnimation | null | undefined
+): boolean {
+  return (
+    !!animation &&
+    Object.values(animation.tracks).some((track) => track.length > 0)
+  );
+}
+
+/**
+ * Position within the animation for a shader time
+ */
+export function getAnimationTime(
+  animation: UniformAnimation,
+  time: number
+): number {
+  const { duration } = animation;
+  if (animation.mode === 'pingpong') {
+    const cycle = ((time % (2 * duration)) + 2 * duration) % (2 * duration);
+    return cycle > duration ? 2 * duration - cycle : cycle;
+  }
+  return ((time % duration) + duration) % duration;
+}
+
+/**
+ * Evaluate a cubic-bezier() timing curve at progress x
+ */
+function cubicBezier([cx1, y1, cx2, y2]: BezierPoints, x: number): number {
+  const sample = (a: number, b: number, t: number) =>
+    3 * a * t * (1 - t) ** 2 + 3 * b * t * t * (1 - t) + t ** 3;
+
+  // x(t) is monotonic with control x in 0-1 (as CSS requires), so bisect
+  // for t
+  const x1 = Math.min(1, Math.max(0, cx1));
+  const x2 = Math.min(1, Math.max(0, cx2));
+  let low = 0;
+  let high = 1;
+  let t = x;
+  for (let i = 0; i < 24; i++) {
+    const current = sample(x1, x2, t);
+    if (Math.abs(current - x) < 1e-5) break;
+    if (current < x) low = t;
+    else high = t;
+    t = (low + high) / 2;
+  }
+  return sample(y1, y2, t);
+}
+
+/**
+ * Eased progress through a segment
+ */
+function ease(keyframe: Keyframe, progress: number): number {
+  switch (keyframe.easing) {
+    case 'linear':
+      return progress;
+    case 'step':
+      return 0;
+    case 'bezier':
+      return cubicBezier(keyframe.bezier ?? DEFAULT_BEZIER, progress);
+    default:
+      return cubicBezier(EASING_CURVES[keyframe.easing]!, progress);
+  }
+}
+
+function interpolate(
+  uniform: ShaderUniform,
+  a: UniformValue,
+  b: UniformValue,
+  t: number
+): UniformValue {
+  if (uniform.type === 'bool' || uniform.type === 'enum') {
+    return t < 1 ? a : b;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    const value = a + (b - a) * t;
+    return uniform.type === 'int' ? Math.round(value) : value;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.map((c, i) => c + ((b[i] ?? c) - c) * t);
+  }
+  return a;
+}
+
+/**
+ * Value of a track at a position within the animation
+ */
+function evaluateTrack(
+  uniform: ShaderUniform,
+  track: Keyframe[],
+  time: number
+): UniformValue {
+  if (time <= track[0].time) return track[0].value;
+  for (let i = 0; i < track.length - 1; i++) {
+    const from = track[i];
+    const to = track[i + 1];
+    if (time < to.time) {
+      const progress = (time - from.time) / (to.time - from.time);
+      return interpolate(uniform, from.value, to.value, ease(from, progress));
+    }
+  }
+  return track[track.length - 1].value;
+}
+
+/**
+ * Uniform values at a shader time: the static values, with animated
+ * uniforms replaced by their tracks' values
+ */
+export function evaluateAnimation(
+  shader: ShaderDefinition,
+  animation: UniformAnimation,
+  values: UniformValues,
+  time: number
+): UniformValues {
+  const position = getAnimationTime(animation, time);
+  const result = { ...values };
+  for (const uniform of shader.uniforms) {
+    const track = animation.tracks[uniform.name];
+    if (track && track.length > 0) {
+      result[uniform.name] = evaluateTrack(uniform, track, position);
+    }
+  }
+  return result;
+}
+
+/**
+ * Add a keyframe, replacing one at the same time on that track
+ */
+export function setKeyframe(
+  animation: UniformAnimation,
+  name: string,
+  keyframe: Keyframe
+): UniformAnimation {
+  const track = (animation.tracks[name] ?? []).filter(
+    (k) => k.time !== keyframe.time
+  );
+  return {
+    ...animation,
+    tracks: {
+      ...animation.tracks,
+      [name]: [...track, keyframe].sort((a, b) => a.time - b.time),
+    },
+  };
+}
+
+/**
+ * Replace the keyframe at an index with an edited copy, keeping the track
+ * sorted
+ * Moving it to a time another keyframe on the track already has is refused:
+ * the animation comes back unchanged.
+ */
+export function updateKeyframe(
+  animation: UniformAnimation,
+  name: string,
+  index: number,
+  patch: Partial<Keyframe>
+): UniformAnimation {
+  const track = animation.tracks[name] ?? [];
+  if (!track[index]) return animation;
+  if (
+    patch.time !== undefined &&
+    track.some((k, i) => i !== index && k.time === patch.time)
+  ) {
+    return animation;
+  }
+  const rest = track.filter((_, i) => i !== index);
+  return setKeyframe(
+    { ...animation, tracks: { ...animation.tracks, [name]: rest } },
+    name,
+    { ...track[index], ...patch }
+  );
+}
+
+/**
+ * Remove the keyframe at an index, dropping the track once it's empty
+ */
+export function removeKeyframe(
+  animation: UniformAnimation,
+  name: string,
+  index: number
+): UniformAnimation {
+  const { [name]: track = [], ...rest } = animation.tracks;
+  const remaining = track.filter((_, i) => i !== index);
+  return {
+    ...animation,
+    tracks: remaining.length > 0 ? { ...rest, [name]: remaining } : rest,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isBezierPoints(value: unknown): value is BezierPoints {
+  return (
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every((c) => typeof c === 'number' && Number.isFinite(c))
+  );
+}
+
+/**
+ * Resolve an animation from untrusted input (presets, imported files) for
+ * the shader's current version
+ * Tracks and keyframe values are migrated like preset values; tracks for
+ * uniforms the shader no longer has and unreadable keyframes are dropped.
+ * @param version - Shader version the animation was made for
+ * @returns The animation, or null if there's nothing usable
+ */
+export function normalizeAnimation(
+  shader: ShaderDefinition,
+  input: unknown,
+  version = 1
+): UniformAnimation | null {
+  if (!isRecord(input) || !isRecord(input.tracks)) return null;
+
+  const duration =
+    typeof input.duration === 'number' && Number.isFinite(input.duration)
+      ? Math.max(MIN_ANIMATION_DURATION, input.duration)
+      : createAnimation().duration;
+  const mode = ANIMATION_MODES.includes(input.mode as AnimationMode)
+    ? (input.mode as AnimationMode)
+    : 'loop';
+  let animation: UniformAnimation = { duration, mode, tracks: {} };
+
+  for (const [name, track] of Object.entries(input.tracks)) {
+    if (!Array.isArray(track)) continue;
+    for (const keyframe of track) {
+      if (
+        !isRecord(keyframe) ||
+        typeof keyframe.time !== 'number' ||
+        !Number.isFinite(keyframe.time)
+      ) {
+        continue;
+      }
+
+      // Migrate the value on its own to find its current name and value
+      const { values, report } = migrateUniformValues(
+        shader,
+        { [name]: keyframe.value },
+        version
+      );
+      const renamed = report.renamed.reduce(
+        (current, { from, to }) => (from === current ? to : current),
+        name
+      );
+      if (!(renamed in values) || report.reset.includes(renamed)) continue;
+
+      const easing = EASINGS.includes(keyframe.easing as Easing)
+        ? (keyframe.easing as Easing)
+        : 'linear';
+      animation = setKeyframe(animation, renamed, {
+        time: Math.min(duration, Math.max(0, keyframe.time)),
+        value: values[renamed],
+        easing,
+        ...(isBezierPoints(keyframe.bezier) && { bezier: keyframe.bezier }),
+      });
+    }
+  }
+  return isAnimated(animation) ? animation : null;
+}
@@ -0,0 +1,272 @@
+// Uniform Expressions - Float and int uniforms driven by math expressions
+//
+// A bound uniform's value comes from an expression (see lib/expression.ts)
+// evaluated by the canvas every frame, then clamped to the uniform's range.
+// Expressions can read:
+//   t / time, dt, frame        shader time, time since last frame, frame count
+//   mouse.x, mouse.y           pointer position, 0-1 from the bottom left
+//   resolution.x, resolution.y render size in pixels
+//   audio                      microphone level, 0-1 (asks for the mic)
+//   <uniform>                  other uniforms by name without the u_ prefix;
+//                              vec2s as .x/.y, colors as .r/.g/.b/.a,
+//                              toggles as 1/0 and enums as the option index
+// Uniforms are read at their slider (or keyframed) values, so bindings
+// can't feed into each other. Live values are published a few times a
+// second for the controls.
+
+import {
+  compileExpression,
+  ExpressionError,
+  type CompiledExpression,
+  type ExpressionScope,
+} from '@/lib/expression';
+import { createAudioLevelMeter, type AudioLevelMeter } from '@/lib/audio-level';
+import { createStore, useStore } from '@/lib/store';
+import type {
+  ScalarUniform,
+  ShaderDefinition,
+  ShaderUniform,
+  UniformValues,
+} from './shader-gallery';
+
+export interface BindingContext {
+  time: number;
+  timeDelta: number;
+  frame: number;
+  mouse: [number, number];        // 0-1, origin at the bottom left
+  resolution: [number, number];   // Render size in pixels
+}
+
+export interface BindingState {
+  /** Expression source by uniform name */
+  expressions: Record<string, string>;
+  /** Why an expression isn't applied, by uniform name */
+  errors: Record<string, string>;
+  /** Latest evaluated value by uniform name */
+  values: Record<string, number>;
+  /** Set when an expression reads audio but the microphone is unavailable */
+  audioError: string | null;
+}
+
+export interface UniformBindings {
+  getSnapshot(): BindingState;
+  /**
+   * Bind a float or int uniform to an expression, or unbind it with null
+   * The expression is compiled at once; errors are kept in the state.
+   */
+  setExpression(
+    shader: ShaderDefinition,
+    name: string,
+    source: string | null
+  ): void;
+  /** Unbind every uniform, e.g. when switching shaders */
+  clear(): void;
+  /** Uniform values for a frame, with bound uniforms evaluated */
+  evaluate(
+    shader: ShaderDefinition,
+    values: UniformValues,
+    context: BindingContext
+  ): UniformValues;
+  subscribe(listener: () => void): () => void;
+}
+
+// Variables supplied from the frame, as opposed to uniforms
+const CONTEXT_VARIABLES = [
+  't',
+  'time',
+  'dt',
+  'frame',
+  'mouse.x',
+  'mouse.y',
+  'resolution.x',
+  'resolution.y',
+  'audio',
+];
+
+const COLOR_COMPONENTS = ['r', 'g', 'b', 'a'];
+
+// How often live values are published to subscribers
+const PUBLISH_INTERVAL_MS = 100;
+
+/**
+ * Whether a uniform can be bound to an expression
+ */
+export function isBindable(uniform: ShaderUniform): uniform is ScalarUniform {
+  return uniform.type === 'float' || uniform.type === 'int';
+}
+
+/**
+ * Expression variables for a uniform's value, by name
+ */
+function getUniformVariables(
+  uniform: ShaderUniform,
+  value: unknown
+): [string, number][] {
+  const name = uniform.name.replace(/^u_/, '');
+  if (typeof value === 'boolean') return [[name, value ? 1 : 0]];
+  if (typeof value === 'number') return [[name, value]];
+  if (!Array.isArray(value)) return [];
+  const components = uniform.type === 'vec2' ? ['x', 'y'] : COLOR_COMPONENTS;
+  return value.map((c, i) => [`${name}.${components[i]}`, c]);
+}
+
+/**
+ * Names an expression for the shader may read
+ */
+export function getExpressionVariables(shader: ShaderDefinition): string[] {
+  const names = new Set(CONTEXT_VARIABLES);
+  for (const uniform of shader.uniforms) {
+    for (const [name] of getUniformVariables(uniform, uniform.defaultValue)) {
+      names.add(name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Create bindings with no uniforms bound
+ */
+export function createUniformBindings(): UniformBindings {
+  const store = createStore<BindingState>(() => ({
+    expressions: {},
+    errors: {},
+    values: {},
+    audioError: null,
+  }));
+  const compiled = new Map<
+    string,
+    { evaluate: CompiledExpression; usesAudio: boolean }
+  >();
+  let meter: AudioLevelMeter | null = null;
+  let lastPublish = 0;
+
+  const update = (patch: Partial<BindingState>) => {
+    lastPublish = performance.now();
+    store.set({ ...store.get(), ...patch });
+  };
+
+  /**
+   * Listen to the microphone only while some binding reads audio
+   */
+  const syncMeter = () => {
+    const needed = [...compiled.values()].some((b) => b.usesAudio);
+    if (needed && !meter) {
+      const current = createAudioLevelMeter();
+      meter = current;
+      current.ready.catch((e: unknown) => {
+        if (meter !== current) return;
+        update({
+          audioError: `Microphone unavailable: ${
+            e instanceof Error ? e.message : String(e)
+          }`,
+        });
+      });
+    } else if (!needed && meter) {
+      meter.dispose();
+      meter = null;
+      if (store.get().audioError) update({ audioError: null });
+    }
+  };
+
+  const setExpression: UniformBindings['setExpression'] = (
+    shader,
+    name,
+    source
+  ) => {
+    const state = store.get();
+    const { [name]: _expression, ...expressions } = state.expressions;
+    const { [name]: _error, ...errors } = state.errors;
+    const { [name]: _value, ...values } = state.values;
+    compiled.delete(name);
+
+    const uniform = shader.uniforms.find((u) => u.name === name);
+    if (source !== null && (!uniform || !isBindable(uniform))) {
+      expressions[name] = source;
+      errors[name] = 'Only float and int uniforms can use expressions';
+    } else if (source !== null) {
+      expressions[name] = source;
+      try {
+        const { evaluate, variables } = compileExpression(
+          source,
+          getExpressionVariables(shader)
+        );
+        compiled.set(name, { evaluate, usesAudio: variables.has('audio') });
+      } catch (e) {
+        // Anything else is a parser bug, but still belongs next to the input
+        errors[name] =
+          e instanceof ExpressionError
+            ? e.message
+            : `Couldn't compile the expression: ${
+                e instanceof Error ? e.message : String(e)
+              }`;
+      }
+    }
+
+    syncMeter();
+    update({ expressions, errors, values });
+  };
+
+  return {
+    getSnapshot: store.get,
+    setExpression,
+    clear() {
+      compiled.clear();
+      syncMeter();
+      update({ expressions: {}, errors: {}, values: {} });
+    },
+    evaluate(shader, values, context) {
+      if (compiled.size === 0) return values;
+
+      const scope: ExpressionScope = {
+        t: context.time,
+        time: context.time,
+        dt: context.timeDelta,
+        frame: context.frame,
+        'mouse.x': context.mouse[0],
+        'mouse.y': context.mouse[1],
+        'resolution.x': context.resolution[0],
+        'resolution.y': context.resolution[1],
+        audio: meter?.level() ?? 0,
+      };
+      for (const uniform of shader.uniforms) {
+        for (const [name, value] of getUniformVariables(
+          uniform,
+          values[uniform.name]
+        )) {
+          // Frame variables win over uniforms with the same name
+          if (!(name in scope)) scope[name] = value;
+        }
+      }
+
+      const result = { ...values };
+      const live: Record<string, number> = {};
+      for (const uniform of shader.uniforms) {
+        const binding = compiled.get(uniform.name);
+        if (!binding || !isBindable(uniform)) continue;
+        const value = binding.evaluate(scope);
+        // Math errors (NaN, division by zero) keep the slider value
+        if (!Number.isFinite(value)) continue;
+        const clamped = Math.min(uniform.max, Math.max(uniform.min, value));
+        result[uniform.name] =
+          uniform.type === 'int' ? Math.round(clamped) : clamped;
+        live[uniform.name] = result[uniform.name] as number;
+      }
+
+      if (performance.now() - lastPublish >= PUBLISH_INTERVAL_MS) {
+        update({ values: live });
+      }
+      return result;
+    },
+    subscribe: store.subscribe,
+  };
+}
+
+/**
+ * React hook returning the bindings' published state
+ */
+export function useBindingState(bindings: UniformBindings): BindingState {
+  return useStore(
+    { get: bindings.getSnapshot, subscribe: bindings.subscribe },
+    bindings.getSnapshot()
+  );
+}
@@ -0,0 +1,187 @@
+// Uniform Migrations - Upgrades stored uniform values to a shader's current
+// version
+//
+// Presets, links and preset files record the shader version their values
+// were made for. On load the shader's migrations run in order from that
+// version (see UniformMigration), then every value is checked against the
+// current uniforms. The report says what changed and what couldn't be
+// carried over, so the UI can tell the user instead of silently dropping it.
+
+import {
+  getDefaultUniforms,
+  getShaderVersion,
+  resolveUniformValue,
+  type ShaderDefinition,
+  type UniformRescale,
+  type UniformValues,
+} from './shader-gallery';
+
+export interface MigrationReport {
+  shaderId: string;
+  fromVersion: number;
+  toVersion: number;
+  renamed: { from: string; to: string }[];
+  rescaled: string[];
+  /** Stored uniforms the shader no longer has */
+  dropped: string[];
+  /** Values that aren't valid for their uniform, replaced by the default */
+  reset: string[];
+  /** Values outside their uniform's range, clamped into it */
+  clamped: string[];
+  /**
+   * Migration steps (by `from` version) whose migrate function threw or
+   * didn't return values; the values it was given carry on unchanged
+   */
+  failed: { from: number; error: string }[];
+}
+
+export interface MigrationResult {
+  values: UniformValues;
+  report: MigrationReport;
+}
+
+function rescale(value: unknown, { from, to }: UniformRescale): unknown {
+  const map = (v: unknown) =>
+    typeof v === 'number' && from[1] !== from[0]
+      ? to[0] + ((v - from[0]) / (from[1] - from[0])) * (to[1] - to[0])
+      : v;
+  return Array.isArray(value) ? value.map(map) : map(value);
+}
+
+/**
+ * Upgrade stored uniform values and check them against the shader
+ * Uniforms missing from the values keep their defaults. Values from a newer
+ * version than the shader's are only checked.
+ * @param version - Shader version the values were made for
+ */
+export function migrateUniformValues(
+  shader: ShaderDefinition,
+  values: Record<string, unknown>,
+  version = 1
+): MigrationResult {
+  const toVersion = getShaderVersion(shader);
+  const report: MigrationReport = {
+    shaderId: shader.id,
+    fromVersion: version,
+    toVersion,
+    renamed: [],
+    rescaled: [],
+    dropped: [],
+    reset: [],
+    clamped: [],
+    failed: [],
+  };
+
+  let current = { ...values };
+  const migrations = [...(shader.migrations ?? [])].sort(
+    (a, b) => a.from - b.from
+  );
+  for (const migration of migrations) {
+    if (migration.from < version || migration.from >= toVersion) continue;
+
+    for (const [from, to] of Object.entries(migration.rename ?? {})) {
+      if (!(from in current)) continue;
+      const { [from]: value, ...rest } = current;
+      current = { ...rest, [to]: value };
+      report.renamed.push({ from, to });
+    }
+    for (const [name, range] of Object.entries(migration.rescale ?? {})) {
+      if (!(name in current)) continue;
+      current[name] = rescale(current[name], range);
+      report.rescaled.push(name);
+    }
+    if (migration.migrate) {
+      try {
+        const migrated: unknown = migration.migrate({ ...current });
+        if (
+          typeof migrated !== 'object' ||
+          migrated === null ||
+          Array.isArray(migrated)
+        ) {
+          throw new Error('migrate() did not return uniform values');
+        }
+        current = migrated as Record<string, unknown>;
+      } catch (e) {
+        console.warn(
+          `Migration of ${shader.id} from version ${migration.from} failed:`,
+          e
+        );
+        report.failed.push({
+          from: migration.from,
+          error: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+  }
+
+  const result = getDefaultUniforms(shader);
+  const known = new Set(shader.uniforms.map((uniform) => uniform.name));
+  report.dropped = Object.keys(current).filter((name) => !known.has(name));
+  for (const uniform of shader.uniforms) {
+    if (!(uniform.name in current)) continue;
+    const resolved = resolveUniformValue(uniform, current[uniform.name]);
+    if (!resolved) {
+      report.reset.push(uniform.name);
+      continue;
+    }
+    result[uniform.name] = resolved.value;
+    if (resolved.clamped) report.clamped.push(uniform.name);
+  }
+
+  return { values: result, report };
+}
+
+/**
+ * Whether the values were saved by a newer version of the shader
+ */
+export function isNewerVersion(report: MigrationReport): boolean {
+  return report.fromVersion > report.toVersion;
+}
+
+/**
+ * Whether anything couldn't be carried over as saved - renames and rescales
+ * on their own are expected and don't count
+ */
+export function hasMigrationIssues(report: MigrationReport): boolean {
+  return (
+    isNewerVersion(report) ||
+    report.failed.length > 0 ||
+    report.dropped.length > 0 ||
+    report.reset.length > 0 ||
+    report.clamped.length > 0
+  );
+}
+
+/**
+ * Human-readable lines describing a report's issues, using uniform labels
+ */
+export function describeMigrationIssues(
+  shader: ShaderDefinition,
+  report: MigrationReport
+): string[] {
+  const label = (name: string) =>
+    shader.uniforms.find((uniform) => uniform.name === name)?.label ?? name;
+  const list = (names: string[]) => names.map(label).join(', ');
+
+  const lines: string[] = [];
+  if (isNewerVersion(report)) {
+    lines.push(
+      `Saved for version ${report.fromVersion} of ${shader.name}, newer than this gallery's (${report.toVersion})`
+    );
+  }
+  for (const { from, error } of report.failed) {
+    lines.push(
+      `Couldn't upgrade from version ${from} to ${from + 1} (${error}); values kept as they were`
+    );
+  }
+  if (report.dropped.length > 0) {
+    lines.push(`No longer used: ${list(report.dropped)}`);
+  }
+  if (report.reset.length > 0) {
+    lines.push(`Invalid, reset to default: ${list(report.reset)}`);
+  }
+  if (report.clamped.length > 0) {
+    lines.push(`Out of range, clamped: ${list(report.clamped)}`);
+  }
+  return lines;
+}
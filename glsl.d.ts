@@ -0,0 +1,11 @@
+// Shader source files are imported as raw strings (see next.config.ts)
+
+declare module "*.frag" {
+  const source: string;
+  export default source;
+}
+
+declare module "*.glsl" {
+  const source: string;
+  export default source;
+}
@@ -0,0 +1,194 @@
+/**
+ * Animated PNG encoder: truecolor frames compressed with the browser's
+ * CompressionStream
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ApngEncoderOptions {
+  /** Frames per second; every frame shows for 1/fps seconds */
+  fps: number;
+  /** Repeat forever; otherwise the animation plays once */
+  loop: boolean;
+}
+
+export interface ApngEncoder {
+  /**
+   * Append a frame
+   * @param pixels - RGBA, top row first; alpha is ignored
+   */
+  addFrame(pixels: Uint8ClampedArray): Promise<void>;
+  /** Finish the file; the encoder can't be used afterwards */
+  finish(): Blob;
+}
+
+// ============================================================================
+// Chunks
+// ============================================================================
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a chunk: length, type, data and CRC over type and data
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+}
+
+/**
+ * Big-endian fields packed into bytes
+ * @param fields - [value, byte size] pairs
+ */
+function pack(fields: [number, 1 | 2 | 4][]): Uint8Array {
+  const length = fields.reduce((sum, [, size]) => sum + size, 0);
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [value, size] of fields) {
+    if (size === 1) view.setUint8(offset, value);
+    else if (size === 2) view.setUint16(offset, value);
+    else view.setUint32(offset, value);
+    offset += size;
+  }
+  return bytes;
+}
+
+/**
+ * Filter RGBA pixels into RGB scanlines (Sub filter) and zlib-compress them
+ */
+async function compressFrame(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number
+): Promise<Uint8Array> {
+  const rowBytes = width * 3;
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (rowBytes + 1);
+    raw[row] = 1;
+    for (let x = 0; x < width; x++) {
+      const from = (y * width + x) * 4;
+      const to = row + 1 + x * 3;
+      for (let c = 0; c < 3; c++) {
+        const left = x > 0 ? pixels[from - 4 + c] : 0;
+        raw[to + c] = (pixels[from + c] - left) & 0xff;
+      }
+    }
+  }
+
+  const stream = new Blob([raw]).stream().pipeThrough(
+    new CompressionStream("deflate")
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Create an APNG encoder
+ * The first frame doubles as the still image for viewers without APNG
+ * support.
+ */
+export function createApngEncoder(
+  width: number,
+  height: number,
+  { fps, loop }: ApngEncoderOptions
+): ApngEncoder {
+  const frames: Uint8Array[] = [];
+  let frameCount = 0;
+  // fcTL and fdAT chunks share one sequence
+  let sequence = 0;
+
+  return {
+    async addFrame(pixels) {
+      const data = await compressFrame(pixels, width, height);
+      const first = frameCount++ === 0;
+
+      // Frame control: full-size frame lasting 1/fps, no disposal or blending
+      frames.push(
+        chunk(
+          "fcTL",
+          pack([
+            [sequence++, 4],
+            [width, 4],
+            [height, 4],
+            [0, 4],
+            [0, 4],
+            [1, 2],
+            [fps, 2],
+            [0, 1],
+            [0, 1],
+          ])
+        )
+      );
+
+      if (first) {
+        frames.push(chunk("IDAT", data));
+      } else {
+        const frameData = new Uint8Array(4 + data.length);
+        frameData.set(pack([[sequence++, 4]]));
+        frameData.set(data, 4);
+        frames.push(chunk("fdAT", frameData));
+      }
+    },
+
+    finish() {
+      const parts = [
+        PNG_SIGNATURE,
+        // 8-bit truecolor, no interlacing
+        chunk(
+          "IHDR",
+          pack([
+            [width, 4],
+            [height, 4],
+            [8, 1],
+            [2, 1],
+            [0, 1],
+            [0, 1],
+            [0, 1],
+          ])
+        ),
+        chunk(
+          "acTL",
+          pack([
+            [frameCount, 4],
+            [loop ? 0 : 1, 4],
+          ])
+        ),
+        ...frames,
+        chunk("IEND", new Uint8Array(0)),
+      ];
+      return new Blob(parts as BlobPart[], { type: "image/apng" });
+    },
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Microphone loudness meter for expression bindings
+ *
+ * Asks for the microphone on start and reports a smoothed RMS level in
+ * roughly 0-1. Reads are synchronous, so the render loop can poll it each
+ * frame; the level stays 0 until access is granted.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AudioLevelMeter {
+  /** Current smoothed level, about 0 (silence) to 1 (loud) */
+  level(): number;
+  /** Resolves once listening, or rejects if the microphone is unavailable */
+  ready: Promise<void>;
+  /** Stop listening and release the microphone */
+  dispose(): void;
+}
+
+// Weight of the previous level when smoothing, per read
+const SMOOTHING = 0.8;
+
+// RMS of a loud signal; levels are scaled so this reads as 1
+const LOUD_RMS = 0.3;
+
+// ============================================================================
+// Meter
+// ============================================================================
+
+/**
+ * Start listening to the default microphone
+ * Call from a user gesture so the browser lets the audio context run.
+ */
+export function createAudioLevelMeter(): AudioLevelMeter {
+  let disposed = false;
+  let level = 0;
+  let context: AudioContext | null = null;
+  let stream: MediaStream | null = null;
+  let analyser: AnalyserNode | null = null;
+  let samples: Float32Array<ArrayBuffer> | null = null;
+
+  const ready = (async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error("Microphone input is not supported in this browser");
+    }
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    if (disposed) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    context = new AudioContext();
+    analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    samples = new Float32Array(analyser.fftSize);
+    context.createMediaStreamSource(stream).connect(analyser);
+  })();
+
+  return {
+    level() {
+      if (!analyser || !samples) return 0;
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) {
+        sum += sample * sample;
+      }
+      const rms = Math.sqrt(sum / samples.length);
+      level = level * SMOOTHING + Math.min(1, rms / LOUD_RMS) * (1 - SMOOTHING);
+      return level;
+    },
+    ready,
+    dispose() {
+      disposed = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      void context?.close();
+      analyser = null;
+    },
+  };
+}
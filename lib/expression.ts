@@ -0,0 +1,422 @@
+/**
+ * Small math expression language for uniform bindings
+ *
+ * Expressions like `0.5 + 0.4*sin(t*2)` or `mouse.x > 0.5 ? 1 : 0` are
+ * parsed into a tree once, checked against the known variables, and
+ * compiled to a closure evaluated every frame - nothing goes through eval.
+ *
+ * Grammar, loosest binding first:
+ *   ternary     cond ? a : b
+ *   comparison  <  <=  >  >=  ==  !=   (1 for true, 0 for false)
+ *   additive    +  -
+ *   product     *  /  %
+ *   unary       -x  +x
+ *   power       a ^ b                  (right associative)
+ *   primary     number, name (dots allowed: mouse.x), f(args), (expr)
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Variable values an expression is evaluated with, by (dotted) name
+ */
+export type ExpressionScope = Record<string, number>;
+
+/**
+ * Compiled expression; returns NaN or Infinity if the math does
+ */
+export type CompiledExpression = (scope: ExpressionScope) => number;
+
+/**
+ * Error thrown for expressions that don't parse or use unknown names
+ */
+export class ExpressionError extends Error {
+  constructor(
+    public readonly detail: string,
+    /** 0-based index into the source where the problem is */
+    public readonly position: number
+  ) {
+    super(`${detail} (at column ${position + 1})`);
+    this.name = "ExpressionError";
+  }
+}
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "name"; value: string; position: number }
+  | { kind: "operator"; value: string; position: number }
+  | { kind: "end"; position: number };
+
+type Node =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: string }
+  | { kind: "unary"; operator: string; operand: Node }
+  | { kind: "binary"; operator: string; left: Node; right: Node }
+  | { kind: "ternary"; condition: Node; then: Node; otherwise: Node }
+  | { kind: "call"; name: string; args: Node[] };
+
+interface FunctionSpec {
+  /** Accepted argument counts */
+  arity: number[];
+  apply: (...args: number[]) => number;
+}
+
+// ============================================================================
+// Built-ins
+// ============================================================================
+
+/**
+ * Smooth 1D value noise in 0-1, repeatable for a given input
+ */
+function noise(x: number): number {
+  const hash = (n: number) => {
+    const s = Math.sin(n * 127.1) * 43758.5453;
+    return s - Math.floor(s);
+  };
+  const i = Math.floor(x);
+  const f = x - i;
+  const u = f * f * (3 - 2 * f);
+  return hash(i) + (hash(i + 1) - hash(i)) * u;
+}
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, x));
+}
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  sin: { arity: [1], apply: Math.sin },
+  cos: { arity: [1], apply: Math.cos },
+  tan: { arity: [1], apply: Math.tan },
+  asin: { arity: [1], apply: Math.asin },
+  acos: { arity: [1], apply: Math.acos },
+  // atan(y, x) is atan2, as in GLSL
+  atan: {
+    arity: [1, 2],
+    apply: (y, x) => (x === undefined ? Math.atan(y) : Math.atan2(y, x)),
+  },
+  abs: { arity: [1], apply: Math.abs },
+  sign: { arity: [1], apply: Math.sign },
+  floor: { arity: [1], apply: Math.floor },
+  ceil: { arity: [1], apply: Math.ceil },
+  round: { arity: [1], apply: Math.round },
+  fract: { arity: [1], apply: (x) => x - Math.floor(x) },
+  sqrt: { arity: [1], apply: Math.sqrt },
+  exp: { arity: [1], apply: Math.exp },
+  log: { arity: [1], apply: Math.log },
+  pow: { arity: [2], apply: Math.pow },
+  // GLSL mod: the result takes the sign of y
+  mod: { arity: [2], apply: (x, y) => x - y * Math.floor(x / y) },
+  min: { arity: [2], apply: Math.min },
+  max: { arity: [2], apply: Math.max },
+  clamp: { arity: [3], apply: clamp },
+  mix: { arity: [3], apply: (a, b, t) => a + (b - a) * t },
+  step: { arity: [2], apply: (edge, x) => (x < edge ? 0 : 1) },
+  smoothstep: {
+    arity: [3],
+    apply: (a, b, x) => {
+      const t = clamp((x - a) / (b - a), 0, 1);
+      return t * t * (3 - 2 * t);
+    },
+  },
+  noise: { arity: [1], apply: noise },
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  tau: Math.PI * 2,
+  e: Math.E,
+};
+
+/**
+ * Names of the built-in functions, for help text
+ */
+export const EXPRESSION_FUNCTIONS: readonly string[] = Object.keys(FUNCTIONS);
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+const NUMBER_PATTERN = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const NAME_PATTERN = /^[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*/;
+const OPERATOR_PATTERN = /^(?:<=|>=|==|!=|[-+*/%^()<>?:,])/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+    const name = NAME_PATTERN.exec(rest);
+    if (name) {
+      tokens.push({ kind: "name", value: name[0], position });
+      position += name[0].length;
+      continue;
+    }
+    const operator = OPERATOR_PATTERN.exec(rest);
+    if (operator) {
+      tokens.push({ kind: "operator", value: operator[0], position });
+      position += operator[0].length;
+      continue;
+    }
+    throw new ExpressionError(`Unexpected character "${rest[0]}"`, position);
+  }
+  tokens.push({ kind: "end", position });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case "end":
+      return "end of expression";
+    case "number":
+      return `number ${token.value}`;
+    default:
+      return `"${token.value}"`;
+  }
+}
+
+/**
+ * Recursive descent parser over the token list, one function per precedence
+ * level
+ */
+function parse(source: string, variables: ReadonlySet<string>): Node {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token.kind === "operator" && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new ExpressionError(
+        `Expected "${value}" but found ${describe(peek())}`,
+        peek().position
+      );
+    }
+    index++;
+  };
+
+  const ternary = (): Node => {
+    const condition = comparison();
+    if (!isOperator("?")) return condition;
+    index++;
+    const then = ternary();
+    expect(":");
+    return { kind: "ternary", condition, then, otherwise: ternary() };
+  };
+
+  const binaryLevel = (operators: string[], next: () => Node) => (): Node => {
+    let left = next();
+    for (;;) {
+      const token = peek();
+      if (token.kind !== "operator" || !operators.includes(token.value)) {
+        return left;
+      }
+      index++;
+      left = { kind: "binary", operator: token.value, left, right: next() };
+    }
+  };
+
+  const primary = (): Node => {
+    const token = peek();
+    if (token.kind === "number") {
+      index++;
+      return { kind: "number", value: token.value };
+    }
+    if (token.kind === "name") {
+      index++;
+      if (isOperator("(")) return call(token.value, token.position);
+      if (Object.hasOwn(CONSTANTS, token.value)) {
+        return { kind: "number", value: CONSTANTS[token.value] };
+      }
+      if (!variables.has(token.value)) {
+        throw new ExpressionError(`Unknown name "${token.value}"`, token.position);
+      }
+      return { kind: "variable", name: token.value };
+    }
+    if (isOperator("(")) {
+      index++;
+      const inner = ternary();
+      expect(")");
+      return inner;
+    }
+    throw new ExpressionError(
+      token.kind === "end"
+        ? "Expression is incomplete"
+        : `Unexpected ${describe(token)}`,
+      token.position
+    );
+  };
+
+  const call = (name: string, position: number): Node => {
+    // Own properties only, so Object.prototype members aren't functions
+    const spec = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!spec) {
+      throw new ExpressionError(`Unknown function "${name}"`, position);
+    }
+    expect("(");
+    const args: Node[] = [];
+    if (!isOperator(")")) {
+      args.push(ternary());
+      while (isOperator(",")) {
+        index++;
+        args.push(ternary());
+      }
+    }
+    expect(")");
+    if (!spec.arity.includes(args.length)) {
+      const expected = spec.arity.join(" or ");
+      throw new ExpressionError(
+        `${name}() takes ${expected} argument${expected === "1" ? "" : "s"}, got ${args.length}`,
+        position
+      );
+    }
+    return { kind: "call", name, args };
+  };
+
+  // Power binds tighter than unary minus, so -2^2 is -4
+  const power = (): Node => {
+    const base = primary();
+    if (!isOperator("^")) return base;
+    index++;
+    return { kind: "binary", operator: "^", left: base, right: unary() };
+  };
+
+  const unary = (): Node => {
+    if (isOperator("-") || isOperator("+")) {
+      const operator = (peek() as { value: string }).value;
+      index++;
+      return { kind: "unary", operator, operand: unary() };
+    }
+    return power();
+  };
+
+  const product = binaryLevel(["*", "/", "%"], unary);
+  const sum = binaryLevel(["+", "-"], product);
+  const comparison = binaryLevel(["<", "<=", ">", ">=", "==", "!="], sum);
+
+  if (peek().kind === "end") {
+    throw new ExpressionError("Expression is empty", 0);
+  }
+  const root = ternary();
+  if (peek().kind !== "end") {
+    throw new ExpressionError(`Unexpected ${describe(peek())}`, peek().position);
+  }
+  return root;
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+const BINARY_OPERATORS: Record<string, (a: number, b: number) => number> = {
+  "+": (a, b) => a + b,
+  "-": (a, b) => a - b,
+  "*": (a, b) => a * b,
+  "/": (a, b) => a / b,
+  "%": FUNCTIONS.mod.apply,
+  "^": Math.pow,
+  "<": (a, b) => Number(a < b),
+  "<=": (a, b) => Number(a <= b),
+  ">": (a, b) => Number(a > b),
+  ">=": (a, b) => Number(a >= b),
+  "==": (a, b) => Number(a === b),
+  "!=": (a, b) => Number(a !== b),
+};
+
+function compileNode(node: Node): CompiledExpression {
+  switch (node.kind) {
+    case "number": {
+      const { value } = node;
+      return () => value;
+    }
+    case "variable": {
+      const { name } = node;
+      return (scope) => scope[name] ?? 0;
+    }
+    case "unary": {
+      const operand = compileNode(node.operand);
+      return node.operator === "-" ? (scope) => -operand(scope) : operand;
+    }
+    case "binary": {
+      const apply = BINARY_OPERATORS[node.operator];
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (scope) => apply(left(scope), right(scope));
+    }
+    case "ternary": {
+      const condition = compileNode(node.condition);
+      const then = compileNode(node.then);
+      const otherwise = compileNode(node.otherwise);
+      return (scope) => (condition(scope) !== 0 ? then(scope) : otherwise(scope));
+    }
+    case "call": {
+      const { apply } = FUNCTIONS[node.name];
+      const args = node.args.map(compileNode);
+      return (scope) => apply(...args.map((arg) => arg(scope)));
+    }
+  }
+}
+
+/**
+ * Names of the variables an expression reads
+ */
+function collectVariables(node: Node, names: Set<string>): Set<string> {
+  switch (node.kind) {
+    case "variable":
+      names.add(node.name);
+      break;
+    case "unary":
+      collectVariables(node.operand, names);
+      break;
+    case "binary":
+      collectVariables(node.left, names);
+      collectVariables(node.right, names);
+      break;
+    case "ternary":
+      collectVariables(node.condition, names);
+      collectVariables(node.then, names);
+      collectVariables(node.otherwise, names);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectVariables(arg, names));
+      break;
+  }
+  return names;
+}
+
+/**
+ * Parse and compile an expression
+ * @param variables - Names the expression may read
+ * @returns The compiled expression and the variables it reads
+ * @throws ExpressionError with the position of the first problem
+ */
+export function compileExpression(
+  source: string,
+  variables: Iterable<string>
+): { evaluate: CompiledExpression; variables: Set<string> } {
+  const root = parse(source, new Set(variables));
+  return {
+    evaluate: compileNode(root),
+    variables: collectVariables(root, new Set()),
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Animated GIF encoder: median-cut quantization to a 256-color table per
+ * frame and LZW compression
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GifEncoderOptions {
+  /** Repeat forever; otherwise the animation plays once */
+  loop: boolean;
+}
+
+export interface GifEncoder {
+  /**
+   * Append a frame
+   * @param pixels - RGBA, top row first; alpha is ignored
+   * @param durationMs - How long the frame shows
+   */
+  addFrame(pixels: Uint8ClampedArray, durationMs: number): void;
+  /** Finish the file; the encoder can't be used afterwards */
+  finish(): Blob;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PALETTE_SIZE = 256;
+
+// Pixels sampled per frame to build its palette
+const PALETTE_SAMPLES = 16384;
+
+// Nearest-color lookups are cached at 5 bits per channel
+const CACHE_BITS = 5;
+
+const MAX_CODE = 4095;
+
+// ============================================================================
+// Quantization
+// ============================================================================
+
+/**
+ * Build a palette by median cut over a sample of the frame's pixels
+ * @returns RGB triplets, PALETTE_SIZE entries (unused ones are black)
+ */
+function buildPalette(pixels: Uint8ClampedArray): Uint8Array {
+  const pixelCount = pixels.length / 4;
+  const step = Math.max(1, Math.floor(pixelCount / PALETTE_SAMPLES));
+  const samples: number[][] = [];
+  for (let i = 0; i < pixelCount; i += step) {
+    samples.push([pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]]);
+  }
+
+  // Each box is a run of `samples`; split the widest until there are enough
+  const boxes = [{ start: 0, end: samples.length }];
+  const widestChannel = ({ start, end }: { start: number; end: number }) => {
+    let best = { channel: 0, range: -1 };
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 255;
+      let max = 0;
+      for (let i = start; i < end; i++) {
+        min = Math.min(min, samples[i][channel]);
+        max = Math.max(max, samples[i][channel]);
+      }
+      if (max - min > best.range) best = { channel, range: max - min };
+    }
+    return best;
+  };
+
+  while (boxes.length < PALETTE_SIZE) {
+    let splitIndex = -1;
+    let splitChannel = 0;
+    let splitScore = 0;
+    boxes.forEach((box, index) => {
+      if (box.end - box.start < 2) return;
+      const { channel, range } = widestChannel(box);
+      const score = range * (box.end - box.start);
+      if (score > splitScore) {
+        splitIndex = index;
+        splitChannel = channel;
+        splitScore = score;
+      }
+    });
+    if (splitIndex < 0) break;
+
+    const box = boxes[splitIndex];
+    const sorted = samples
+      .slice(box.start, box.end)
+      .sort((a, b) => a[splitChannel] - b[splitChannel]);
+    samples.splice(box.start, sorted.length, ...sorted);
+    const middle = box.start + (sorted.length >> 1);
+    boxes.splice(
+      splitIndex,
+      1,
+      { start: box.start, end: middle },
+      { start: middle, end: box.end }
+    );
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  boxes.forEach(({ start, end }, index) => {
+    const sum = [0, 0, 0];
+    for (let i = start; i < end; i++) {
+      sum[0] += samples[i][0];
+      sum[1] += samples[i][1];
+      sum[2] += samples[i][2];
+    }
+    const count = Math.max(1, end - start);
+    palette[index * 3] = Math.round(sum[0] / count);
+    palette[index * 3 + 1] = Math.round(sum[1] / count);
+    palette[index * 3 + 2] = Math.round(sum[2] / count);
+  });
+  return palette;
+}
+
+/**
+ * Map every pixel to its nearest palette entry
+ */
+function indexPixels(pixels: Uint8ClampedArray, palette: Uint8Array): Uint8Array {
+  const shift = 8 - CACHE_BITS;
+  const cache = new Int16Array(1 << (CACHE_BITS * 3)).fill(-1);
+  const indices = new Uint8Array(pixels.length / 4);
+
+  for (let i = 0; i < indices.length; i++) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    const key =
+      ((r >> shift) << (CACHE_BITS * 2)) |
+      ((g >> shift) << CACHE_BITS) |
+      (b >> shift);
+
+    let best = cache[key];
+    if (best < 0) {
+      let bestDistance = Infinity;
+      for (let entry = 0; entry < PALETTE_SIZE; entry++) {
+        const dr = r - palette[entry * 3];
+        const dg = g - palette[entry * 3 + 1];
+        const db = b - palette[entry * 3 + 2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = entry;
+        }
+      }
+      cache[key] = best;
+    }
+    indices[i] = best;
+  }
+  return indices;
+}
+
+// ============================================================================
+// LZW
+// ============================================================================
+
+/**
+ * LZW-compress 8-bit color indices into GIF image data sub-blocks
+ */
+function compressIndices(indices: Uint8Array): Uint8Array {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  // Worst case: a 12-bit code per index plus clear codes, in 255-byte
+  // sub-blocks that each take a length byte
+  const maxCodes = indices.length * 1.01 + 4;
+  const output = new Uint8Array(Math.ceil(((maxCodes * 1.5) / 255) * 256) + 2);
+  output[0] = minCodeSize;
+  let length = 1;
+  let blockStart = length++;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const closeBlock = () => {
+    output[blockStart] = length - blockStart - 1;
+    blockStart = length++;
+  };
+
+  const writeCode = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      output[length++] = bitBuffer & 0xff;
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (length - blockStart - 1 === 255) closeBlock();
+    }
+  };
+
+  // Dictionary of (prefix code, next index) pairs to codes
+  const table = new Int16Array((MAX_CODE + 1) * 256);
+  let nextCode = 0;
+  let codeSize = 0;
+  const reset = () => {
+    table.fill(-1);
+    nextCode = endCode + 1;
+    codeSize = minCodeSize + 1;
+  };
+
+  reset();
+  writeCode(clearCode, codeSize);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = prefix * 256 + index;
+    const existing = table[key];
+    if (existing >= 0) {
+      prefix = existing;
+      continue;
+    }
+
+    writeCode(prefix, codeSize);
+    if (nextCode <= MAX_CODE) {
+      table[key] = nextCode;
+      if (nextCode === 1 << codeSize) codeSize++;
+      nextCode++;
+    } else {
+      writeCode(clearCode, codeSize);
+      reset();
+    }
+    prefix = index;
+  }
+
+  writeCode(prefix, codeSize);
+  // The decoder adds one more entry before reading the end code
+  if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+  writeCode(endCode, codeSize);
+  if (bitCount > 0) output[length++] = bitBuffer & 0xff;
+  if (length - blockStart - 1 > 0) closeBlock();
+  // An empty sub-block terminates the image data
+  output[blockStart] = 0;
+
+  return output.subarray(0, blockStart + 1);
+}
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Create a GIF encoder
+ * GIF delays are in hundredths of a second; durations are rounded so the
+ * running total stays exact. Browsers slow down delays under 20ms, so keep
+ * frame rates at 50 or below.
+ */
+export function createGifEncoder(
+  width: number,
+  height: number,
+  { loop }: GifEncoderOptions
+): GifEncoder {
+  const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+  const parts: Uint8Array[] = [];
+
+  // Header and logical screen (no global color table)
+  parts.push(
+    new Uint8Array([
+      ...Array.from("GIF89a", (c) => c.charCodeAt(0)),
+      ...u16(width),
+      ...u16(height),
+      0,
+      0,
+      0,
+    ])
+  );
+
+  // NETSCAPE2.0 extension: loop count 0 repeats forever
+  if (loop) {
+    parts.push(
+      new Uint8Array([
+        0x21,
+        0xff,
+        11,
+        ...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)),
+        3,
+        1,
+        ...u16(0),
+        0,
+      ])
+    );
+  }
+
+  let elapsedMs = 0;
+  let elapsedCs = 0;
+
+  return {
+    addFrame(pixels, durationMs) {
+      elapsedMs += durationMs;
+      const endCs = Math.round(elapsedMs / 10);
+      const delay = endCs - elapsedCs;
+      elapsedCs = endCs;
+
+      const palette = buildPalette(pixels);
+      const indices = indexPixels(pixels, palette);
+
+      parts.push(
+        new Uint8Array([
+          // Graphic control extension
+          0x21,
+          0xf9,
+          4,
+          0,
+          ...u16(delay),
+          0,
+          0,
+          // Image descriptor with a 256-entry local color table
+          0x2c,
+          ...u16(0),
+          ...u16(0),
+          ...u16(width),
+          ...u16(height),
+          0x87,
+        ]),
+        palette,
+        compressIndices(indices)
+      );
+    },
+
+    finish() {
+      parts.push(new Uint8Array([0x3b]));
+      return new Blob(parts as BlobPart[], { type: "image/gif" });
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * GLSL preprocessor for `#include "name"` directives
+ *
+ * Runs before compileShader. Each include is replaced by the named chunk's
+ * source (recursively); every output line records where it came from so
+ * driver error line numbers can be mapped back to the original file or chunk.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Origin of one line of preprocessed output
+ */
+export interface SourceLocation {
+  /** Main file name or chunk name */
+  file: string;
+  /** 1-based line number within that file */
+  line: number;
+}
+
+/**
+ * Preprocessed source with a per-line origin map
+ * lineMap[i] is the origin of output line i + 1
+ */
+export interface PreprocessedSource {
+  source: string;
+  lineMap: SourceLocation[];
+}
+
+/**
+ * Looks up a chunk's source by name
+ */
+export type ChunkResolver = (name: string) => string | undefined;
+
+/**
+ * Error thrown for unknown chunks and include cycles
+ */
+export class GlslIncludeError extends Error {
+  constructor(
+    public readonly detail: string,
+    public readonly location: SourceLocation
+  ) {
+    super(`${location.file}:${location.line}: ${detail}`);
+    this.name = "GlslIncludeError";
+  }
+}
+
+const INCLUDE_PATTERN = /^\s*#include\s+"([^"]+)"\s*(?:\/\/.*)?$/;
+
+// ============================================================================
+// Preprocessing
+// ============================================================================
+
+/**
+ * Expand `#include "name"` directives
+ * Each chunk is included at most once per shader, so chunks may include
+ * their own dependencies freely.
+ * @param fileName - Name reported for lines of the main source
+ * @throws GlslIncludeError for unknown chunks or include cycles
+ */
+export function preprocessGlsl(
+  source: string,
+  fileName: string,
+  resolve: ChunkResolver
+): PreprocessedSource {
+  const output: string[] = [];
+  const lineMap: SourceLocation[] = [];
+  const included = new Set<string>();
+
+  const expand = (text: string, file: string, stack: string[]) => {
+    text.split("\n").forEach((lineText, index) => {
+      const location = { file, line: index + 1 };
+      const include = INCLUDE_PATTERN.exec(lineText);
+
+      if (!include) {
+        output.push(lineText);
+        lineMap.push(location);
+        return;
+      }
+
+      const name = include[1];
+      if (stack.includes(name)) {
+        throw new GlslIncludeError(
+          `include cycle: ${[...stack, name].join(" -> ")}`,
+          location
+        );
+      }
+      if (included.has(name)) return;
+
+      const chunk = resolve(name);
+      if (chunk === undefined) {
+        throw new GlslIncludeError(`unknown chunk "${name}"`, location);
+      }
+
+      included.add(name);
+      expand(chunk.replace(/\n$/, ""), name, [...stack, name]);
+    });
+  };
+
+  expand(source, fileName, [fileName]);
+
+  return { source: output.join("\n"), lineMap };
+}
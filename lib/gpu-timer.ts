@@ -0,0 +1,98 @@
+/**
+ * GPU frame timing with EXT_disjoint_timer_query_webgl2
+ *
+ * Query results arrive a few frames late, so each frame's query is kept
+ * pending and polled on later frames rather than waited on.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GpuTimer {
+  /** Start timing GPU work; pair with end() in the same frame */
+  begin(): void;
+  end(): void;
+  /**
+   * Collect finished queries
+   * @returns GPU time of the most recent finished frame in milliseconds,
+   *   or null if none finished since the last poll
+   */
+  poll(): number | null;
+  dispose(): void;
+}
+
+/**
+ * The extension's constants (it ships no TypeScript types)
+ */
+interface DisjointTimerQuery {
+  TIME_ELAPSED_EXT: GLenum;
+  GPU_DISJOINT_EXT: GLenum;
+}
+
+// Queries left in flight before new frames stop being timed
+const MAX_PENDING_QUERIES = 4;
+
+// ============================================================================
+// Timer
+// ============================================================================
+
+/**
+ * Create a GPU timer
+ * @returns Timer, or null if the browser doesn't expose GPU timing
+ */
+export function createGpuTimer(gl: WebGL2RenderingContext): GpuTimer | null {
+  const ext = gl.getExtension(
+    "EXT_disjoint_timer_query_webgl2"
+  ) as DisjointTimerQuery | null;
+  if (!ext) return null;
+
+  const pending: WebGLQuery[] = [];
+  let active: WebGLQuery | null = null;
+
+  return {
+    begin() {
+      if (active || pending.length >= MAX_PENDING_QUERIES) return;
+      active = gl.createQuery();
+      if (active) gl.beginQuery(ext.TIME_ELAPSED_EXT, active);
+    },
+
+    end() {
+      if (!active) return;
+      gl.endQuery(ext.TIME_ELAPSED_EXT);
+      pending.push(active);
+      active = null;
+    },
+
+    poll() {
+      // A disjoint event (e.g. a clock change) invalidates every result
+      const disjoint = gl.getParameter(ext.GPU_DISJOINT_EXT) as boolean;
+
+      let latest: number | null = null;
+      while (pending.length > 0) {
+        const query = pending[0];
+        if (!gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)) break;
+        pending.shift();
+        if (!disjoint) {
+          const elapsedNs = gl.getQueryParameter(
+            query,
+            gl.QUERY_RESULT
+          ) as number;
+          latest = elapsedNs / 1e6;
+        }
+        gl.deleteQuery(query);
+      }
+      return latest;
+    },
+
+    dispose() {
+      if (active) {
+        gl.endQuery(ext.TIME_ELAPSED_EXT);
+        gl.deleteQuery(active);
+        active = null;
+      }
+      pending.forEach((query) => gl.deleteQuery(query));
+      pending.length = 0;
+    },
+  };
+}
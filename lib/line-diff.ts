@@ -0,0 +1,61 @@
+/**
+ * Line-based diff using the longest common subsequence
+ */
+
+export type DiffLineType = "same" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line in the original text (same/removed lines) */
+  oldLine?: number;
+  /** 1-based line in the modified text (same/added lines) */
+  newLine?: number;
+}
+
+/**
+ * Diff two texts line by line
+ * O(n*m) in line counts, which is fine for shader-sized sources
+ */
+export function diffLines(original: string, modified: string): DiffLine[] {
+  const a = original.split("\n");
+  const b = modified.split("\n");
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      result.push({ type: "added", text: b[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) {
+    result.push({ type: "removed", text: a[i], oldLine: i + 1 });
+  }
+  for (; j < b.length; j++) {
+    result.push({ type: "added", text: b[j], newLine: j + 1 });
+  }
+
+  return result;
+}
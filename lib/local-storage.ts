@@ -0,0 +1,33 @@
+/**
+ * JSON localStorage helpers that are safe during SSR and with corrupt data
+ */
+
+/**
+ * Read and parse a JSON value from localStorage
+ * @returns The stored value, or fallback if missing, unparsable or unavailable
+ */
+export function readStorage<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback;
+
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (e) {
+    console.warn(`Failed to read ${key} from localStorage:`, e);
+    return fallback;
+  }
+}
+
+/**
+ * Serialize a value to localStorage as JSON
+ * Quota and privacy-mode errors are logged, not thrown
+ */
+export function writeStorage(key: string, value: unknown): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to write ${key} to localStorage:`, e);
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Cache of linked fullscreen-quad programs keyed by final fragment source
+ *
+ * Programs outlive the pipelines using them, so switching back to a shader
+ * reuses its program instead of recompiling. Programs can also be requested
+ * ahead of use; with KHR_parallel_shader_compile the driver compiles them
+ * in the background and polling never blocks.
+ */
+
+import type { SourceLocation } from "./glsl-preprocessor";
+import {
+  formatDiagnostic,
+  parseInfoLog,
+  type ShaderDiagnostic,
+} from "./shader-diagnostics";
+import { compileShader, VERTEX_SHADER_SOURCE } from "./webgl-utils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProgramStatus = "compiling" | "ready" | "failed";
+
+/**
+ * A cached program and the outcome of building it
+ */
+export interface CachedProgram {
+  status: ProgramStatus;
+  /** Linked program once ready */
+  program: WebGLProgram | null;
+  /** Step that failed, for error messages */
+  failedStage: "vertex" | "fragment" | "link" | null;
+  /** Compile and link diagnostics (only warnings once ready) */
+  diagnostics: ShaderDiagnostic[];
+}
+
+interface CacheEntry extends CachedProgram {
+  source: string;
+  lineMap?: SourceLocation[];
+  /** Attached fragment shader while compiling */
+  fragmentShader: WebGLShader | null;
+  /** Pipelines currently holding the program */
+  users: number;
+  lastUsed: number;
+}
+
+export interface ProgramCache {
+  gl: WebGL2RenderingContext;
+  /** Whether KHR_parallel_shader_compile is available */
+  parallel: boolean;
+  /** Unused programs kept before the least recently used are deleted */
+  capacity: number;
+  vertexShader: WebGLShader | null;
+  vertexDiagnostics: ShaderDiagnostic[];
+  entries: Map<string, CacheEntry>;
+  clock: number;
+}
+
+// From KHR_parallel_shader_compile
+const COMPLETION_STATUS_KHR = 0x91b1;
+
+const DEFAULT_CAPACITY = 32;
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+/**
+ * Create a program cache; compiles the shared fullscreen vertex shader
+ */
+export function createProgramCache(
+  gl: WebGL2RenderingContext,
+  capacity = DEFAULT_CAPACITY
+): ProgramCache {
+  const { shader, diagnostics } = compileShader(
+    gl,
+    gl.VERTEX_SHADER,
+    VERTEX_SHADER_SOURCE
+  );
+  return {
+    gl,
+    parallel: gl.getExtension("KHR_parallel_shader_compile") !== null,
+    capacity,
+    vertexShader: shader,
+    vertexDiagnostics: diagnostics,
+    entries: new Map(),
+    clock: 0,
+  };
+}
+
+/**
+ * Delete every cached program and the shared vertex shader
+ */
+export function deleteProgramCache(cache: ProgramCache): void {
+  const { gl } = cache;
+  for (const entry of cache.entries.values()) {
+    if (entry.fragmentShader) gl.deleteShader(entry.fragmentShader);
+    if (entry.program) gl.deleteProgram(entry.program);
+  }
+  cache.entries.clear();
+  if (cache.vertexShader) gl.deleteShader(cache.vertexShader);
+  cache.vertexShader = null;
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Start compiling and linking a fragment source without waiting on the driver
+ */
+function startProgram(
+  cache: ProgramCache,
+  source: string,
+  lineMap?: SourceLocation[]
+): CacheEntry {
+  const { gl } = cache;
+  const entry: CacheEntry = {
+    status: "compiling",
+    program: null,
+    failedStage: null,
+    diagnostics: [],
+    source,
+    lineMap,
+    fragmentShader: null,
+    users: 0,
+    lastUsed: ++cache.clock,
+  };
+
+  const fail = (
+    stage: CacheEntry["failedStage"],
+    diagnostics: ShaderDiagnostic[]
+  ) => {
+    entry.status = "failed";
+    entry.failedStage = stage;
+    entry.diagnostics = diagnostics;
+    return entry;
+  };
+
+  if (!cache.vertexShader) {
+    return fail("vertex", cache.vertexDiagnostics);
+  }
+
+  const fragmentShader = gl.createShader(gl.FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!fragmentShader || !program) {
+    if (fragmentShader) gl.deleteShader(fragmentShader);
+    if (program) gl.deleteProgram(program);
+    return fail("link", [
+      { stage: "link", severity: "error", message: "Failed to create program" },
+    ]);
+  }
+
+  gl.shaderSource(fragmentShader, source);
+  gl.compileShader(fragmentShader);
+  gl.attachShader(program, cache.vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+
+  entry.fragmentShader = fragmentShader;
+  entry.program = program;
+  return entry;
+}
+
+/**
+ * Read back compile and link results once the driver is done
+ * Blocks until then unless the program was checked complete first.
+ */
+function finishProgram(cache: ProgramCache, entry: CacheEntry): void {
+  const { gl } = cache;
+  const fragmentShader = entry.fragmentShader!;
+  const program = entry.program!;
+
+  const fragmentDiagnostics = parseInfoLog(
+    gl.getShaderInfoLog(fragmentShader) ?? "",
+    "fragment",
+    entry.source,
+    entry.lineMap
+  );
+  const compiled = gl.getShaderParameter(fragmentShader, gl.COMPILE_STATUS);
+  const linkDiagnostics = compiled
+    ? parseInfoLog(gl.getProgramInfoLog(program) ?? "", "link")
+    : [];
+  const linked = compiled && gl.getProgramParameter(program, gl.LINK_STATUS);
+
+  gl.detachShader(program, fragmentShader);
+  gl.deleteShader(fragmentShader);
+  entry.fragmentShader = null;
+  entry.diagnostics = [...fragmentDiagnostics, ...linkDiagnostics];
+
+  if (linked) {
+    entry.status = "ready";
+    return;
+  }
+
+  console.error(
+    (compiled ? "Program link error:\n" : "Shader compilation error:\n") +
+      entry.diagnostics.map(formatDiagnostic).join("\n")
+  );
+  gl.deleteProgram(program);
+  entry.program = null;
+  entry.status = "failed";
+  entry.failedStage = compiled ? "link" : "fragment";
+}
+
+/**
+ * Delete least recently used programs nobody holds, down to capacity
+ */
+function evictUnused(cache: ProgramCache): void {
+  if (cache.entries.size <= cache.capacity) return;
+
+  const unused = [...cache.entries]
+    .filter(([, entry]) => entry.users === 0 && entry.status !== "compiling")
+    .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+  for (const [key, entry] of unused) {
+    if (cache.entries.size <= cache.capacity) break;
+    if (entry.program) cache.gl.deleteProgram(entry.program);
+    cache.entries.delete(key);
+  }
+}
+
+// ============================================================================
+// Access
+// ============================================================================
+
+/**
+ * Request a program ahead of use and report its progress
+ * Starts compiling on first request. With parallel compile this never
+ * blocks; without it, the first poll waits for the driver.
+ */
+export function requestProgram(
+  cache: ProgramCache,
+  source: string,
+  lineMap?: SourceLocation[]
+): ProgramStatus {
+  let entry = cache.entries.get(source);
+  if (!entry) {
+    entry = startProgram(cache, source, lineMap);
+    cache.entries.set(source, entry);
+    evictUnused(cache);
+  }
+
+  if (
+    entry.status === "compiling" &&
+    (!cache.parallel ||
+      cache.gl.getProgramParameter(entry.program!, COMPLETION_STATUS_KHR))
+  ) {
+    finishProgram(cache, entry);
+  }
+  return entry.status;
+}
+
+/**
+ * Get a program for immediate use, compiling it now if it isn't cached
+ * A ready program is held until releaseProgram; failed builds are cached
+ * too, so the same broken source isn't recompiled.
+ */
+export function acquireProgram(
+  cache: ProgramCache,
+  source: string,
+  lineMap?: SourceLocation[]
+): CachedProgram {
+  let entry = cache.entries.get(source);
+  if (!entry) {
+    entry = startProgram(cache, source, lineMap);
+    cache.entries.set(source, entry);
+  }
+  if (entry.status === "compiling") {
+    finishProgram(cache, entry);
+  }
+
+  entry.lastUsed = ++cache.clock;
+  if (entry.status === "ready") entry.users++;
+  evictUnused(cache);
+
+  const { status, program, failedStage, diagnostics } = entry;
+  return { status, program, failedStage, diagnostics };
+}
+
+/**
+ * Stop holding a program; it stays cached until evicted
+ */
+export function releaseProgram(
+  cache: ProgramCache,
+  program: WebGLProgram
+): void {
+  for (const entry of cache.entries.values()) {
+    if (entry.program === program) {
+      entry.users = Math.max(0, entry.users - 1);
+      entry.lastUsed = ++cache.clock;
+      break;
+    }
+  }
+  evictUnused(cache);
+}
@@ -0,0 +1,193 @@
+/**
+ * Offscreen render targets (framebuffer + color texture) for multipass rendering
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+/**
+ * Double-buffered target: render into `write`, sample `read`, then swap
+ * so a pass can read its own previous frame
+ */
+export interface PingPongTarget {
+  read: RenderTarget;
+  write: RenderTarget;
+}
+
+export interface RenderTargetOptions {
+  /** Use RGBA16F storage (requires EXT_color_buffer_float) */
+  float: boolean;
+}
+
+// ============================================================================
+// Capabilities
+// ============================================================================
+
+/**
+ * Enable rendering to float color buffers
+ * @returns true if RGBA16F targets can be used
+ */
+export function enableFloatRenderTargets(gl: WebGL2RenderingContext): boolean {
+  return gl.getExtension("EXT_color_buffer_float") !== null;
+}
+
+// ============================================================================
+// Creation
+// ============================================================================
+
+/**
+ * Create a framebuffer with a single cleared color texture attachment
+ * @returns Render target or null if the framebuffer is incomplete
+ */
+export function createRenderTarget(
+  gl: WebGL2RenderingContext,
+  width: number,
+  height: number,
+  { float }: RenderTargetOptions
+): RenderTarget | null {
+  const texture = gl.createTexture();
+  const framebuffer = gl.createFramebuffer();
+  if (!texture || !framebuffer) {
+    console.error("Failed to create render target");
+    return null;
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    float ? gl.RGBA16F : gl.RGBA8,
+    width,
+    height,
+    0,
+    gl.RGBA,
+    float ? gl.HALF_FLOAT : gl.UNSIGNED_BYTE,
+    null
+  );
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(
+    gl.FRAMEBUFFER,
+    gl.COLOR_ATTACHMENT0,
+    gl.TEXTURE_2D,
+    texture,
+    0
+  );
+
+  const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+  if (status !== gl.FRAMEBUFFER_COMPLETE) {
+    console.error("Render target framebuffer incomplete:", status);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.deleteFramebuffer(framebuffer);
+    gl.deleteTexture(texture);
+    return null;
+  }
+
+  // New textures have undefined contents until written
+  gl.clearColor(0, 0, 0, 0);
+  gl.clear(gl.COLOR_BUFFER_BIT);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+  return { framebuffer, texture, width, height };
+}
+
+/**
+ * Create a ping-pong pair of render targets
+ */
+export function createPingPongTarget(
+  gl: WebGL2RenderingContext,
+  width: number,
+  height: number,
+  options: RenderTargetOptions
+): PingPongTarget | null {
+  const read = createRenderTarget(gl, width, height, options);
+  const write = read && createRenderTarget(gl, width, height, options);
+  if (!read || !write) {
+    if (read) deleteRenderTarget(gl, read);
+    return null;
+  }
+  return { read, write };
+}
+
+/**
+ * Replace a ping-pong target with one of a new size, carrying over the
+ * latest frame (`read`) stretched to fit
+ * The old target is deleted either way.
+ * @returns Resized target or null if the new one couldn't be created
+ */
+export function resizePingPongTarget(
+  gl: WebGL2RenderingContext,
+  target: PingPongTarget,
+  width: number,
+  height: number,
+  options: RenderTargetOptions
+): PingPongTarget | null {
+  const resized = createPingPongTarget(gl, width, height, options);
+  if (resized) {
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, target.read.framebuffer);
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, resized.read.framebuffer);
+    gl.blitFramebuffer(
+      0,
+      0,
+      target.read.width,
+      target.read.height,
+      0,
+      0,
+      width,
+      height,
+      gl.COLOR_BUFFER_BIT,
+      gl.LINEAR
+    );
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+  deletePingPongTarget(gl, target);
+  return resized;
+}
+
+/**
+ * Swap read and write after rendering into `write`
+ */
+export function swapPingPong(target: PingPongTarget): void {
+  const { read, write } = target;
+  target.read = write;
+  target.write = read;
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+/**
+ * Delete a render target's framebuffer and texture
+ */
+export function deleteRenderTarget(
+  gl: WebGL2RenderingContext,
+  target: RenderTarget
+): void {
+  gl.deleteFramebuffer(target.framebuffer);
+  gl.deleteTexture(target.texture);
+}
+
+/**
+ * Delete both halves of a ping-pong target
+ */
+export function deletePingPongTarget(
+  gl: WebGL2RenderingContext,
+  target: PingPongTarget
+): void {
+  deleteRenderTarget(gl, target.read);
+  deleteRenderTarget(gl, target.write);
+}
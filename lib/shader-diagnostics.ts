@@ -0,0 +1,161 @@
+/**
+ * Structured shader compile/link diagnostics parsed from driver info logs
+ */
+
+import type { SourceLocation } from "./glsl-preprocessor";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShaderStage = "vertex" | "fragment" | "link";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * One line of source shown around a diagnostic
+ */
+export interface DiagnosticSourceLine {
+  line: number;
+  text: string;
+  /** The line the diagnostic points at */
+  highlight: boolean;
+}
+
+/**
+ * A single compiler or linker message
+ */
+export interface ShaderDiagnostic {
+  stage: ShaderStage;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** File or chunk the line belongs to, when the source was preprocessed */
+  file?: string;
+  /** 1-based line in `file` (or in the submitted source), if reported */
+  line?: number;
+  /** 1-based column, if the driver reports one */
+  column?: number;
+  /** Offending line with surrounding context from the same file */
+  context?: DiagnosticSourceLine[];
+}
+
+const CONTEXT_LINES = 2;
+
+// Driver info log formats:
+//   ANGLE / Chrome / Firefox: "ERROR: 0:12: 'foo' : undeclared identifier"
+//   Mesa:                     "0:12(5): error: `foo' undeclared"
+//   NVIDIA:                   "0(12) : error C1008: undefined variable "foo""
+const ANGLE_PATTERN = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/i;
+const MESA_PATTERN = /^\d+:(\d+)\((\d+)\):\s*(error|warning):\s*(.*)$/i;
+const NVIDIA_PATTERN = /^\d+\((\d+)\)\s*:\s*(error|warning)\s*\w*:\s*(.*)$/i;
+
+// Summary lines that carry no information of their own
+const SUMMARY_PATTERN = /^(ERROR|WARNING):\s*\d+\s+compilation errors?\./i;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a driver info log into diagnostics
+ * @param source - The source that was compiled, used for context lines
+ * @param lineMap - Origins of preprocessed lines; maps lines back to files
+ */
+export function parseInfoLog(
+  log: string,
+  stage: ShaderStage,
+  source?: string,
+  lineMap?: SourceLocation[]
+): ShaderDiagnostic[] {
+  const diagnostics: ShaderDiagnostic[] = [];
+  const sourceLines = source?.split("\n");
+
+  for (const rawLine of log.split("\n")) {
+    const text = rawLine.replace(/\0/g, "").trim();
+    if (!text || SUMMARY_PATTERN.test(text)) continue;
+
+    let severity: DiagnosticSeverity = "error";
+    let line: number | undefined;
+    let column: number | undefined;
+    let message = text;
+
+    let match: RegExpExecArray | null;
+    if ((match = ANGLE_PATTERN.exec(text))) {
+      severity = match[1].toLowerCase() as DiagnosticSeverity;
+      line = Number(match[2]);
+      message = match[3];
+    } else if ((match = MESA_PATTERN.exec(text))) {
+      line = Number(match[1]);
+      column = Number(match[2]);
+      severity = match[3].toLowerCase() as DiagnosticSeverity;
+      message = match[4];
+    } else if ((match = NVIDIA_PATTERN.exec(text))) {
+      line = Number(match[1]);
+      severity = match[2].toLowerCase() as DiagnosticSeverity;
+      message = match[3];
+    } else if (/^warning/i.test(text)) {
+      severity = "warning";
+    }
+
+    const diagnostic: ShaderDiagnostic = { stage, severity, message };
+    if (column !== undefined) diagnostic.column = column;
+
+    if (line !== undefined) {
+      const location = lineMap?.[line - 1];
+      diagnostic.file = location?.file;
+      diagnostic.line = location ? location.line : line;
+      if (sourceLines) {
+        diagnostic.context = getContextLines(sourceLines, line, lineMap);
+      }
+    }
+
+    diagnostics.push(diagnostic);
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Collect the lines around a source line, keeping only lines that come from
+ * the same file and numbering them by their original line
+ */
+function getContextLines(
+  sourceLines: string[],
+  line: number,
+  lineMap?: SourceLocation[]
+): DiagnosticSourceLine[] {
+  const target = lineMap?.[line - 1];
+  const context: DiagnosticSourceLine[] = [];
+
+  for (
+    let i = Math.max(1, line - CONTEXT_LINES);
+    i <= Math.min(sourceLines.length, line + CONTEXT_LINES);
+    i++
+  ) {
+    const location = lineMap?.[i - 1];
+    if (target && location?.file !== target.file) continue;
+    context.push({
+      line: location ? location.line : i,
+      text: sourceLines[i - 1],
+      highlight: i === line,
+    });
+  }
+
+  return context;
+}
+
+/**
+ * Format where a diagnostic points as "file:line:col"
+ */
+export function formatDiagnosticLocation(diagnostic: ShaderDiagnostic): string {
+  return [diagnostic.file ?? diagnostic.stage, diagnostic.line, diagnostic.column]
+    .filter((part) => part !== undefined)
+    .join(":");
+}
+
+/**
+ * Format a diagnostic as a single "file:line:col: severity: message" line
+ */
+export function formatDiagnostic(diagnostic: ShaderDiagnostic): string {
+  return `${formatDiagnosticLocation(diagnostic)}: ${diagnostic.severity}: ${diagnostic.message}`;
+}
@@ -0,0 +1,119 @@
+/**
+ * Shadertoy compatibility: wraps `mainImage(out vec4, in vec2)` sources in a
+ * GLSL ES 3.00 prelude declaring Shadertoy's inputs, plus a `main()` that
+ * calls `mainImage`
+ *
+ * Sources may declare an `iChannelN` sampler themselves (with a @channel
+ * annotation); the prelude then leaves that declaration out.
+ */
+
+import type { PreprocessedSource, SourceLocation } from "./glsl-preprocessor";
+
+// ============================================================================
+// Wrapper Sources
+// ============================================================================
+
+/**
+ * File name diagnostics report for wrapper lines
+ */
+export const SHADERTOY_WRAPPER_FILE = "shadertoy";
+
+/**
+ * Shadertoy's texture inputs, in order
+ */
+export const SHADERTOY_CHANNELS = [
+  "iChannel0",
+  "iChannel1",
+  "iChannel2",
+  "iChannel3",
+] as const;
+
+const PRELUDE = `#version 300 es
+precision highp float;
+precision highp int;
+
+uniform vec3 iResolution;
+uniform float iTime;
+uniform float iTimeDelta;
+uniform int iFrame;
+uniform vec4 iMouse;
+uniform vec4 iDate;
+
+uniform sampler2D iChannel0;
+uniform sampler2D iChannel1;
+uniform sampler2D iChannel2;
+uniform sampler2D iChannel3;
+uniform vec2 iChannel0Resolution;
+uniform vec2 iChannel1Resolution;
+uniform vec2 iChannel2Resolution;
+uniform vec2 iChannel3Resolution;
+vec3 iChannelResolution[4];`;
+
+const EPILOGUE = `out vec4 shadertoy_FragColor;
+
+void main() {
+    iChannelResolution[0] = vec3(iChannel0Resolution, 1.0);
+    iChannelResolution[1] = vec3(iChannel1Resolution, 1.0);
+    iChannelResolution[2] = vec3(iChannel2Resolution, 1.0);
+    iChannelResolution[3] = vec3(iChannel3Resolution, 1.0);
+
+    vec4 color = vec4(0.0, 0.0, 0.0, 1.0);
+    mainImage(color, gl_FragCoord.xy);
+    // Shadertoy ignores alpha; keep the canvas opaque
+    shadertoy_FragColor = vec4(color.rgb, 1.0);
+}`;
+
+const EPILOGUE_LINES = EPILOGUE.split("\n");
+
+// ============================================================================
+// Wrapping
+// ============================================================================
+
+/**
+ * Wrap an already preprocessed Shadertoy-style source
+ * The line map is extended so user code keeps its original locations.
+ * @param declaredChannels - `iChannelN` samplers the source declares itself
+ */
+export function wrapShadertoySource(
+  body: PreprocessedSource,
+  declaredChannels: ReadonlySet<string> = new Set()
+): PreprocessedSource {
+  // Blanked rather than removed, so wrapper line numbers don't shift
+  const prelude = PRELUDE.split("\n").map((line) =>
+    SHADERTOY_CHANNELS.some(
+      (name) =>
+        declaredChannels.has(name) && line === `uniform sampler2D ${name};`
+    )
+      ? ""
+      : line
+  );
+
+  const wrapperLocations = (lines: string[], offset: number): SourceLocation[] =>
+    lines.map((_, index) => ({
+      file: SHADERTOY_WRAPPER_FILE,
+      line: offset + index + 1,
+    }));
+
+  return {
+    source: [...prelude, body.source, EPILOGUE].join("\n"),
+    lineMap: [
+      ...wrapperLocations(prelude, 0),
+      ...body.lineMap,
+      ...wrapperLocations(EPILOGUE_LINES, prelude.length),
+    ],
+  };
+}
+
+/**
+ * Shadertoy's iDate: year, month (0-11), day (1-31), seconds since midnight
+ */
+export function getShadertoyDate(
+  date: Date = new Date()
+): [number, number, number, number] {
+  const seconds =
+    date.getHours() * 3600 +
+    date.getMinutes() * 60 +
+    date.getSeconds() +
+    date.getMilliseconds() / 1000;
+  return [date.getFullYear(), date.getMonth(), date.getDate(), seconds];
+}
@@ -0,0 +1,85 @@
+/**
+ * Minimal external stores for module-level state read with React's
+ * useSyncExternalStore, optionally persisted to localStorage
+ */
+
+import { useSyncExternalStore } from "react";
+import { readStorage, writeStorage } from "./local-storage";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Store<T> {
+  /** Current value, loaded on first read */
+  get(): T;
+  /** Replace the value (saving it, if persisted) and notify subscribers */
+  set(next: T): void;
+  /**
+   * Subscribe to changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Create a store
+ * @param load - Initial value; called lazily so modules can be imported
+ *               during SSR
+ * @param save - Called with every new value
+ */
+export function createStore<T>(
+  load: () => T,
+  save?: (value: T) => void
+): Store<T> {
+  const listeners = new Set<() => void>();
+  let value: { current: T } | null = null;
+
+  const get = () => {
+    if (value === null) value = { current: load() };
+    return value.current;
+  };
+
+  return {
+    get,
+    set(next) {
+      value = { current: next };
+      save?.(next);
+      for (const listener of listeners) {
+        listener();
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Create a store persisted as JSON under a localStorage key
+ * @param fallback - Value when nothing (readable) is stored
+ */
+export function createStorageStore<T>(key: string, fallback: T): Store<T> {
+  return createStore(
+    () => readStorage(key, fallback),
+    (value) => writeStorage(key, value)
+  );
+}
+
+/**
+ * React hook returning a store's current value
+ * @param serverValue - Value rendered on the server and during hydration
+ */
+export function useStore<T>(
+  store: Pick<Store<T>, "get" | "subscribe">,
+  serverValue: T
+): T {
+  return useSyncExternalStore(store.subscribe, store.get, () => serverValue);
+}
@@ -0,0 +1,296 @@
+/**
+ * Texture inputs for shader channels: bundled images, generated noise,
+ * user-dropped files and looping videos
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where a texture's pixels come from
+ */
+export type TextureSource =
+  /** Image fetched from a URL (bundled asset or object URL) */
+  | { type: "image"; url: string }
+  /** Seeded RGBA white noise, size x size texels */
+  | { type: "noise"; size: number; seed: number }
+  /** Muted looping video, re-uploaded every rendered frame */
+  | { type: "video"; url: string }
+  /** Empty until the user supplies an image or video file */
+  | { type: "file" };
+
+/** "mipmap" is trilinear filtering with generated mipmaps */
+export type TextureFilter = "nearest" | "linear" | "mipmap";
+
+export type TextureWrap = "clamp" | "repeat" | "mirror";
+
+export interface TextureSampling {
+  filter: TextureFilter;
+  wrap: TextureWrap;
+}
+
+/**
+ * GL texture fed from a TextureSource
+ * Width and height stay 0 until the source has loaded.
+ */
+export interface SourceTexture {
+  source: TextureSource;
+  sampling: TextureSampling;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  video: HTMLVideoElement | null;
+  /** Set once deleted so late image/video loads are ignored */
+  disposed: boolean;
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Apply filter and wrap parameters to the bound TEXTURE_2D
+ */
+function applySampling(
+  gl: WebGL2RenderingContext,
+  { filter, wrap }: TextureSampling
+): void {
+  const wrapMode = {
+    clamp: gl.CLAMP_TO_EDGE,
+    repeat: gl.REPEAT,
+    mirror: gl.MIRRORED_REPEAT,
+  }[wrap];
+
+  gl.texParameteri(
+    gl.TEXTURE_2D,
+    gl.TEXTURE_MIN_FILTER,
+    filter === "nearest"
+      ? gl.NEAREST
+      : filter === "mipmap"
+        ? gl.LINEAR_MIPMAP_LINEAR
+        : gl.LINEAR
+  );
+  gl.texParameteri(
+    gl.TEXTURE_2D,
+    gl.TEXTURE_MAG_FILTER,
+    filter === "nearest" ? gl.NEAREST : gl.LINEAR
+  );
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wrapMode);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, wrapMode);
+}
+
+/**
+ * Upload a DOM image or video frame into a texture
+ */
+function uploadElement(
+  gl: WebGL2RenderingContext,
+  target: SourceTexture,
+  element: TexImageSource,
+  width: number,
+  height: number
+): void {
+  gl.bindTexture(gl.TEXTURE_2D, target.texture);
+  // Match GL's bottom-up rows so uv (0,0) is the image's bottom-left
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, element);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  if (target.sampling.filter === "mipmap") {
+    gl.generateMipmap(gl.TEXTURE_2D);
+  }
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  target.width = width;
+  target.height = height;
+}
+
+// ============================================================================
+// Noise
+// ============================================================================
+
+/**
+ * Generate seeded RGBA white noise (mulberry32)
+ */
+export function generateNoiseData(size: number, seed: number): Uint8Array {
+  const data = new Uint8Array(size * size * 4);
+  let state = seed >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    data[i] = ((t ^ (t >>> 14)) >>> 0) & 0xff;
+  }
+  return data;
+}
+
+// ============================================================================
+// Creation
+// ============================================================================
+
+/**
+ * Create a texture for a source
+ * Noise is generated immediately; images and videos load asynchronously and
+ * sample as transparent black until then.
+ * @returns Source texture or null if the texture could not be allocated
+ */
+export function createSourceTexture(
+  gl: WebGL2RenderingContext,
+  source: TextureSource,
+  sampling: TextureSampling
+): SourceTexture | null {
+  const texture = gl.createTexture();
+  if (!texture) {
+    console.error("Failed to create texture");
+    return null;
+  }
+
+  const target: SourceTexture = {
+    source,
+    sampling,
+    texture,
+    width: 0,
+    height: 0,
+    video: null,
+    disposed: false,
+  };
+
+  // 1x1 placeholder so the sampler is complete before anything loads
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  applySampling(gl, sampling);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    gl.RGBA,
+    1,
+    1,
+    0,
+    gl.RGBA,
+    gl.UNSIGNED_BYTE,
+    new Uint8Array(4)
+  );
+  if (sampling.filter === "mipmap") {
+    gl.generateMipmap(gl.TEXTURE_2D);
+  }
+
+  switch (source.type) {
+    case "noise": {
+      const { size, seed } = source;
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        size,
+        size,
+        0,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        generateNoiseData(size, seed)
+      );
+      if (sampling.filter === "mipmap") {
+        gl.generateMipmap(gl.TEXTURE_2D);
+      }
+      target.width = size;
+      target.height = size;
+      break;
+    }
+
+    case "image": {
+      const image = new Image();
+      image.crossOrigin = "anonymous";
+      image.onload = () => {
+        if (target.disposed) return;
+        uploadElement(gl, target, image, image.naturalWidth, image.naturalHeight);
+      };
+      image.onerror = () => {
+        console.error(`Failed to load texture image: ${source.url}`);
+      };
+      image.src = source.url;
+      break;
+    }
+
+    case "video": {
+      const video = document.createElement("video");
+      video.crossOrigin = "anonymous";
+      video.muted = true;
+      video.loop = true;
+      video.playsInline = true;
+      video.onerror = () => {
+        console.error(`Failed to load texture video: ${source.url}`);
+      };
+      video.src = source.url;
+      video.play().catch((e) => {
+        console.warn("Texture video did not start playing:", e);
+      });
+      target.video = video;
+      break;
+    }
+
+    case "file":
+      break;
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, null);
+  return target;
+}
+
+/**
+ * Create a 1x1 transparent black texture for samplers with nothing bound
+ * @returns Texture or null if it could not be allocated
+ */
+export function createBlankTexture(
+  gl: WebGL2RenderingContext
+): WebGLTexture | null {
+  const texture = gl.createTexture();
+  if (!texture) {
+    console.error("Failed to create texture");
+    return null;
+  }
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  applySampling(gl, { filter: "nearest", wrap: "clamp" });
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    gl.RGBA,
+    1,
+    1,
+    0,
+    gl.RGBA,
+    gl.UNSIGNED_BYTE,
+    new Uint8Array(4)
+  );
+  return texture;
+}
+
+/**
+ * Upload the current video frame, if any; call once per rendered frame
+ */
+export function updateSourceTexture(
+  gl: WebGL2RenderingContext,
+  target: SourceTexture
+): void {
+  const video = target.video;
+  if (!video || video.readyState < video.HAVE_CURRENT_DATA) return;
+  uploadElement(gl, target, video, video.videoWidth, video.videoHeight);
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+/**
+ * Delete a source texture and stop any video feeding it
+ */
+export function deleteSourceTexture(
+  gl: WebGL2RenderingContext,
+  target: SourceTexture
+): void {
+  target.disposed = true;
+  if (target.video) {
+    target.video.pause();
+    target.video.removeAttribute("src");
+    target.video.load();
+    target.video = null;
+  }
+  gl.deleteTexture(target.texture);
+}
@@ -0,0 +1,122 @@
+/**
+ * Tiled rendering: draws a frame larger than the GPU allows in one pass as
+ * a grid of tiles, shifting gl_FragCoord so each tile sees its position in
+ * the full frame
+ */
+
+import type { PreprocessedSource, SourceLocation } from "./glsl-preprocessor";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One tile of a frame, in pixels with the origin at the bottom left
+ * (gl_FragCoord's convention)
+ */
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// Source Transform
+// ============================================================================
+
+/**
+ * Uniform holding the current tile's offset within the full frame
+ */
+export const FRAG_COORD_OFFSET_UNIFORM = "u_fragCoordOffset";
+
+/**
+ * File name diagnostics report for the inserted declaration
+ */
+export const TILING_WRAPPER_FILE = "tiling";
+
+const DECLARATION = `uniform highp vec2 ${FRAG_COORD_OFFSET_UNIFORM};`;
+
+const FRAG_COORD_PATTERN = /\bgl_FragCoord\b/g;
+
+const OFFSET_FRAG_COORD = `(gl_FragCoord + vec4(${FRAG_COORD_OFFSET_UNIFORM}, 0.0, 0.0))`;
+
+/**
+ * Rewrite an already preprocessed fragment source so gl_FragCoord reads as
+ * a position in the full frame rather than the tile being drawn
+ * The offset uniform is declared after the #version and #extension lines,
+ * and the line map is extended so user code keeps its original locations.
+ */
+export function offsetFragCoord(
+  preprocessed: PreprocessedSource
+): PreprocessedSource {
+  const lines = preprocessed.source.split("\n");
+
+  // Directives that must stay ahead of any declaration
+  let insertAt = 0;
+  while (
+    insertAt < lines.length &&
+    /^\s*#\s*(version|extension)\b/.test(lines[insertAt])
+  ) {
+    insertAt++;
+  }
+
+  const declarationLocation: SourceLocation = {
+    file: TILING_WRAPPER_FILE,
+    line: 1,
+  };
+  const body = lines
+    .slice(insertAt)
+    .map((line) => line.replace(FRAG_COORD_PATTERN, OFFSET_FRAG_COORD));
+
+  return {
+    source: [...lines.slice(0, insertAt), DECLARATION, ...body].join("\n"),
+    lineMap: [
+      ...preprocessed.lineMap.slice(0, insertAt),
+      declarationLocation,
+      ...preprocessed.lineMap.slice(insertAt),
+    ],
+  };
+}
+
+// ============================================================================
+// Tile Planning
+// ============================================================================
+
+/**
+ * Split a frame into a grid of tiles no larger than maxTileSize on either
+ * side and no more than maxTilePixels in area
+ * Tiles are ordered bottom row first, left to right; edge tiles are smaller
+ * when the frame doesn't divide evenly.
+ */
+export function planTiles(
+  width: number,
+  height: number,
+  maxTileSize: number,
+  maxTilePixels = Infinity
+): Tile[] {
+  let tileWidth = Math.min(width, maxTileSize);
+  let tileHeight = Math.min(height, maxTileSize);
+
+  // Shrink the longer side until the tile fits the pixel budget
+  while (tileWidth * tileHeight > maxTilePixels && tileWidth * tileHeight > 1) {
+    if (tileWidth >= tileHeight) {
+      tileWidth = Math.ceil(tileWidth / 2);
+    } else {
+      tileHeight = Math.ceil(tileHeight / 2);
+    }
+  }
+
+  const tiles: Tile[] = [];
+  for (let y = 0; y < height; y += tileHeight) {
+    for (let x = 0; x < width; x += tileWidth) {
+      tiles.push({
+        x,
+        y,
+        width: Math.min(tileWidth, width - x),
+        height: Math.min(tileHeight, height - y),
+      });
+    }
+  }
+  return tiles;
+}
@@ -1,12 +1,20 @@
 /**
  * WebGL2 utility functions for shader effects
+ * Compilation and uniform helpers also accept WebGL1 contexts (see webgl1.ts).
  */
 
+import type { SourceLocation } from "./glsl-preprocessor";
+import {
+  formatDiagnostic,
+  parseInfoLog,
+  type ShaderDiagnostic,
+} from "./shader-diagnostics";
+
 // ============================================================================
 // Types
 // ============================================================================
 
-export type UniformType = "float" | "int" | "vec2" | "vec3" | "vec4";
+export type UniformType = "float" | "int" | "bool" | "vec2" | "vec3" | "vec4";
 
 export interface WebGLState {
   gl: WebGL2RenderingContext | null;
@@ -15,6 +23,22 @@ export interface WebGLState {
   uniforms: Map<string, WebGLUniformLocation>;
 }
 
+/**
+ * Result of compiling a shader stage
+ */
+export interface CompileResult {
+  shader: WebGLShader | null;
+  diagnostics: ShaderDiagnostic[];
+}
+
+/**
+ * Result of linking a program
+ */
+export interface LinkResult {
+  program: WebGLProgram | null;
+  diagnostics: ShaderDiagnostic[];
+}
+
 export function createInitialState(): WebGLState {
   return {
     gl: null,
@@ -72,6 +96,44 @@ export function createWebGLContext(
   return gl;
 }
 
+/**
+ * Force a context loss for testing, restoring it after a delay
+ * Uses WEBGL_lose_context; the canvas sees the usual webglcontextlost and
+ * webglcontextrestored events.
+ * @returns False if the extension is unavailable or the context is already lost
+ */
+export function simulateContextLoss(
+  gl: WebGL2RenderingContext,
+  restoreAfterMs = 1000
+): boolean {
+  const extension = gl.getExtension("WEBGL_lose_context");
+  if (!extension || gl.isContextLost()) return false;
+
+  extension.loseContext();
+  setTimeout(() => extension.restoreContext(), restoreAfterMs);
+  return true;
+}
+
+/**
+ * GPU renderer and vendor names
+ * Uses WEBGL_debug_renderer_info for the unmasked names where the browser
+ * still offers it; otherwise the (possibly generic) standard strings.
+ */
+export function getRendererInfo(gl: WebGL2RenderingContext): {
+  renderer: string;
+  vendor: string;
+} {
+  const extension = gl.getExtension("WEBGL_debug_renderer_info");
+  return {
+    renderer: String(
+      gl.getParameter(extension?.UNMASKED_RENDERER_WEBGL ?? gl.RENDERER)
+    ),
+    vendor: String(
+      gl.getParameter(extension?.UNMASKED_VENDOR_WEBGL ?? gl.VENDOR)
+    ),
+  };
+}
+
 // ============================================================================
 // Shader Compilation
 // ============================================================================
@@ -79,59 +141,85 @@ export function createWebGLContext(
 /**
  * Compile a vertex or fragment shader
  * @param type - gl.VERTEX_SHADER or gl.FRAGMENT_SHADER
- * @returns Compiled shader or null on error
+ * @param lineMap - Origins of preprocessed lines, used to remap error lines
+ * @returns Compiled shader (null on error) with parsed info log diagnostics
  */
 export function compileShader(
-  gl: WebGL2RenderingContext,
+  gl: WebGLRenderingContext,
   type: number,
-  source: string
-): WebGLShader | null {
+  source: string,
+  lineMap?: SourceLocation[]
+): CompileResult {
+  const stage = type === gl.VERTEX_SHADER ? "vertex" : "fragment";
+
   const shader = gl.createShader(type);
   if (!shader) {
     console.error("Failed to create shader");
-    return null;
+    return {
+      shader: null,
+      diagnostics: [
+        { stage, severity: "error", message: "Failed to create shader" },
+      ],
+    };
   }
 
   gl.shaderSource(shader, source);
   gl.compileShader(shader);
 
+  const diagnostics = parseInfoLog(
+    gl.getShaderInfoLog(shader) ?? "",
+    stage,
+    source,
+    lineMap
+  );
+
   if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-    const info = gl.getShaderInfoLog(shader);
-    console.error("Shader compilation error:", info);
+    console.error(
+      "Shader compilation error:\n" +
+        diagnostics.map(formatDiagnostic).join("\n")
+    );
     gl.deleteShader(shader);
-    return null;
+    return { shader: null, diagnostics };
   }
 
-  return shader;
+  return { shader, diagnostics };
 }
 
 /**
  * Create and link a shader program from vertex and fragment shaders
- * @returns Linked program or null on error
+ * @returns Linked program (null on error) with parsed info log diagnostics
  */
 export function createProgram(
-  gl: WebGL2RenderingContext,
+  gl: WebGLRenderingContext,
   vertexShader: WebGLShader,
   fragmentShader: WebGLShader
-): WebGLProgram | null {
+): LinkResult {
   const program = gl.createProgram();
   if (!program) {
     console.error("Failed to create program");
-    return null;
+    return {
+      program: null,
+      diagnostics: [
+        { stage: "link", severity: "error", message: "Failed to create program" },
+      ],
+    };
   }
 
   gl.attachShader(program, vertexShader);
   gl.attachShader(program, fragmentShader);
   gl.linkProgram(program);
 
+  const diagnostics = parseInfoLog(gl.getProgramInfoLog(program) ?? "", "link");
+
   if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-    const info = gl.getProgramInfoLog(program);
-    console.error("Program link error:", info);
+    console.error(
+      "Program link error:\n" + diagnostics.map(formatDiagnostic).join("\n")
+    );
     gl.deleteProgram(program);
-    return null;
+    return { program: null, diagnostics };
   }
 
-  return program;
+  return { program, diagnostics };
 }
 
 // ============================================================================
@@ -181,23 +269,17 @@ export function createFullscreenQuad(
 // Uniforms
 // ============================================================================
 
+export type UniformValue = number | boolean | number[];
+
 /**
- * Set a uniform value by type
- * Caches uniform locations internally for performance
+ * Upload a value to a uniform location by type
  */
-export function setUniform(
-  gl: WebGL2RenderingContext,
-  program: WebGLProgram,
-  name: string,
+function uploadUniform(
+  gl: WebGLRenderingContext,
+  location: WebGLUniformLocation,
   type: UniformType,
-  value: number | number[]
+  value: UniformValue
 ): void {
-  const location = gl.getUniformLocation(program, name);
-  if (!location) {
-    // Uniform may be optimized out, not necessarily an error
-    return;
-  }
-
   switch (type) {
     case "float":
       gl.uniform1f(location, value as number);
@@ -205,6 +287,9 @@ export function setUniform(
     case "int":
       gl.uniform1i(location, value as number);
       break;
+    case "bool":
+      gl.uniform1i(location, value ? 1 : 0);
+      break;
     case "vec2":
       gl.uniform2fv(location, value as number[]);
       break;
@@ -217,6 +302,113 @@ export function setUniform(
   }
 }
 
+/**
+ * Set a uniform value by type
+ * Looks up the location on every call - prefer createUniformBinder in render loops
+ */
+export function setUniform(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram,
+  name: string,
+  type: UniformType,
+  value: UniformValue
+): void {
+  const location = gl.getUniformLocation(program, name);
+  if (!location) {
+    // Uniform may be optimized out, not necessarily an error
+    return;
+  }
+
+  uploadUniform(gl, location, type, value);
+}
+
+/**
+ * Uniform declared to a binder
+ */
+export interface UniformDeclaration {
+  name: string;
+  type: UniformType;
+  /** Don't warn if the program doesn't use it (e.g. engine uniforms) */
+  optional?: boolean;
+}
+
+/**
+ * Typed uniform setter bound to one linked program
+ */
+export interface UniformBinder {
+  program: WebGLProgram;
+  /**
+   * Set a declared uniform, uploading only if the value changed.
+   * The binder's program must be current (gl.useProgram).
+   */
+  set(name: string, value: UniformValue): void;
+  /** Forget uploaded values so the next set() re-uploads everything */
+  invalidate(): void;
+}
+
+function uniformValuesEqual(a: UniformValue, b: UniformValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => v === b[i]);
+  }
+  return a === b;
+}
+
+/**
+ * Create a uniform binder for a linked program
+ * Resolves and caches every declared uniform's location once, dispatches
+ * uploads by declared type and skips values that haven't changed.
+ * Warns once for declared uniforms the program doesn't expose.
+ */
+export function createUniformBinder(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram,
+  declarations: UniformDeclaration[]
+): UniformBinder {
+  const entries = new Map<
+    string,
+    {
+      type: UniformType;
+      location: WebGLUniformLocation;
+      lastValue: UniformValue | undefined;
+    }
+  >();
+
+  for (const { name, type, optional } of declarations) {
+    const location = gl.getUniformLocation(program, name);
+    if (!location) {
+      if (!optional) {
+        console.warn(
+          `Uniform "${name}" is declared but not active in the program (unused or misspelled)`
+        );
+      }
+      continue;
+    }
+    entries.set(name, { type, location, lastValue: undefined });
+  }
+
+  return {
+    program,
+    set(name, value) {
+      const entry = entries.get(name);
+      if (!entry) return;
+      if (
+        entry.lastValue !== undefined &&
+        uniformValuesEqual(entry.lastValue, value)
+      ) {
+        return;
+      }
+
+      uploadUniform(gl, entry.location, entry.type, value);
+      entry.lastValue = Array.isArray(value) ? [...value] : value;
+    },
+    invalidate() {
+      for (const entry of entries.values()) {
+        entry.lastValue = undefined;
+      }
+    },
+  };
+}
+
 // ============================================================================
 // Cleanup
 // ============================================================================
@@ -0,0 +1,213 @@
+/**
+ * WebGL1 fallback: down-converts the gallery's GLSL ES 3.00 fragment
+ * shaders to GLSL ES 1.00 and draws them on a WebGL1 context
+ *
+ * Only the features single-pass gallery shaders use are converted: the
+ * version line, `in` varyings, a single `out vec4` and `texture()`. Sources
+ * using ES 3.00-only features fail to convert or compile, and callers fall
+ * back further.
+ */
+
+import type { PreprocessedSource, SourceLocation } from "./glsl-preprocessor";
+import type { ShaderDiagnostic } from "./shader-diagnostics";
+import { compileShader, createProgram } from "./webgl-utils";
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+/**
+ * GLSL ES 1.00 version of the fullscreen quad vertex shader
+ */
+export const VERTEX_SHADER_SOURCE_ES1 = `precision highp float;
+
+attribute vec2 a_position;
+
+varying vec2 v_uv;
+
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+const VERSION_PATTERN = /^\s*#version\s+300\s+es\s*$/;
+const OUTPUT_PATTERN =
+  /^\s*(?:layout\s*\([^)]*\)\s*)?out\s+(?:(?:lowp|mediump|highp)\s+)?vec4\s+(\w+)\s*;\s*$/;
+const INPUT_PATTERN = /^(\s*)in(\s+(?:(?:lowp|mediump|highp)\s+)?\w+\s+\w+\s*;)/;
+const UNSUPPORTED_PATTERN =
+  /\b(texelFetch|textureSize|textureLod|textureGrad|uint|uvec[234])\b/;
+const DERIVATIVES_PATTERN = /\b(dFdx|dFdy|fwidth)\b/;
+
+/**
+ * Error thrown when a source uses GLSL ES 3.00 features with no
+ * GLSL ES 1.00 equivalent
+ */
+export class GlslConversionError extends Error {
+  constructor(
+    public readonly detail: string,
+    public readonly location: SourceLocation
+  ) {
+    super(`${location.file}:${location.line}: ${detail}`);
+    this.name = "GlslConversionError";
+  }
+}
+
+/**
+ * Convert a preprocessed GLSL ES 3.00 fragment shader to GLSL ES 1.00
+ * Lines are rewritten in place, so the line map stays valid.
+ * @throws GlslConversionError for features WebGL1 can't express
+ */
+export function convertToGlslEs1(
+  preprocessed: PreprocessedSource
+): PreprocessedSource {
+  const { source, lineMap } = preprocessed;
+  const lines = source.split("\n");
+  const locate = (index: number): SourceLocation =>
+    lineMap[index] ?? { file: "<shader>", line: index + 1 };
+
+  // Find the single fragment output, which becomes gl_FragColor
+  let output: string | null = null;
+  for (let index = 0; index < lines.length; index++) {
+    const match = OUTPUT_PATTERN.exec(lines[index]);
+    if (!match) continue;
+    if (output !== null) {
+      throw new GlslConversionError(
+        "multiple fragment outputs are not supported in WebGL1",
+        locate(index)
+      );
+    }
+    output = match[1];
+    lines[index] = "";
+  }
+  if (output === null) {
+    throw new GlslConversionError(
+      "missing `out vec4` fragment output",
+      locate(0)
+    );
+  }
+  const outputPattern = new RegExp(`\\b${output}\\b`, "g");
+
+  const converted = lines.map((text, index) => {
+    if (VERSION_PATTERN.test(text)) {
+      // Derivatives need an extension in GLSL ES 1.00; the version line's
+      // slot keeps the directive first without shifting later lines
+      return DERIVATIVES_PATTERN.test(source)
+        ? "#extension GL_OES_standard_derivatives : enable"
+        : "";
+    }
+
+    const unsupported = UNSUPPORTED_PATTERN.exec(text);
+    if (unsupported && !/^\s*\/\//.test(text)) {
+      throw new GlslConversionError(
+        `${unsupported[1]} is not supported in WebGL1`,
+        locate(index)
+      );
+    }
+
+    return text
+      .replace(INPUT_PATTERN, "$1varying$2")
+      .replace(/\btexture\s*\(/g, "texture2D(")
+      .replace(outputPattern, "gl_FragColor");
+  });
+
+  return { source: converted.join("\n"), lineMap };
+}
+
+// ============================================================================
+// Context and Programs
+// ============================================================================
+
+/**
+ * Get a WebGL1 context for the fallback renderer
+ * @returns null if WebGL is not supported at all
+ */
+export function createWebGL1Context(
+  canvas: HTMLCanvasElement
+): WebGLRenderingContext | null {
+  const gl = canvas.getContext("webgl", {
+    alpha: false,
+    antialias: false,
+    depth: false,
+    stencil: false,
+    preserveDrawingBuffer: false,
+  });
+  if (gl) {
+    gl.getExtension("OES_standard_derivatives");
+  }
+  return gl;
+}
+
+/**
+ * Result of building a WebGL1 program
+ */
+export interface WebGL1ProgramResult {
+  program: WebGLProgram | null;
+  diagnostics: ShaderDiagnostic[];
+}
+
+/**
+ * Compile and link a converted fragment shader with the ES 1.00 vertex shader
+ */
+export function createWebGL1Program(
+  gl: WebGLRenderingContext,
+  fragment: PreprocessedSource
+): WebGL1ProgramResult {
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER_SOURCE_ES1);
+  if (!vertex.shader) {
+    return { program: null, diagnostics: vertex.diagnostics };
+  }
+
+  const compiled = compileShader(
+    gl,
+    gl.FRAGMENT_SHADER,
+    fragment.source,
+    fragment.lineMap
+  );
+  if (!compiled.shader) {
+    gl.deleteShader(vertex.shader);
+    return { program: null, diagnostics: compiled.diagnostics };
+  }
+
+  const linked = createProgram(gl, vertex.shader, compiled.shader);
+  gl.deleteShader(vertex.shader);
+  gl.deleteShader(compiled.shader);
+  return {
+    program: linked.program,
+    diagnostics: [...compiled.diagnostics, ...linked.diagnostics],
+  };
+}
+
+/**
+ * Create the fullscreen quad buffer and point a program's `a_position`
+ * attribute at it
+ * WebGL1 has no vertex array objects or layout qualifiers, so the binding is
+ * global state made per program.
+ */
+export function bindFullscreenQuad(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram
+): WebGLBuffer | null {
+  const location = gl.getAttribLocation(program, "a_position");
+  if (location < 0) {
+    console.error("Program has no a_position attribute");
+    return null;
+  }
+
+  const buffer = gl.createBuffer();
+  if (!buffer) {
+    console.error("Failed to create quad buffer");
+    return null;
+  }
+
+  // Two triangles covering the entire clip space
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]),
+    gl.STATIC_DRAW
+  );
+  gl.enableVertexAttribArray(location);
+  gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+  return buffer;
+}
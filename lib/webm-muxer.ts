@@ -0,0 +1,248 @@
+/**
+ * Minimal WebM muxer for a single video track of encoded chunks (from
+ * WebCodecs' VideoEncoder)
+ *
+ * Everything is buffered and written out by finish(), so element sizes are
+ * always known; there is no seek index, which players handle for short
+ * clips.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WebmMuxerOptions {
+  width: number;
+  height: number;
+  /** Matroska codec ID, e.g. "V_VP9" */
+  codecId: string;
+  frameRate: number;
+}
+
+export interface WebmMuxer {
+  /**
+   * Append an encoded frame
+   * @param timestamp - Presentation time in microseconds
+   */
+  addChunk(data: Uint8Array, timestamp: number, keyFrame: boolean): void;
+  /** Finish the file; the muxer can't be used afterwards */
+  finish(): Blob;
+}
+
+// ============================================================================
+// EBML
+// ============================================================================
+
+type Element = Uint8Array;
+
+// Element IDs, with their length-marker bits included
+const IDS = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  DefaultDuration: 0x23e383,
+  CodecID: 0x86,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+};
+
+// Timestamps are stored in milliseconds
+const TIMECODE_SCALE_NS = 1_000_000;
+
+// SimpleBlock timecodes are signed 16-bit offsets from their cluster
+const MAX_CLUSTER_SPAN_MS = 32767;
+
+const MUXING_APP = "shader-gallery";
+
+function byteLength(parts: Uint8Array[]): number {
+  return parts.reduce((sum, part) => sum + part.length, 0);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(byteLength(parts));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/**
+ * Big-endian unsigned integer in the fewest bytes (at least one)
+ */
+function uintBytes(value: number): Uint8Array {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Element data size as an EBML variable-length integer
+ */
+function sizeBytes(size: number): Uint8Array {
+  for (let length = 1; length <= 8; length++) {
+    // All ones is reserved for "unknown size"
+    if (size < 2 ** (7 * length) - 1) {
+      const bytes = new Uint8Array(length);
+      let value = size;
+      for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = value % 256;
+        value = Math.floor(value / 256);
+      }
+      bytes[0] |= 1 << (8 - length);
+      return bytes;
+    }
+  }
+  throw new RangeError(`EBML element too large: ${size} bytes`);
+}
+
+function element(id: number, data: Uint8Array | Uint8Array[]): Element {
+  const body = Array.isArray(data) ? concat(data) : data;
+  return concat([uintBytes(id), sizeBytes(body.length), body]);
+}
+
+function uintElement(id: number, value: number): Element {
+  return element(id, uintBytes(value));
+}
+
+function floatElement(id: number, value: number): Element {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function stringElement(id: number, value: string): Element {
+  return element(id, new TextEncoder().encode(value));
+}
+
+// ============================================================================
+// Muxer
+// ============================================================================
+
+/**
+ * Create a WebM muxer
+ * A new cluster starts at every key frame (and whenever a cluster would
+ * outgrow its 16-bit timecodes), so each cluster is independently
+ * decodable.
+ */
+export function createWebmMuxer({
+  width,
+  height,
+  codecId,
+  frameRate,
+}: WebmMuxerOptions): WebmMuxer {
+  const clusters: Element[] = [];
+  let blocks: Element[] = [];
+  let clusterTimecode = 0;
+  let endTimecode = 0;
+
+  const closeCluster = () => {
+    if (blocks.length === 0) return;
+    clusters.push(
+      element(IDS.Cluster, [
+        uintElement(IDS.Timecode, clusterTimecode),
+        ...blocks,
+      ])
+    );
+    blocks = [];
+  };
+
+  return {
+    addChunk(data, timestamp, keyFrame) {
+      const timecode = Math.round(timestamp / 1000);
+      if (
+        blocks.length === 0 ||
+        keyFrame ||
+        timecode - clusterTimecode > MAX_CLUSTER_SPAN_MS
+      ) {
+        closeCluster();
+        clusterTimecode = timecode;
+      }
+
+      // Track number (as a size-style vint), relative timecode, flags
+      const header = new Uint8Array(4);
+      header[0] = 0x81;
+      new DataView(header.buffer).setInt16(1, timecode - clusterTimecode);
+      header[3] = keyFrame ? 0x80 : 0;
+      blocks.push(element(IDS.SimpleBlock, [header, data]));
+
+      endTimecode = Math.max(endTimecode, timecode + 1000 / frameRate);
+    },
+
+    finish() {
+      closeCluster();
+
+      const header = element(IDS.EBML, [
+        uintElement(IDS.EBMLVersion, 1),
+        uintElement(IDS.EBMLReadVersion, 1),
+        uintElement(IDS.EBMLMaxIDLength, 4),
+        uintElement(IDS.EBMLMaxSizeLength, 8),
+        stringElement(IDS.DocType, "webm"),
+        uintElement(IDS.DocTypeVersion, 2),
+        uintElement(IDS.DocTypeReadVersion, 2),
+      ]);
+
+      const info = element(IDS.Info, [
+        uintElement(IDS.TimecodeScale, TIMECODE_SCALE_NS),
+        floatElement(IDS.Duration, endTimecode),
+        stringElement(IDS.MuxingApp, MUXING_APP),
+        stringElement(IDS.WritingApp, MUXING_APP),
+      ]);
+
+      const tracks = element(IDS.Tracks, [
+        element(IDS.TrackEntry, [
+          uintElement(IDS.TrackNumber, 1),
+          uintElement(IDS.TrackUID, 1),
+          // Video
+          uintElement(IDS.TrackType, 1),
+          uintElement(IDS.FlagLacing, 0),
+          uintElement(
+            IDS.DefaultDuration,
+            Math.round(1_000_000_000 / frameRate)
+          ),
+          stringElement(IDS.CodecID, codecId),
+          element(IDS.Video, [
+            uintElement(IDS.PixelWidth, width),
+            uintElement(IDS.PixelHeight, height),
+          ]),
+        ]),
+      ]);
+
+      // The segment holds every cluster, so hand its parts to the Blob
+      // rather than copying them into one array
+      const body = [info, tracks, ...clusters];
+      const parts = [
+        header,
+        uintBytes(IDS.Segment),
+        sizeBytes(byteLength(body)),
+        ...body,
+      ];
+      return new Blob(parts as BlobPart[], { type: "video/webm" });
+    },
+  };
+}
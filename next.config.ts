@@ -1,5 +1,20 @@
 import type { NextConfig } from "next";
 
-const nextConfig: NextConfig = {};
+const nextConfig: NextConfig = {
+  // Import .frag/.glsl shader sources as raw strings
+  turbopack: {
+    rules: {
+      "*.frag": { type: "raw" },
+      "*.glsl": { type: "raw" },
+    },
+  },
+  webpack: (config) => {
+    config.module.rules.push({
+      test: /\.(frag|glsl)$/,
+      type: "asset/source",
+    });
+    return config;
+  },
+};
 
 export default nextConfig;